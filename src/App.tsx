@@ -8,7 +8,7 @@
  * @license MIT
  */
 
-import { useState, useMemo, useEffect, useCallback, useRef } from 'react';
+import { useState, useMemo, useEffect, useCallback, useRef, Fragment, type ReactNode } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import * as duckdb from '@duckdb/duckdb-wasm';
 import ReactMarkdown from 'react-markdown';
@@ -36,6 +36,25 @@ import {
   Tag,
   Database,
   Upload,
+  ClipboardCheck,
+  ChevronRight,
+  SlidersHorizontal,
+  ArrowUp,
+  ArrowDown,
+  SquareTerminal,
+  Play,
+  Download,
+  History,
+  Link,
+  Check,
+  Bookmark,
+  Star,
+  Scale,
+  ChevronDown,
+  ShieldAlert,
+  RotateCcw,
+  Sigma,
+  Info,
 } from 'lucide-react';
 
 // ============================================================================
@@ -53,7 +72,7 @@ interface Contract {
   area: string;
   category: string;
   amount: number;
-  date: string;
+  date: Date | null;              // award_date at UTC midnight
   status: string;
 }
 
@@ -74,9 +93,417 @@ interface DataStats {
   uniqueAwardees: number;
   uniqueAreas: number;
   uniqueCategories: number;
-  dateRange: { earliest: string; latest: string };
+  dateRange: { earliest: Date | null; latest: Date | null };
+  undatedContracts: number;       // Rows with no readable award_date
 }
 
+type ContractField =
+  | 'id'
+  | 'reference_id'
+  | 'contract_no'
+  | 'award_title'
+  | 'notice_title'
+  | 'awardee_name'
+  | 'organization_name'
+  | 'area_of_delivery'
+  | 'business_category'
+  | 'contract_amount'
+  | 'award_date'
+  | 'award_status';
+
+type ContractFieldType = 'text' | 'number' | 'date';
+
+type ColumnMapping = Partial<Record<ContractField, string>>;
+
+interface SourceColumn {
+  name: string;
+  type: string;
+}
+
+interface SchemaReport {
+  missing: Array<{ field: ContractField; required: boolean }>;
+  extra: Array<{ source: string; name: string }>; // Unmapped source columns, kept under `name`
+  aliased: Array<{ field: ContractField; source: string }>;
+  typeMismatches: Array<{
+    field: ContractField;
+    source: string;
+    expected: ContractFieldType;
+    actual: string;
+    unconverted: number;          // Non-null values that failed conversion
+  }>;
+  unparsedDates: number;          // Rows whose award_date text is not a known date format
+}
+
+type QualityIssue =
+  | { kind: 'missing'; field: ContractField }
+  | { kind: 'non_positive_amount' }
+  | { kind: 'unparsed_date' }
+  | { kind: 'date_out_of_range' }
+  | { kind: 'duplicate_reference' }
+  | { kind: 'unusual_status' };
+
+interface QualityCheck {
+  issue: QualityIssue;
+  label: string;
+  description: string;
+  count: number;
+}
+
+interface DataQualityReport {
+  totalRows: number;
+  columns: Array<{ field: ContractField; missing: number }>;  // NULL or blank values
+  checks: QualityCheck[];
+  unusualStatuses: Array<{ status: string; count: number }>;
+}
+
+// Conditions from the filter panel; all of them must hold
+interface AdvancedFilters {
+  amountMin?: number;             // Inclusive peso bounds on contract_amount
+  amountMax?: number;
+  dateFrom?: string;              // Inclusive ISO dates (YYYY-MM-DD)
+  dateTo?: string;
+  categories?: string[];          // Any of these business_category values
+  organization?: string;          // Resolved agency name (organization_entity)
+  awardee?: string;               // Resolved supplier name (awardee_entity)
+  statuses?: string[];            // Any of these award_status values
+}
+
+type AmountBound = 'amountMin' | 'amountMax';
+
+// Filters shared by the contract list and its count
+interface ContractFilter extends AdvancedFilters {
+  query?: string;
+  area?: string;                  // Raw area_of_delivery, for areas outside the reference
+  areaCode?: string;              // Region, province or city code anywhere in area_path
+  issue?: QualityIssue;
+  clauses?: QueryClause[];        // field:value conditions typed into the search bar
+  rowKeys?: number[];             // Exact rows, e.g. the contracts behind a red flag
+}
+
+// Search bar query language: `awardee:"XYZ TRADING" org:DPWH amount:>5M date:2023..2024
+// -category:Catering flood control`. Fields match text case-insensitively; amount and
+// date take comparisons and `a..b` ranges. Bare words and phrases are free text.
+type QueryTextField = 'awardee' | 'org' | 'category' | 'area' | 'status' | 'title' | 'ref';
+type QueryRangeField = 'amount' | 'date';
+type QueryField = QueryTextField | QueryRangeField;
+
+interface QueryBound {
+  op: '>' | '>=' | '<' | '<=' | '=';
+  value: number | string;         // Pesos for amount, ISO date for date
+}
+
+type QueryClause =
+  | { field: QueryTextField; negated: boolean; value: string }
+  | { field: QueryRangeField; negated: boolean; bounds: QueryBound[] }
+  | { field: 'text'; negated: true; value: string };   // -word or -"phrase"
+
+interface QueryError {
+  message: string;
+  start: number;                  // Character range in the search bar input
+  end: number;
+}
+
+interface ParsedQuery {
+  text: string;                   // Free text and "phrases" left for full-text search
+  clauses: QueryClause[];
+  errors: QueryError[];
+  hints: QueryError[];            // Shown but not in the way, e.g. an unknown field read as text
+}
+
+// One piece of the search bar input as typed, with its position
+interface QueryToken {
+  start: number;
+  end: number;
+  negated: boolean;
+  field: string | null;           // Text before `:`, as typed
+  value: string;                  // Unquoted value, or the bare word or phrase
+  quoted: boolean;
+  closed: boolean;                // False for a quote left open
+}
+
+interface QuerySuggestion {
+  label: string;
+  detail?: string;
+  insert: string;                 // Replaces the token under the cursor
+}
+
+interface FilterOptions {
+  categories: Array<{ value: string; count: number }>;
+  statuses: Array<{ value: string; count: number }>;
+}
+
+// Search box input: bare words and "quoted phrases"
+interface ParsedSearch {
+  terms: string[];
+  phrases: string[];
+}
+
+// What to mark in contract cards: words starting with a stem, and phrases as typed
+interface SearchHighlight {
+  stems: string[];
+  phrases: string[];
+}
+
+type ContractSortKey = 'relevance' | 'amount' | 'date' | 'awardee' | 'organization' | 'area';
+
+interface ContractSort {
+  key: ContractSortKey;
+  direction: 'asc' | 'desc';
+}
+
+type ContentTab = 'insights' | 'contracts' | 'quality' | 'analysis';
+
+type TrendGranularity = 'month' | 'quarter' | 'year';
+
+// One period of the spending trend, with the same period a year earlier for comparison
+interface TrendPoint {
+  period: Date;                   // First day of the month, quarter or year (UTC)
+  count: number;
+  amount: number;
+  prior: { count: number; amount: number } | null;  // Null before the first dated year
+}
+
+// Groups whose awards are scored for supplier concentration
+type ConcentrationDimension = 'organization' | 'category';
+
+// How concentrated one agency's or category's awards are among its suppliers
+interface ConcentrationScore {
+  name: string;
+  contracts: number;
+  amount: number;
+  suppliers: number;              // Distinct resolved supplier names
+  hhi: number;                    // Herfindahl-Hirschman Index, 0 to 10,000
+  top1Share: number;              // Fractions of the group's value
+  top3Share: number;
+  topSupplier: string;
+}
+
+type AnalysisView = 'concentration' | 'flags' | 'benford';
+
+// Benford tests look at the first digit (1-9) or the first two digits (10-99)
+type BenfordDigits = 1 | 2;
+
+type BenfordDimension = 'organization' | 'awardee' | 'category';
+
+interface BenfordBin {
+  digit: number;
+  count: number;
+  share: number;                  // Observed fraction of the sample
+  expected: number;               // Fraction Benford's Law predicts
+}
+
+interface BenfordTest {
+  digits: BenfordDigits;
+  sample: number;                 // Contracts of at least BENFORD_CONFIG.MIN_AMOUNT
+  bins: BenfordBin[];
+  chiSquare: number;
+  mad: number;                    // Mean absolute deviation of the shares
+}
+
+// An agency, supplier or category whose amounts stray from Benford's Law
+interface BenfordDeviation {
+  name: string;
+  contracts: number;
+  mad: number;
+  chiSquare: number;
+  mostOver: number;               // Digit furthest above its expected share
+}
+
+type RedFlagRuleId = 'split_awards' | 'year_end_spike' | 'round_amounts' | 'repeated_titles';
+
+type RedFlagSeverity = 'high' | 'medium' | 'low';
+
+// A pattern found by a red-flag rule, with the contracts behind it
+interface RedFlag {
+  id: string;                     // Rule, agency, supplier and title, so links can find it again
+  rule: RedFlagRuleId;
+  severity: RedFlagSeverity;
+  title: string;
+  explanation: string;
+  organization: string;
+  awardee: string | null;         // Set when the pattern involves a single supplier
+  contracts: number;
+  amount: number;
+  rowKeys: number[];
+}
+
+// Whether each rule runs, and its parameters by key
+type RedFlagSettings = Record<RedFlagRuleId, { enabled: boolean; params: Record<string, number> }>;
+
+// Search, filter and view state carried in the page URL so a view can be shared
+interface LinkedView {
+  query: string;
+  areaCode: string | null;
+  areaName: string | null;        // Raw area_of_delivery, for areas outside the reference
+  tab: ContentTab;
+  row: number;                    // Zero-based contract list position; links show it one-based
+  sort: ContractSort;
+  filters: AdvancedFilters;
+  issue: QualityIssue | null;
+  contractId: string | null;      // Contract open in the news panel
+  flag: string | null;            // RedFlag.id whose contracts are listed
+  datasets: string[];             // Content hash prefixes of the datasets on screen
+}
+
+// A named search, kept as the query string of its view link
+interface SavedSearch {
+  id: string;
+  name: string;
+  params: string;                 // encodeLinkedView output, without datasets, position or tab
+  summary: string;                // What the search covers, for the saved list
+  savedAt: number;
+}
+
+// A supplier or agency followed across dataset loads
+interface WatchedEntity {
+  kind: EntityKind;
+  name: string;                   // Resolved name (awardee_entity or organization_entity)
+  seenThrough: string | null;     // ISO date of the latest award already seen; later awards are new
+  addedAt: number;
+}
+
+interface WatchActivity {
+  kind: EntityKind;
+  name: string;
+  contracts: number;
+  amount: number;
+  newContracts: number;           // Awarded after the entry's seenThrough date
+  newAmount: number;
+  latest: Date | null;
+}
+
+// Values bound to `?` placeholders; the bindings pass them to DuckDB as JSON
+type SqlParam = string | number | boolean | null;
+
+interface SqlConsoleResult {
+  columns: Array<{ name: string; type: string }>;
+  rows: unknown[][];
+  truncated: boolean;             // More rows exist than SQL_CONSOLE_CONFIG.MAX_ROWS
+  elapsedMs: number;
+}
+
+interface SqlHistoryEntry {
+  sql: string;
+  ranAt: string;                  // ISO timestamp
+  rows: number | null;            // Null when the query failed
+}
+
+type EntityKind = 'awardee' | 'organization';
+
+type EntityDecision = 'accepted' | 'rejected';
+
+// Contracts and value behind one name in a profile breakdown, with its share of the value
+interface ProfileShare {
+  name: string;
+  count: number;
+  amount: number;
+  share: number;                  // Fraction of the profiled entity's total value
+}
+
+// Totals and breakdowns for one resolved agency or supplier name
+interface EntityProfile {
+  kind: EntityKind;
+  name: string;
+  contracts: number;
+  amount: number;
+  firstAward: Date | null;
+  lastAward: Date | null;
+  counterparties: ProfileShare[]; // Suppliers of an agency, or agencies of a supplier
+  counterpartyCount: number;
+  categories: ProfileShare[];
+  areas: ProfileShare[];          // area_of_delivery as written
+  areaCount: number;
+  trend: TrendPoint[];            // Yearly
+  largest: Contract[];
+  rank: number;                   // By total value among all names of this kind, 1 = largest
+  rankOf: number;
+}
+
+// A proposed merge of supplier or agency names. Names that only differ in case,
+// punctuation or legal suffix share a key and are merged unless rejected; similar
+// keys are only merged once accepted.
+interface EntityMatch {
+  id: string;                     // Stable key for the stored decision
+  kind: EntityKind;
+  method: 'normalized' | 'fuzzy';
+  keys: string[];                 // Normalized name keys covered by the match
+  similarity: number;             // Jaro-Winkler score, 1 for normalized matches
+  names: Array<{ name: string; rows: number }>;
+  decision: EntityDecision | null;
+}
+
+type AreaLevel = 'region' | 'province' | 'city' | 'municipality';
+
+// One tile in the Area Explorer: a region, province or city/municipality, or an
+// area_of_delivery string the matcher could not place (code and level are null)
+interface AreaNode {
+  code: string | null;
+  name: string;
+  level: AreaLevel | null;
+  depth: number;                  // 1 = region, 2 = province, 3 = city/municipality (NCR's are 2)
+  count: number;
+  amount: number;
+  drillable: boolean;             // Some contracts resolve below this area
+}
+
+type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+interface CsvFormat {
+  encoding: CsvEncoding;
+  delimiter: string;
+  headerRow: number;              // Zero-based row index of the header line
+}
+
+interface CsvInspection extends CsvFormat {
+  columns: string[];
+  sampleRows: string[][];
+}
+
+interface CsvImportOptions extends CsvFormat {
+  mapping: ColumnMapping;
+}
+
+interface LoadProgress {
+  message: string;
+  fraction: number | null;        // 0-1 when the total is known
+}
+
+interface LoadOptions {
+  onProgress?: (progress: LoadProgress) => void;
+  signal?: AbortSignal;
+  append?: boolean;               // Add to the current view instead of replacing it
+}
+
+interface DatasetEntry {
+  id: string;                     // Backing table name, e.g. dataset_1
+  fileName: string;
+  rowCount: number;
+  loadedAt: number;
+  hash?: string;                  // Content hash once the dataset is cached
+  schemaReport: SchemaReport;
+}
+
+// A table function to read from, optionally split into slices (parquet row groups)
+// that are inserted one at a time
+interface TableSource {
+  from: string;
+  batches?: Array<{ from: string; rows: number }>;
+}
+
+interface CachedDataset {
+  hash: string;                   // SHA-256 of the source file contents (and CSV import options)
+  fileName: string;
+  rowCount: number;
+  loadedAt: number;
+  sizeBytes: number;              // Size of the cached table on disk
+}
+
+type DataSource =
+  | { kind: 'demo' }
+  | { kind: 'parquet'; file: File }
+  | { kind: 'csv'; file: File; options: CsvImportOptions }
+  | { kind: 'cached'; dataset: CachedDataset };
+
 interface ConversationMemory {
   recentMessages: ChatMessage[];  // Last N messages (buffer window)
   summary: string;                // AI-generated summary of older context
@@ -98,11 +525,31 @@ const formatCurrency = (amount: number, compact = true): string => {
   return `₱${amount.toLocaleString('en-PH', { minimumFractionDigits: 2 })}`;
 };
 
-const formatDate = (dateString: string): string => {
-  if (!dateString) return 'N/A';
-  const date = new Date(dateString);
-  if (isNaN(date.getTime())) return dateString;
-  return date.toLocaleDateString('en-PH', { year: 'numeric', month: 'short', day: 'numeric' });
+// Award dates are calendar dates stored as UTC midnight, so format them in UTC
+const formatDate = (date: Date | null): string => {
+  if (!date) return 'N/A';
+  return date.toLocaleDateString('en-PH', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+};
+
+// DATE columns are selected through epoch_ms() so they arrive as plain millisecond counts
+const dateFromEpoch = (value: unknown): Date | null =>
+  value === null || value === undefined ? null : new Date(Number(value));
+
+const newsSearchQuery = (contract: Contract): string =>
+  `${contract.awardee} Philippines government procurement`;
+
+const pluralize = (count: number, noun: string): string =>
+  `${count.toLocaleString()} ${noun}${count === 1 ? '' : 's'}`;
+
+const toIsoDate = (date: Date | null): string => (date ? date.toISOString().slice(0, 10) : 'unknown');
+
+const downloadFile = (data: BlobPart, filename: string, type: string): void => {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
 };
 
 const generateId = (): string => `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
@@ -115,6 +562,12 @@ const STORAGE_KEYS = {
   API_KEY: 'spendwatch_api_key',
   CHAT_HISTORY: 'spendwatch_chat_history',
   CONVERSATION_MEMORY: 'spendwatch_conversation_memory',
+  DATASET_CACHE: 'spendwatch_dataset_cache',
+  ENTITY_DECISIONS: 'spendwatch_entity_decisions',
+  SQL_HISTORY: 'spendwatch_sql_history',
+  SAVED_SEARCHES: 'spendwatch_saved_searches',
+  WATCHLIST: 'spendwatch_watchlist',
+  RED_FLAG_SETTINGS: 'spendwatch_red_flag_settings',
 } as const;
 
 // Memory configuration
@@ -159,1033 +612,5423 @@ const storage = {
 };
 
 // ============================================================================
-// DuckDB-WASM Service
+// Schema Utilities
 // ============================================================================
 
-class DuckDBService {
-  private db: duckdb.AsyncDuckDB | null = null;
-  private conn: duckdb.AsyncDuckDBConnection | null = null;
-  private initialized = false;
+// Canonical columns the query layer expects in the `contracts` table
+const CONTRACT_FIELDS: Array<{
+  name: ContractField;
+  label: string;
+  type: ContractFieldType;
+  required: boolean;
+}> = [
+  { name: 'award_title', label: 'Award Title', type: 'text', required: true },
+  { name: 'awardee_name', label: 'Awardee / Supplier', type: 'text', required: true },
+  { name: 'organization_name', label: 'Procuring Entity', type: 'text', required: true },
+  { name: 'contract_amount', label: 'Contract Amount', type: 'number', required: true },
+  { name: 'award_date', label: 'Award Date', type: 'date', required: false },
+  { name: 'area_of_delivery', label: 'Area of Delivery', type: 'text', required: false },
+  { name: 'business_category', label: 'Business Category', type: 'text', required: false },
+  { name: 'reference_id', label: 'Reference ID', type: 'text', required: false },
+  { name: 'id', label: 'Contract ID', type: 'text', required: false },
+  { name: 'contract_no', label: 'Contract No.', type: 'text', required: false },
+  { name: 'notice_title', label: 'Notice Title', type: 'text', required: false },
+  { name: 'award_status', label: 'Award Status', type: 'text', required: false },
+];
+
+// Common column names in PhilGEPS exports (open data portal, FOI extracts, agency
+// spreadsheets), matched after normalization. Add new spellings here.
+const COLUMN_ALIASES: Record<ContractField, string[]> = {
+  id: ['contract_id', 'award_id', 'record_id'],
+  reference_id: ['ref_id', 'reference_no', 'reference_number', 'ref_no', 'bid_reference_no', 'philgeps_reference_no'],
+  contract_no: ['contract_number', 'contract_num', 'po_no', 'po_number'],
+  award_title: ['title', 'contract_title', 'project_title', 'award_name', 'item_description'],
+  notice_title: ['bid_notice_title', 'notice', 'project_name', 'procurement_title'],
+  awardee_name: ['supplier_name', 'supplier', 'awardee', 'contractor', 'contractor_name', 'winning_bidder', 'bidder_name'],
+  organization_name: ['procuring_entity', 'agency', 'agency_name', 'organization', 'entity_name', 'org_name'],
+  area_of_delivery: ['delivery_area', 'area', 'location', 'place_of_delivery', 'province'],
+  business_category: ['category', 'classification', 'business_type', 'procurement_category'],
+  contract_amount: ['amount', 'award_amount', 'contract_value', 'contract_price', 'total_amount', 'value'],
+  award_date: ['date_awarded', 'contract_date', 'award_notice_date', 'notice_of_award_date', 'date'],
+  award_status: ['status', 'contract_status', 'notice_status'],
+};
 
-  async initialize(): Promise<void> {
-    if (this.initialized) return;
+const NUMERIC_TYPE_PATTERN = /^(DOUBLE|FLOAT|REAL|DECIMAL|NUMERIC|HUGEINT|UHUGEINT|BIGINT|UBIGINT|INTEGER|UINTEGER|SMALLINT|USMALLINT|TINYINT|UTINYINT)/;
+const DATE_TYPE_PATTERN = /^(DATE|TIMESTAMP|VARCHAR)/;
 
-    const JSDELIVR_BUNDLES = duckdb.getJsDelivrBundles();
-    const bundle = await duckdb.selectBundle(JSDELIVR_BUNDLES);
+const isExpectedType = (expected: ContractFieldType, actual: string): boolean => {
+  if (expected === 'number') return NUMERIC_TYPE_PATTERN.test(actual);
+  if (expected === 'date') return DATE_TYPE_PATTERN.test(actual);
+  return actual === 'VARCHAR';
+};
 
-    const worker_url = URL.createObjectURL(
-      new Blob([`importScripts("${bundle.mainWorker!}");`], { type: 'text/javascript' })
-    );
+const normalizeColumnName = (name: string): string =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+// Exact canonical names win over aliases, and earlier aliases over later ones
+const suggestColumnMapping = (columns: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const byNormalized = new Map(columns.map((c) => [normalizeColumnName(c), c]));
+  for (const field of CONTRACT_FIELDS) {
+    const candidates = [field.name, ...COLUMN_ALIASES[field.name]];
+    const match = candidates.map((c) => byNormalized.get(c)).find(Boolean);
+    if (match && !Object.values(mapping).includes(match)) mapping[field.name] = match;
+  }
+  return mapping;
+};
 
-    const worker = new Worker(worker_url);
-    const logger = new duckdb.ConsoleLogger(duckdb.LogLevel.WARNING);
+const buildSchemaReport = (
+  columns: SourceColumn[],
+  mapping: ColumnMapping,
+  checkTypes: boolean
+): SchemaReport => {
+  const typeOf = new Map(columns.map((c) => [c.name, c.type]));
+
+  return {
+    missing: CONTRACT_FIELDS
+      .filter((f) => !mapping[f.name])
+      .map((f) => ({ field: f.name, required: f.required })),
+    extra: extraColumns(columns.map((c) => c.name), mapping),
+    aliased: CONTRACT_FIELDS
+      .filter((f) => mapping[f.name] && normalizeColumnName(mapping[f.name]!) !== f.name)
+      .map((f) => ({ field: f.name, source: mapping[f.name]! })),
+    typeMismatches: checkTypes
+      ? CONTRACT_FIELDS
+          .filter((f) => mapping[f.name] && !isExpectedType(f.type, typeOf.get(mapping[f.name]!) ?? ''))
+          .map((f) => ({
+            field: f.name,
+            source: mapping[f.name]!,
+            expected: f.type,
+            actual: typeOf.get(mapping[f.name]!) ?? 'UNKNOWN',
+            unconverted: 0,
+          }))
+      : [],
+    unparsedDates: 0,
+  };
+};
 
-    this.db = new duckdb.AsyncDuckDB(logger, worker);
-    await this.db.instantiate(bundle.mainModule, bundle.pthreadWorker);
-    URL.revokeObjectURL(worker_url);
+class SchemaValidationError extends Error {
+  constructor(public readonly report: SchemaReport, columns: SourceColumn[]) {
+    const missing = report.missing.filter((m) => m.required).map((m) => m.field);
+    super(
+      `The file is missing required columns: ${missing.join(', ')}. ` +
+      `Found: ${columns.map((c) => c.name).join(', ') || 'no columns'}. ` +
+      'Rename the columns or add the export\'s names to COLUMN_ALIASES.'
+    );
+    this.name = 'SchemaValidationError';
+  }
+}
 
-    this.conn = await this.db.connect();
-    this.initialized = true;
+class LoadCancelledError extends Error {
+  constructor() {
+    super('Loading was cancelled.');
+    this.name = 'LoadCancelledError';
   }
+}
 
-  async loadParquetFromFile(file: File): Promise<number> {
-    if (!this.db || !this.conn) await this.initialize();
+class ConsoleCancelledError extends Error {
+  constructor() {
+    super('The query was cancelled.');
+    this.name = 'ConsoleCancelledError';
+  }
+}
 
-    await this.db!.registerFileHandle('data.parquet', file, duckdb.DuckDBDataProtocol.BROWSER_FILEREADER, true);
+const quoteIdentifier = (name: string): string => `"${name.replace(/"/g, '""')}"`;
 
-    await this.conn!.query(`
-      CREATE OR REPLACE TABLE contracts AS
-      SELECT * FROM read_parquet('data.parquet')
-    `);
+const numberFromText = (expr: string): string =>
+  `TRY_CAST(REGEXP_REPLACE(CAST(${expr} AS VARCHAR), '[^0-9.-]', '', 'g') AS DOUBLE)`;
 
-    const countResult = await this.conn!.query('SELECT COUNT(*) as cnt FROM contracts');
-    const count = countResult.toArray()[0]?.cnt;
-    return typeof count === 'bigint' ? Number(count) : (count ?? 0);
-  }
+// US-style dates from agency spreadsheets; ISO dates and timestamps are handled by the cast
+const DATE_TEXT_FORMATS = ['%m/%d/%Y', '%m/%d/%Y %H:%M', '%m/%d/%Y %H:%M:%S', '%m/%d/%Y %I:%M %p', '%m/%d/%Y %I:%M:%S %p'];
 
-  async loadParquetFromUrl(url: string): Promise<number> {
-    if (!this.db || !this.conn) await this.initialize();
+const dateFromText = (expr: string): string => {
+  const text = `TRIM(CAST(${expr} AS VARCHAR))`;
+  const formats = DATE_TEXT_FORMATS.map((f) => `'${f}'`).join(', ');
+  return `COALESCE(TRY_CAST(${text} AS DATE), CAST(TRY_STRPTIME(${text}, [${formats}]) AS DATE))`;
+};
 
-    // Fetch the file and register it
-    const response = await fetch(url);
-    const arrayBuffer = await response.arrayBuffer();
-    const uint8Array = new Uint8Array(arrayBuffer);
+// Original award_date text, kept next to the typed column so rows that failed to
+// parse can still be found and shown
+const DATE_TEXT_COLUMN = 'award_date_text';
 
-    return this.loadParquetFromBuffer(uint8Array);
-  }
+const SQL_FIELD_TYPES: Record<ContractFieldType, string> = { text: 'VARCHAR', number: 'DOUBLE', date: 'DATE' };
 
-  async loadParquetFromBuffer(buffer: Uint8Array): Promise<number> {
-    if (!this.db || !this.conn) await this.initialize();
+// Columns the contracts view and the dataset combiner add to a stored table
+const RESERVED_COLUMNS = [
+  'row_key', 'awardee_id', 'awardee_entity', 'organization_id', 'organization_entity', 'area_path', 'dataset_order',
+];
 
-    await this.db!.registerFileBuffer('data.parquet', buffer);
+// Source columns not mapped to a field, kept as they are after the canonical ones. A
+// name that clashes with a canonical or reserved column (ignoring case, as DuckDB
+// does) gets a numeric suffix: an unmapped "Title" is kept as "Title_2".
+const extraColumns = (columns: string[], mapping: ColumnMapping): Array<{ source: string; name: string }> => {
+  const mapped = new Set(Object.values(mapping));
+  const taken = new Set(
+    [...CONTRACT_FIELDS.map((f) => f.name), DATE_TEXT_COLUMN, ...RESERVED_COLUMNS].map((name) => name.toLowerCase())
+  );
+  return columns
+    .filter((source) => !mapped.has(source) && source !== DATE_TEXT_COLUMN)
+    .map((source) => {
+      let name = source;
+      for (let n = 2; taken.has(name.toLowerCase()); n++) name = `${source}_${n}`;
+      taken.add(name.toLowerCase());
+      return { source, name };
+    });
+};
 
-    try {
-      await this.conn!.query(`
-        CREATE OR REPLACE TABLE contracts AS
-        SELECT * FROM read_parquet('data.parquet')
-      `);
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      if (errorMsg.toLowerCase().includes('snappy')) {
-        throw new Error(
-          'This parquet file uses Snappy compression, which is not supported in browsers. ' +
-          'Please re-export your file with no compression: df.to_parquet("file.parquet", compression=None)'
-        );
-      }
-      if (errorMsg.toLowerCase().includes('gzip')) {
-        throw new Error(
-          'This parquet file uses GZIP compression, which is not supported by DuckDB-WASM. ' +
-          'Please re-export your file with no compression: df.to_parquet("file.parquet", compression=None)'
-        );
-      }
-      throw error;
+// Projects the source columns onto the canonical schema. Unmapped fields become typed
+// NULLs so the downstream queries can still reference them; unmapped columns follow.
+const buildMappedSelect = (mapping: ColumnMapping, types: Map<string, string>): string => {
+  const fields = CONTRACT_FIELDS.map(({ name, type }) => {
+    const source = mapping[name];
+    if (!source) {
+      return `CAST(NULL AS ${SQL_FIELD_TYPES[type]}) AS ${name}`;
+    }
+    const column = quoteIdentifier(source);
+    if (type === 'number') {
+      // Text amounts come through like "₱1,234,567.00"
+      return NUMERIC_TYPE_PATTERN.test(types.get(source) ?? '')
+        ? `CAST(${column} AS DOUBLE) AS ${name}`
+        : `${numberFromText(column)} AS ${name}`;
     }
+    if (type === 'date') {
+      return /^(DATE|TIMESTAMP)/.test(types.get(source) ?? '')
+        ? `CAST(${column} AS DATE) AS ${name}`
+        : `${dateFromText(column)} AS ${name}`;
+    }
+    return `NULLIF(TRIM(CAST(${column} AS VARCHAR)), '') AS ${name}`;
+  });
 
-    const countResult = await this.conn!.query('SELECT COUNT(*) as cnt FROM contracts');
-    const count = countResult.toArray()[0]?.cnt;
-    return typeof count === 'bigint' ? Number(count) : (count ?? 0);
+  // Cached datasets were written by this projection and already carry the text column
+  const dateText = types.has(DATE_TEXT_COLUMN)
+    ? DATE_TEXT_COLUMN
+    : mapping.award_date && quoteIdentifier(mapping.award_date);
+  fields.push(dateText
+    ? `NULLIF(TRIM(CAST(${dateText} AS VARCHAR)), '') AS ${DATE_TEXT_COLUMN}`
+    : `CAST(NULL AS VARCHAR) AS ${DATE_TEXT_COLUMN}`);
+
+  for (const { source, name } of extraColumns([...types.keys()], mapping)) {
+    fields.push(`${quoteIdentifier(source)} AS ${quoteIdentifier(name)}`);
   }
 
-  async getStats(): Promise<DataStats> {
-    if (!this.conn) throw new Error('Not connected');
+  return fields.join(',\n        ');
+};
 
-    const result = await this.conn.query(`
-      SELECT
-        COUNT(*) as total_contracts,
-        COALESCE(SUM(contract_amount), 0) as total_value,
-        COALESCE(AVG(contract_amount), 0) as avg_value,
-        COUNT(DISTINCT organization_name) as unique_orgs,
-        COUNT(DISTINCT awardee_name) as unique_awardees,
-        COUNT(DISTINCT area_of_delivery) as unique_areas,
-        COUNT(DISTINCT business_category) as unique_categories,
-        CAST(MIN(award_date) AS VARCHAR) as earliest_date,
-        CAST(MAX(award_date) AS VARCHAR) as latest_date
-      FROM contracts
-      WHERE contract_amount IS NOT NULL
-    `);
+// ============================================================================
+// Data Quality Utilities
+// ============================================================================
 
-    const row = result.toArray()[0];
+const QUALITY_CONFIG = {
+  MIN_AWARD_DATE: '2000-01-01',   // PhilGEPS went live in 2000; earlier dates are typos
+  RARE_STATUS_SHARE: 0.01,        // Statuses on fewer than 1% of rows are flagged
+} as const;
 
-    // Parse dates properly - handle various formats
-    const parseDate = (val: unknown): string => {
-      if (!val) return '';
-      const str = String(val);
-      // If it's already a date string like "2020-01-15", return as is
-      if (/^\d{4}-\d{2}-\d{2}/.test(str)) return str;
-      // If it's a timestamp number, convert it
-      const num = Number(str);
-      if (!isNaN(num) && num > 0) {
-        const date = new Date(num);
-        if (!isNaN(date.getTime())) {
-          return date.toISOString().split('T')[0];
-        }
-      }
-      return str;
-    };
+const isBlank = (column: string): string =>
+  `NULLIF(TRIM(CAST(${column} AS VARCHAR)), '') IS NULL`;
+
+// WHERE-clause fragment matching the rows behind a quality issue, used both for the
+// counts in the report and for drilling into the rows from the Contracts tab
+const qualityIssuePredicate = (issue: QualityIssue): string => {
+  switch (issue.kind) {
+    case 'missing':
+      return isBlank(issue.field);
+    case 'non_positive_amount':
+      return 'contract_amount <= 0';
+    case 'unparsed_date':
+      return `award_date IS NULL AND ${DATE_TEXT_COLUMN} IS NOT NULL`;
+    case 'date_out_of_range':
+      return `(award_date < DATE '${QUALITY_CONFIG.MIN_AWARD_DATE}' OR award_date > current_date)`;
+    case 'duplicate_reference':
+      return `reference_id IN (
+        SELECT reference_id FROM contracts
+        WHERE reference_id IS NOT NULL
+        GROUP BY reference_id HAVING COUNT(*) > 1
+      )`;
+    case 'unusual_status':
+      return `award_status IN (
+        SELECT award_status FROM contracts
+        WHERE award_status IS NOT NULL
+        GROUP BY award_status
+        HAVING COUNT(*) < ${QUALITY_CONFIG.RARE_STATUS_SHARE} * (SELECT COUNT(*) FROM contracts)
+      )`;
+  }
+};
 
-    return {
-      totalContracts: Number(row.total_contracts),
-      totalValue: Number(row.total_value),
-      avgValue: Number(row.avg_value),
-      uniqueOrgs: Number(row.unique_orgs),
-      uniqueAwardees: Number(row.unique_awardees),
-      uniqueAreas: Number(row.unique_areas),
-      uniqueCategories: Number(row.unique_categories),
-      dateRange: {
-        earliest: parseDate(row.earliest_date),
-        latest: parseDate(row.latest_date),
-      },
-    };
+const describeQualityIssue = (issue: QualityIssue): { label: string; description: string } => {
+  switch (issue.kind) {
+    case 'missing': {
+      const label = CONTRACT_FIELDS.find((f) => f.name === issue.field)?.label ?? issue.field;
+      return { label: `Missing ${label}`, description: `Rows where ${issue.field} is empty` };
+    }
+    case 'non_positive_amount':
+      return { label: 'Zero or negative amount', description: 'contract_amount is 0 or below' };
+    case 'unparsed_date':
+      return { label: 'Unreadable award date', description: 'award_date is not in a recognized date format' };
+    case 'date_out_of_range':
+      return {
+        label: 'Implausible award date',
+        description: `award_date is before ${QUALITY_CONFIG.MIN_AWARD_DATE} or in the future`,
+      };
+    case 'duplicate_reference':
+      return {
+        label: 'Duplicate reference ID',
+        description: 'reference_id appears on more than one row (may be line items of one notice)',
+      };
+    case 'unusual_status':
+      return {
+        label: 'Unusual award status',
+        description: `award_status used on fewer than ${QUALITY_CONFIG.RARE_STATUS_SHARE * 100}% of rows`,
+      };
   }
+};
 
-  async getAreaBreakdown(): Promise<Array<{ area: string; count: number; amount: number }>> {
-    if (!this.conn) throw new Error('Not connected');
+// ============================================================================
+// Entity Resolution Utilities
+// ============================================================================
 
-    const result = await this.conn.query(`
-      SELECT
-        COALESCE(area_of_delivery, 'Unknown') as area,
-        COUNT(*) as count,
-        COALESCE(SUM(contract_amount), 0) as amount
-      FROM contracts
-      WHERE area_of_delivery IS NOT NULL AND area_of_delivery != ''
-      GROUP BY area_of_delivery
-      ORDER BY amount DESC
-      LIMIT 50
-    `);
+const ENTITY_CONFIG = {
+  BLOCK_PREFIX_LENGTH: 3,         // Only keys sharing this prefix are compared
+  MIN_TYPO_TOKEN_LENGTH: 4,       // Shorter words (DEO, CAR, NCR) are too ambiguous
+  FILLER_WORDS: ['AND', 'THE', 'OF'],
+  MAX_FUZZY_MATCHES: 500,
+  REVIEW_PAGE_SIZE: 200,          // Matches rendered at a time in the review list
+} as const;
 
-    return result.toArray().map((row) => ({
-      area: String(row.area),
-      count: Number(row.count),
-      amount: Number(row.amount),
-    }));
-  }
+const LEGAL_SUFFIXES = ['INC', 'INCORPORATED', 'CORP', 'CORPORATION', 'CO', 'COMPANY', 'LTD', 'LIMITED', 'OPC'];
 
-  async getCategoryBreakdown(): Promise<Array<{ category: string; count: number; amount: number }>> {
-    if (!this.conn) throw new Error('Not connected');
+const quoteLiteral = (value: string): string => `'${value.replace(/'/g, "''")}'`;
 
-    const result = await this.conn.query(`
-      SELECT
-        COALESCE(business_category, 'Unknown') as category,
-        COUNT(*) as count,
-        COALESCE(SUM(contract_amount), 0) as amount
-      FROM contracts
-      WHERE business_category IS NOT NULL AND business_category != ''
-      GROUP BY business_category
-      ORDER BY amount DESC
-      LIMIT 20
-    `);
+// Upper-cases, spells out "&" (including HTML-escaped "&amp;" from scraped exports),
+// drops punctuation so "A.B.C." matches "ABC", and strips trailing legal suffixes
+const entityKeySql = (expr: string): string => {
+  let key = `REPLACE(UPPER(${expr}), '&AMP;', '&')`;
+  key = `REGEXP_REPLACE(${key}, '&', ' AND ', 'g')`;
+  key = `REGEXP_REPLACE(${key}, '[.,''’]', '', 'g')`;
+  key = `REGEXP_REPLACE(${key}, '\\bPHILS?\\b', 'PHILIPPINES', 'g')`;
+  key = `TRIM(REGEXP_REPLACE(${key}, '[^A-Z0-9]+', ' ', 'g'))`;
+  return `REGEXP_REPLACE(${key}, '( (${LEGAL_SUFFIXES.join('|')}))+$', '')`;
+};
 
-    return result.toArray().map((row) => ({
-      category: String(row.category),
-      count: Number(row.count),
-      amount: Number(row.amount),
-    }));
-  }
+const ENTITY_KIND_LABELS: Record<EntityKind, string> = {
+  awardee: 'Suppliers',
+  organization: 'Agencies',
+};
 
-  async searchContracts(options: {
-    query?: string;
-    area?: string;
-    category?: string;
-    limit?: number;
-    offset?: number;
-  }): Promise<Contract[]> {
-    if (!this.conn) throw new Error('Not connected');
+// Wording for the profile panel; an agency's counterparties are its suppliers and vice versa
+const ENTITY_PROFILE_LABELS: Record<EntityKind, { title: string; amount: string; counterparties: string }> = {
+  awardee: { title: 'Supplier Profile', amount: 'Lifetime Value', counterparties: 'Client Agencies' },
+  organization: { title: 'Agency Profile', amount: 'Total Spend', counterparties: 'Top Suppliers' },
+};
 
-    const { query, area, category, limit = 50, offset = 0 } = options;
-    const conditions: string[] = [];
+// ============================================================================
+// Area Reference Utilities
+// ============================================================================
 
-    if (query) {
-      const escaped = query.replace(/'/g, "''").toLowerCase();
-      conditions.push(`(
-        LOWER(COALESCE(award_title, '')) LIKE '%${escaped}%' OR
-        LOWER(COALESCE(awardee_name, '')) LIKE '%${escaped}%' OR
-        LOWER(COALESCE(organization_name, '')) LIKE '%${escaped}%' OR
-        LOWER(COALESCE(notice_title, '')) LIKE '%${escaped}%'
-      )`);
-    }
+// Regions, provinces, cities and municipalities with their 10-digit PSGC codes.
+// Independent cities are placed in the province they lie in.
+const AREA_REFERENCE_URL = '/data/psgc_areas.csv';
 
-    if (area) {
-      conditions.push(`area_of_delivery = '${area.replace(/'/g, "''")}'`);
-    }
+const AREA_CONFIG = {
+  FUZZY_THRESHOLD: 0.93,          // Jaro-Winkler score for misspelled area names
+  MIN_FUZZY_KEY_LENGTH: 5,
+} as const;
 
-    if (category) {
-      conditions.push(`business_category = '${category.replace(/'/g, "''")}'`);
-    }
+const AREA_LEVEL_LABELS: Record<AreaLevel, string> = {
+  region: 'regions',
+  province: 'provinces',
+  city: 'cities',
+  municipality: 'municipalities',
+};
 
-    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+// "cities", or "cities and municipalities" for a province's mixed towns
+const areaLevelLabel = (nodes: AreaNode[]): string => {
+  const levels = new Set(nodes.map((node) => node.level));
+  if (levels.has('city') && levels.has('municipality')) return 'cities and municipalities';
+  return nodes[0]?.level ? AREA_LEVEL_LABELS[nodes[0].level] : 'areas';
+};
 
-    const result = await this.conn.query(`
-      SELECT
-        COALESCE(CAST(id AS VARCHAR), CAST(ROW_NUMBER() OVER () AS VARCHAR)) as id,
-        COALESCE(reference_id, '') as reference_id,
-        COALESCE(contract_no, '') as contract_no,
-        COALESCE(award_title, '') as award_title,
-        COALESCE(notice_title, '') as notice_title,
-        COALESCE(awardee_name, '') as awardee_name,
-        COALESCE(organization_name, '') as organization_name,
-        COALESCE(area_of_delivery, '') as area_of_delivery,
-        COALESCE(business_category, '') as business_category,
-        COALESCE(contract_amount, 0) as contract_amount,
-        COALESCE(CAST(award_date AS VARCHAR), '') as award_date,
-        COALESCE(award_status, 'active') as award_status
-      FROM contracts
-      ${whereClause}
-      ORDER BY contract_amount DESC
-      LIMIT ${limit}
-      OFFSET ${offset}
-    `);
+const isSameArea = (a: AreaNode | null, b: AreaNode): boolean =>
+  a !== null && a.code === b.code && (a.code !== null || a.name === b.name);
+
+// Strips accents, parentheticals like "(Independent City)" and "Province of", and
+// turns "City of X" into "X CITY" so both spellings share a key
+const areaKeySql = (expr: string): string => {
+  let key = `strip_accents(UPPER(${expr}))`;
+  key = `REGEXP_REPLACE(${key}, '\\([^)]*\\)', ' ', 'g')`;
+  key = `TRIM(REGEXP_REPLACE(${key}, '[^A-Z0-9]+', ' ', 'g'))`;
+  key = `REGEXP_REPLACE(${key}, '\\bSTA\\b', 'SANTA', 'g')`;
+  key = `REGEXP_REPLACE(${key}, '\\bSTO\\b', 'SANTO', 'g')`;
+  key = `REGEXP_REPLACE(${key}, '\\bGEN\\b', 'GENERAL', 'g')`;
+  key = `REGEXP_REPLACE(${key}, '^(PROVINCE|MUNICIPALITY) OF ', '')`;
+  return `REGEXP_REPLACE(${key}, '^CITY OF (.*)$', '\\1 CITY')`;
+};
 
-    return result.toArray().map((row) => ({
-      id: String(row.id),
-      referenceId: String(row.reference_id),
-      contractNo: String(row.contract_no),
-      title: String(row.award_title),
-      noticeTitle: String(row.notice_title),
-      awardee: String(row.awardee_name),
-      organization: String(row.organization_name),
-      area: String(row.area_of_delivery),
-      category: String(row.business_category),
-      amount: Number(row.contract_amount),
-      date: String(row.award_date),
-      status: String(row.award_status),
-    }));
+// ============================================================================
+// Dataset Cache Utilities
+// ============================================================================
+
+const CACHE_CONFIG = {
+  DIRECTORY: 'spendwatch-datasets', // OPFS directory holding cached tables
+  MAX_DATASETS: 5,                  // Oldest datasets are evicted beyond this
+  HASH_CHUNK_BYTES: 8 * 1024 * 1024,
+} as const;
+
+const DEMO_DATASET_URL = '/data/philgeps_demo.parquet';
+
+// WebCrypto has no incremental SHA-256, so hash fixed-size chunks and then the
+// concatenated chunk digests. The file never has to be in memory all at once.
+const hashBlob = async (blob: Blob): Promise<string> => {
+  const digests: Uint8Array[] = [];
+  for (let offset = 0; offset < blob.size; offset += CACHE_CONFIG.HASH_CHUNK_BYTES) {
+    const chunk = await blob.slice(offset, offset + CACHE_CONFIG.HASH_CHUNK_BYTES).arrayBuffer();
+    digests.push(new Uint8Array(await crypto.subtle.digest('SHA-256', chunk)));
   }
 
-  async getContractCount(options: { query?: string; area?: string; category?: string }): Promise<number> {
-    if (!this.conn) throw new Error('Not connected');
+  const combined = new Uint8Array(digests.length * 32);
+  digests.forEach((digest, i) => combined.set(digest, i * 32));
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', combined));
+  return Array.from(digest, (b) => b.toString(16).padStart(2, '0')).join('');
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+};
 
-    const { query, area, category } = options;
-    const conditions: string[] = [];
+// ============================================================================
+// CSV Import Utilities
+// ============================================================================
 
-    if (query) {
-      const escaped = query.replace(/'/g, "''").toLowerCase();
-      conditions.push(`(
-        LOWER(COALESCE(award_title, '')) LIKE '%${escaped}%' OR
-        LOWER(COALESCE(awardee_name, '')) LIKE '%${escaped}%' OR
-        LOWER(COALESCE(organization_name, '')) LIKE '%${escaped}%'
-      )`);
-    }
+const CSV_CONFIG = {
+  SAMPLE_BYTES: 256 * 1024,       // Bytes read from the file head for detection
+  SAMPLE_ROWS: 50,                // Rows parsed for delimiter/header detection
+  PREVIEW_ROWS: 5,                // Rows shown in the mapping preview
+  DELIMITERS: [',', ';', '\t', '|'],
+  TRANSCODE_FILE: 'transcode.csv',                    // UTF-8 copy of a non-UTF-8 upload, in OPFS
+  MAX_IN_MEMORY_TRANSCODE_BYTES: 64 * 1024 * 1024,    // Without OPFS, larger files are refused
+} as const;
 
-    if (area) {
-      conditions.push(`area_of_delivery = '${area.replace(/'/g, "''")}'`);
-    }
+const CSV_DELIMITER_LABELS: Record<string, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+  '|': 'Pipe',
+};
+
+const detectCsvEncoding = (bytes: Uint8Array): CsvEncoding => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  try {
+    // stream: true tolerates a multi-byte character cut off at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'utf-8';
+  } catch {
+    // Legacy Excel exports from government offices are usually Windows-1252
+    return 'windows-1252';
+  }
+};
 
-    if (category) {
-      conditions.push(`business_category = '${category.replace(/'/g, "''")}'`);
+// Quote-aware row parser. A trailing row without a line break is dropped since the
+// sample may have been cut mid-row.
+const parseCsvRows = (text: string, delimiter: string, maxRows: number): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length && rows.length < maxRows; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
     }
+  }
 
-    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  return rows;
+};
 
-    const result = await this.conn.query(`SELECT COUNT(*) as cnt FROM contracts ${whereClause}`);
-    const count = result.toArray()[0]?.cnt;
-    return typeof count === 'bigint' ? Number(count) : (count ?? 0);
-  }
+const modalFieldCount = (rows: string[][]): { count: number; frequency: number } => {
+  const counts = new Map<number, number>();
+  rows.forEach((r) => counts.set(r.length, (counts.get(r.length) ?? 0) + 1));
+  let best = { count: 0, frequency: 0 };
+  counts.forEach((frequency, count) => {
+    if (frequency > best.frequency || (frequency === best.frequency && count > best.count)) {
+      best = { count, frequency };
+    }
+  });
+  return best;
+};
 
-  isReady(): boolean {
-    return this.initialized && this.conn !== null;
+const detectCsvDelimiter = (text: string): string => {
+  let best: { delimiter: string; score: number } = { delimiter: ',', score: 0 };
+  for (const delimiter of CSV_CONFIG.DELIMITERS) {
+    const rows = parseCsvRows(text, delimiter, CSV_CONFIG.SAMPLE_ROWS);
+    const { count, frequency } = modalFieldCount(rows);
+    if (count < 2) continue;
+    // Favour delimiters that split most rows into the same number of fields
+    const score = frequency * count;
+    if (score > best.score) best = { delimiter, score };
   }
-}
+  return best.delimiter;
+};
 
-const duckDBService = new DuckDBService();
+// The header is the first row that has the full column count and no numeric cells;
+// FOI extracts often start with a title or "Generated on" preamble.
+const detectCsvHeaderRow = (rows: string[][]): number => {
+  const { count } = modalFieldCount(rows);
+  const index = rows.slice(0, 10).findIndex((r) =>
+    r.length === count &&
+    r.every((cell) => cell.trim() !== '' && isNaN(Number(cell.replace(/,/g, ''))))
+  );
+  return Math.max(index, 0);
+};
+
+const inspectCsv = async (file: File, overrides: Partial<CsvFormat> = {}): Promise<CsvInspection> => {
+  const bytes = new Uint8Array(await file.slice(0, CSV_CONFIG.SAMPLE_BYTES).arrayBuffer());
+  const encoding = overrides.encoding ?? detectCsvEncoding(bytes);
+  const text = new TextDecoder(encoding).decode(bytes, { stream: true });
+  const delimiter = overrides.delimiter ?? detectCsvDelimiter(text);
+  const rows = parseCsvRows(text, delimiter, CSV_CONFIG.SAMPLE_ROWS);
+  const headerRow = overrides.headerRow ?? detectCsvHeaderRow(rows);
+
+  return {
+    encoding,
+    delimiter,
+    headerRow,
+    columns: (rows[headerRow] ?? []).map((c) => c.trim()),
+    sampleRows: rows.slice(headerRow + 1, headerRow + 1 + CSV_CONFIG.PREVIEW_ROWS),
+  };
+};
 
 // ============================================================================
-// Main Application Component
+// Contract Filter Utilities
 // ============================================================================
 
-export default function App() {
-  // Data State
-  const [isDataLoading, setIsDataLoading] = useState(false);
-  const [dataLoaded, setDataLoaded] = useState(false);
-  const [dataError, setDataError] = useState<string | null>(null);
-  const [stats, setStats] = useState<DataStats | null>(null);
-  const [areaBreakdown, setAreaBreakdown] = useState<Array<{ area: string; count: number; amount: number }>>([]);
-  const [categoryBreakdown, setCategoryBreakdown] = useState<Array<{ category: string; count: number; amount: number }>>([]);
-  const [contracts, setContracts] = useState<Contract[]>([]);
-  const [totalFilteredCount, setTotalFilteredCount] = useState(0);
-  const [loadingProgress, setLoadingProgress] = useState('');
+// Columns matched by substring search, raw and resolved names alike. Phrases are
+// checked here too, since the full-text index only knows single words.
+const SEARCH_COLUMNS = [
+  'award_title',
+  'notice_title',
+  'awardee_name',
+  'awardee_entity',
+  'organization_name',
+  'organization_entity',
+] as const;
+
+// Full-text index over the text columns of contracts_base, keyed by row_key.
+// The FTS extension puts its tables and match_bm25 macro in FTS_SCHEMA.
+const FTS_TABLE = 'contracts_fts';
+const FTS_SCHEMA = `fts_main_${FTS_TABLE}`;
+const FTS_COLUMNS = ['award_title', 'notice_title', 'awardee_name', 'organization_name'] as const;
+
+// Sortable columns with the direction a fresh click starts in. Relevance needs a
+// full-text query and falls back to amount without one.
+const CONTRACT_SORTS: Record<ContractSortKey, { label: string; column: string; direction: ContractSort['direction'] }> = {
+  relevance: { label: 'Relevance', column: 'relevance', direction: 'desc' },
+  amount: { label: 'Amount', column: 'contract_amount', direction: 'desc' },
+  date: { label: 'Award date', column: 'award_date', direction: 'desc' },
+  awardee: { label: 'Supplier', column: 'awardee_entity', direction: 'asc' },
+  organization: { label: 'Agency', column: 'organization_entity', direction: 'asc' },
+  area: { label: 'Area', column: 'area_of_delivery', direction: 'asc' },
+};
 
-  // UI State
-  const [activeTab, setActiveTab] = useState<'insights' | 'contracts'>('insights');
-  const [searchQuery, setSearchQuery] = useState('');
-  const [selectedProvince, setSelectedProvince] = useState<string | null>(null);
-  const [selectedContract, setSelectedContract] = useState<Contract | null>(null);
-  const [currentPage, setCurrentPage] = useState(0);
-  const [showChatModal, setShowChatModal] = useState(false);
-  const PAGE_SIZE = 50;
+const DEFAULT_CONTRACT_SORT: ContractSort = { key: 'relevance', direction: 'desc' };
+
+// Select list read back by rowToContract. Rows without an id are keyed by row_key,
+// which stays the same each time the same file is loaded.
+const CONTRACT_COLUMNS = `
+  COALESCE(CAST(id AS VARCHAR), 'row-' || row_key) as id,
+  COALESCE(reference_id, '') as reference_id,
+  COALESCE(contract_no, '') as contract_no,
+  COALESCE(award_title, '') as award_title,
+  COALESCE(notice_title, '') as notice_title,
+  COALESCE(awardee_entity, '') as awardee_name,
+  COALESCE(organization_entity, '') as organization_name,
+  COALESCE(area_of_delivery, '') as area_of_delivery,
+  COALESCE(business_category, '') as business_category,
+  COALESCE(contract_amount, 0) as contract_amount,
+  epoch_ms(award_date) as award_date,
+  COALESCE(award_status, 'active') as award_status`;
+
+const rowToContract = (row: Record<string, unknown>): Contract => ({
+  id: String(row.id),
+  referenceId: String(row.reference_id),
+  contractNo: String(row.contract_no),
+  title: String(row.award_title),
+  noticeTitle: String(row.notice_title),
+  awardee: String(row.awardee_name),
+  organization: String(row.organization_name),
+  area: String(row.area_of_delivery),
+  category: String(row.business_category),
+  amount: Number(row.contract_amount),
+  date: dateFromEpoch(row.award_date),
+  status: String(row.award_status),
+});
+
+const parseSearchQuery = (query: string): ParsedSearch => {
+  const phrases: string[] = [];
+  const rest = query.replace(/"([^"]*)"?/g, (_, phrase: string) => {
+    const trimmed = phrase.trim().replace(/\s+/g, ' ');
+    if (trimmed) phrases.push(trimmed);
+    return ' ';
+  });
+  const terms = rest
+    .split(/\s+/)
+    .map((t) => t.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ''))
+    .filter(Boolean);
+  return { terms, phrases };
+};
 
-  // API Key State
-  const [apiKey, setApiKey] = useState<string>(() => storage.get(STORAGE_KEYS.API_KEY, ''));
-  const [showApiKeyModal, setShowApiKeyModal] = useState(false);
-  const [apiKeyInput, setApiKeyInput] = useState('');
-  const [showApiKey, setShowApiKey] = useState(false);
-  const [isValidatingKey, setIsValidatingKey] = useState(false);
-  const [keyError, setKeyError] = useState<string | null>(null);
+const anyColumnContains = (): string =>
+  `(${SEARCH_COLUMNS.map((c) => `contains(LOWER(COALESCE(${c}, '')), ?)`).join(' OR ')})`;
+
+// SQL for a filter with every user value as a bound parameter. Only the quality
+// predicates are inlined, and those are fixed SQL picked by issue kind. With the
+// full-text index, the source gains a BM25 `relevance` column and every word of the
+// query must match (after stemming); without it, every word is a substring match.
+// The index drops stopwords, so they are left out of the query too: a query of
+// nothing but stopwords would otherwise match no rows at all.
+const buildContractFilter = (
+  filter: ContractFilter,
+  fullText = false,
+  stopwords: ReadonlySet<string> = new Set()
+): { source: string; where: string; params: SqlParam[]; ranked: boolean } => {
+  const conditions: string[] = [];
+  const params: SqlParam[] = [];
+  let source = 'contracts';
+  const sourceParams: SqlParam[] = [];
+
+  const { terms, phrases } = parseSearchQuery(filter.query ?? '');
+  const isStopword = (word: string) => stopwords.has(word.toLowerCase());
+  const indexed = [
+    ...terms.filter((t) => !isStopword(t)),
+    ...phrases.filter((p) => !p.split(/[^\p{L}\p{N}]+/u).filter(Boolean).every(isStopword)),
+  ];
+  const ranked = fullText && indexed.length > 0;
 
-  // Chat State with Memory
-  const [conversationMemory, setConversationMemory] = useState<ConversationMemory>(() => {
-    const saved = storage.get<ConversationMemory>(STORAGE_KEYS.CONVERSATION_MEMORY, DEFAULT_MEMORY);
-    if (saved.recentMessages.length === 0) {
-      return {
-        ...DEFAULT_MEMORY,
-        recentMessages: [{
-          id: generateId(),
-          role: 'assistant',
-          content: `Magandang araw! I'm SpendWatch AI, your intelligent guide to Philippine government procurement data.
+  if (ranked) {
+    source = `(SELECT *, ${FTS_SCHEMA}.match_bm25(row_key, ?, conjunctive := 1) AS relevance FROM contracts)`;
+    sourceParams.push(indexed.join(' '));
+    conditions.push('relevance IS NOT NULL');
+  }
 
-I can help you explore:
-- **Spending patterns** across provinces and categories
-- **Contract details** and supplier information
-- **Trends and anomalies** in procurement data
-- **Comparative analysis** between agencies
+  for (const needle of fullText ? phrases : [...terms, ...phrases]) {
+    conditions.push(anyColumnContains());
+    params.push(...SEARCH_COLUMNS.map(() => needle.toLowerCase()));
+  }
 
-Ask me anything about government spending!`,
-          timestamp: new Date(),
-        }],
-      };
-    }
-    return {
-      ...saved,
-      recentMessages: saved.recentMessages.map(m => ({ ...m, timestamp: new Date(m.timestamp) })),
-    };
-  });
-  const [chatInput, setChatInput] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
-  const [streamingContent, setStreamingContent] = useState('');
+  if (filter.area) {
+    conditions.push('area_of_delivery = ?');
+    params.push(filter.area);
+  }
 
-  // Derived: All chat messages for display
-  const chatMessages = conversationMemory.recentMessages;
+  if (filter.areaCode) {
+    conditions.push('list_contains(area_path, ?)');
+    params.push(filter.areaCode);
+  }
 
-  // News Search State
-  const [showNewsPanel, setShowNewsPanel] = useState(false);
-  const [newsQuery, setNewsQuery] = useState('');
+  if (filter.categories?.length) {
+    conditions.push(`business_category IN (${filter.categories.map(() => '?').join(', ')})`);
+    params.push(...filter.categories);
+  }
 
-  // Refs
-  const chatEndRef = useRef<HTMLDivElement>(null);
-  const hasInitialized = useRef(false);
+  if (filter.organization) {
+    conditions.push('organization_entity = ?');
+    params.push(filter.organization);
+  }
 
-  // Load parquet data - auto-loads demo file by default
-  const loadData = useCallback(async (file?: File) => {
-    if (isDataLoading) return;
+  if (filter.awardee) {
+    conditions.push('awardee_entity = ?');
+    params.push(filter.awardee);
+  }
 
-    // Reset state to show loading UI
-    setDataLoaded(false);
-    setIsDataLoading(true);
-    setDataError(null);
-    setLoadingProgress(file ? `Preparing to load ${file.name}...` : 'Initializing data engine...');
+  if (filter.statuses?.length) {
+    conditions.push(`COALESCE(award_status, 'active') IN (${filter.statuses.map(() => '?').join(', ')})`);
+    params.push(...filter.statuses);
+  }
 
-    // Clear existing data while loading
-    setContracts([]);
-    setStats(null);
-    setAreaBreakdown([]);
-    setCategoryBreakdown([]);
+  if (filter.amountMin !== undefined) {
+    conditions.push('contract_amount >= ?');
+    params.push(filter.amountMin);
+  }
 
-    try {
-      await duckDBService.initialize();
+  if (filter.amountMax !== undefined) {
+    conditions.push('contract_amount <= ?');
+    params.push(filter.amountMax);
+  }
 
-      let rowCount: number;
+  if (filter.issue) {
+    conditions.push(`(${qualityIssuePredicate(filter.issue)})`);
+  }
 
-      if (file) {
-        // Load from uploaded file
-        setLoadingProgress(`Loading ${file.name}...`);
-        const buffer = await file.arrayBuffer();
-        rowCount = await duckDBService.loadParquetFromBuffer(new Uint8Array(buffer));
-      } else {
-        // Load demo data from public folder
-        setLoadingProgress('Loading demo dataset (5,000 contracts)...');
-        rowCount = await duckDBService.loadParquetFromUrl('/data/philgeps_demo.parquet');
-      }
+  if (filter.rowKeys) {
+    conditions.push(filter.rowKeys.length > 0 ? `row_key IN (${filter.rowKeys.map(() => '?').join(', ')})` : 'false');
+    params.push(...filter.rowKeys);
+  }
 
-      setLoadingProgress(`Processing ${rowCount.toLocaleString()} contracts...`);
+  for (const clause of filter.clauses ?? []) {
+    const compiled = compileQueryClause(clause);
+    conditions.push(compiled.sql);
+    params.push(...compiled.params);
+  }
 
-      // Load all the data in parallel
-      const [statsData, areas, categories, initialContracts, count] = await Promise.all([
-        duckDBService.getStats(),
-        duckDBService.getAreaBreakdown(),
-        duckDBService.getCategoryBreakdown(),
-        duckDBService.searchContracts({ limit: PAGE_SIZE }),
-        duckDBService.getContractCount({}),
-      ]);
+  if (filter.dateFrom) {
+    conditions.push('award_date >= TRY_CAST(? AS DATE)');
+    params.push(filter.dateFrom);
+  }
 
-      setStats(statsData);
-      setAreaBreakdown(areas);
-      setCategoryBreakdown(categories);
-      setContracts(initialContracts);
-      setTotalFilteredCount(count);
-      setDataLoaded(true);
-      setLoadingProgress('');
-    } catch (error) {
-      console.error('Failed to load data:', error);
-      setDataError(error instanceof Error ? error.message : 'Failed to load data.');
-      setLoadingProgress('');
-    } finally {
-      setIsDataLoading(false);
-    }
-  }, [isDataLoading]);
+  if (filter.dateTo) {
+    conditions.push('award_date <= TRY_CAST(? AS DATE)');
+    params.push(filter.dateTo);
+  }
 
-  // File upload handler with validation
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  return {
+    source,
+    where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    params: [...sourceParams, ...params],
+    ranked,
+  };
+};
 
-  const handleFileUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+// One removable chip per active panel condition, and one per selected category or status
+const describeAdvancedFilters = (
+  filters: AdvancedFilters
+): Array<{ id: string; label: string; without: AdvancedFilters }> => {
+  const chips: Array<{ id: string; label: string; without: AdvancedFilters }> = [];
+
+  if (filters.amountMin !== undefined || filters.amountMax !== undefined) {
+    const { amountMin: min, amountMax: max } = filters;
+    chips.push({
+      id: 'amount',
+      label: min !== undefined && max !== undefined
+        ? `${formatCurrency(min)} – ${formatCurrency(max)}`
+        : min !== undefined ? `≥ ${formatCurrency(min)}` : `≤ ${formatCurrency(max!)}`,
+      without: { ...filters, amountMin: undefined, amountMax: undefined },
+    });
+  }
+  if (filters.dateFrom || filters.dateTo) {
+    chips.push({
+      id: 'date',
+      label: filters.dateFrom && filters.dateTo
+        ? `${filters.dateFrom} to ${filters.dateTo}`
+        : filters.dateFrom ? `From ${filters.dateFrom}` : `Until ${filters.dateTo}`,
+      without: { ...filters, dateFrom: undefined, dateTo: undefined },
+    });
+  }
+  for (const category of filters.categories ?? []) {
+    chips.push({
+      id: `category:${category}`,
+      label: category,
+      without: { ...filters, categories: filters.categories!.filter((c) => c !== category) },
+    });
+  }
+  if (filters.organization) {
+    chips.push({ id: 'organization', label: `Agency: ${filters.organization}`, without: { ...filters, organization: undefined } });
+  }
+  if (filters.awardee) {
+    chips.push({ id: 'awardee', label: `Supplier: ${filters.awardee}`, without: { ...filters, awardee: undefined } });
+  }
+  for (const status of filters.statuses ?? []) {
+    chips.push({
+      id: `status:${status}`,
+      label: `Status: ${status}`,
+      without: { ...filters, statuses: filters.statuses!.filter((s) => s !== status) },
+    });
+  }
 
-    // Validate file type
-    const validTypes = ['.parquet', '.csv'];
-    const extension = file.name.toLowerCase().slice(file.name.lastIndexOf('.'));
+  return chips;
+};
 
-    if (!validTypes.includes(extension)) {
-      setDataError('Invalid file type. Please upload a .parquet or .csv file.');
-      return;
-    }
+// Splits text into plain and <mark>ed parts. Words match when they start with a
+// query stem ("flood" marks "flooding"); phrases match anywhere, case-insensitively.
+const highlightMatches = (text: string, highlight: SearchHighlight | null): ReactNode => {
+  if (!highlight || !text) return text;
 
-    // Validate file size (max 500MB)
-    if (file.size > 500 * 1024 * 1024) {
-      setDataError('File too large. Maximum size is 500MB.');
-      return;
+  const lower = text.toLowerCase();
+  const ranges: Array<[number, number]> = [];
+  for (const phrase of highlight.phrases) {
+    for (let i = lower.indexOf(phrase); i !== -1; i = lower.indexOf(phrase, i + phrase.length)) {
+      ranges.push([i, i + phrase.length]);
     }
-
-    // For CSV, we need to convert - but for now only support parquet
-    if (extension === '.csv') {
-      setDataError('CSV upload coming soon. Please use .parquet format for now.');
-      return;
+  }
+  for (const word of lower.matchAll(/[\p{L}\p{N}]+/gu)) {
+    if (highlight.stems.some((stem) => word[0].startsWith(stem))) {
+      ranges.push([word.index!, word.index! + word[0].length]);
     }
+  }
+  if (ranges.length === 0) return text;
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  for (const [start, end] of ranges) {
+    if (end <= cursor) continue;
+    const from = Math.max(start, cursor);
+    if (from > cursor) parts.push(text.slice(cursor, from));
+    parts.push(
+      <mark key={from} className="bg-amber-200/70 text-inherit rounded px-0.5">
+        {text.slice(from, end)}
+      </mark>
+    );
+    cursor = end;
+  }
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return parts;
+};
 
-    // Reset file input
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
+// ============================================================================
+// Query Language Utilities
+// ============================================================================
 
-    // Clear any previous errors before loading
-    setDataError(null);
+const QUERY_FIELDS: Record<QueryField, { aliases: string[]; description: string }> = {
+  awardee: { aliases: ['supplier'], description: 'Supplier name contains' },
+  org: { aliases: ['agency', 'organization'], description: 'Agency name contains, or acronym (DPWH)' },
+  category: { aliases: ['cat'], description: 'Business category contains' },
+  area: { aliases: ['region', 'province', 'city'], description: 'Area of delivery, or a region/province/city it lies in' },
+  status: { aliases: [], description: 'Award status is' },
+  title: { aliases: [], description: 'Award or notice title contains' },
+  ref: { aliases: ['reference'], description: 'Reference ID or contract number is' },
+  amount: { aliases: [], description: 'Amount, e.g. >5M, <=250K, 1M..10M' },
+  date: { aliases: ['awarded'], description: 'Award date, e.g. 2024, 2023..2024, >=2024-06' },
+};
 
-    // Load the file
-    await loadData(file);
-  }, [loadData]);
+const QUERY_FIELD_EXAMPLES: Partial<Record<QueryField, string[]>> = {
+  amount: ['>1M', '>=5M', '<100K', '1M..10M'],
+  date: ['2024', '2023..2024', '>=2024-06', '<2023-01-01'],
+};
 
-  // Auto-load data on mount
-  useEffect(() => {
-    if (!hasInitialized.current && !dataLoaded && !isDataLoading) {
-      hasInitialized.current = true;
-      loadData();
-    }
-  }, [loadData, dataLoaded, isDataLoading]);
+// Words dropped from agency names before taking initials, so "Department of Public
+// Works and Highways - Region V" has the acronym DPWH
+const ORG_ACRONYM_SQL = `array_to_string(
+  list_transform(
+    list_filter(
+      string_split(UPPER(split_part(COALESCE(organization_entity, ''), ' - ', 1)), ' '),
+      w -> w <> '' AND w NOT IN ('OF', 'AND', 'THE', 'FOR', 'ON', 'IN', '&')
+    ),
+    w -> w[1]
+  ),
+  ''
+)`;
+
+const resolveQueryField = (name: string): QueryField | null => {
+  const lower = name.toLowerCase();
+  return (Object.keys(QUERY_FIELDS) as QueryField[]).find(
+    (f) => f === lower || QUERY_FIELDS[f].aliases.includes(lower)
+  ) ?? null;
+};
 
-  // Search and filter contracts
-  const searchContractsHandler = useCallback(async () => {
-    if (!duckDBService.isReady()) return;
+const quoteQueryValue = (value: string): string => (/[\s"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value);
 
-    try {
-      const [results, count] = await Promise.all([
-        duckDBService.searchContracts({
-          query: searchQuery || undefined,
-          area: selectedProvince || undefined,
-          limit: PAGE_SIZE,
-          offset: currentPage * PAGE_SIZE,
-        }),
-        duckDBService.getContractCount({
-          query: searchQuery || undefined,
-          area: selectedProvince || undefined,
-        }),
-      ]);
+// Splits input into `[-]field:value`, `[-]"phrase"` and word tokens. Only letters
+// before a colon make a field, so "Phase 1: Road" stays plain text.
+const tokenizeQuery = (input: string): QueryToken[] => {
+  const tokens: QueryToken[] = [];
+  let i = 0;
 
-      setContracts(results);
-      setTotalFilteredCount(count);
-    } catch (error) {
-      console.error('Search failed:', error);
+  const readValue = (from: number): { value: string; end: number; quoted: boolean; closed: boolean } => {
+    if (input[from] === '"') {
+      const close = input.indexOf('"', from + 1);
+      return close === -1
+        ? { value: input.slice(from + 1), end: input.length, quoted: true, closed: false }
+        : { value: input.slice(from + 1, close), end: close + 1, quoted: true, closed: true };
     }
-  }, [searchQuery, selectedProvince, currentPage]);
+    let end = from;
+    while (end < input.length && !/\s/.test(input[end])) end++;
+    return { value: input.slice(from, end), end, quoted: false, closed: true };
+  };
 
-  // Effect: Search when filters change
-  useEffect(() => {
-    if (dataLoaded) {
-      setCurrentPage(0);
-      searchContractsHandler();
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
     }
-  }, [searchQuery, selectedProvince, dataLoaded]);
-
-  // Effect: Load more when page changes
-  useEffect(() => {
-    if (dataLoaded && currentPage > 0) {
-      searchContractsHandler();
+    const start = i;
+    const negated = input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1]);
+    const bodyStart = negated ? i + 1 : i;
+    const field = /^([A-Za-z]+):/.exec(input.slice(bodyStart));
+
+    if (field) {
+      const read = readValue(bodyStart + field[0].length);
+      tokens.push({ start, end: read.end, negated, field: field[1], value: read.value, quoted: read.quoted, closed: read.closed });
+      i = read.end;
+    } else {
+      const read = readValue(bodyStart);
+      tokens.push({ start, end: read.end, negated, field: null, value: read.value, quoted: read.quoted, closed: read.closed });
+      i = read.end;
     }
-  }, [currentPage, dataLoaded]);
+  }
+  return tokens;
+};
 
-  // Computed values for provinces
-  const maxAmount = useMemo(() => {
-    return Math.max(...areaBreakdown.map(a => a.amount), 1);
-  }, [areaBreakdown]);
+// "5M", "1.5B", "250K", "1,000,000" or "₱2,500.50"
+const parseQueryAmount = (text: string): number | null => {
+  const match = /^(\d+(?:\.\d+)?)([kmb])?$/i.exec(text.replace(/[₱,]/g, ''));
+  if (!match) return null;
+  const scale = { k: 1e3, m: 1e6, b: 1e9 }[match[2]?.toLowerCase() as 'k' | 'm' | 'b'] ?? 1;
+  return Number(match[1]) * scale;
+};
 
-  const topCategories = useMemo(() => {
-    return categoryBreakdown.slice(0, 5).map(c => [c.category, c.amount] as [string, number]);
-  }, [categoryBreakdown]);
+// "2024", "2024-06" or "2024-06-15" as the half-open ISO range [start, end)
+const parseQueryDate = (text: string): { start: string; end: string } | null => {
+  const match = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(text);
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), match[2] ? Number(match[2]) : null, match[3] ? Number(match[3]) : null];
+  if (month !== null && (month < 1 || month > 12)) return null;
+
+  const start = new Date(Date.UTC(year, (month ?? 1) - 1, day ?? 1));
+  if (day !== null && start.getUTCDate() !== day) return null;
+  const end = day !== null
+    ? new Date(Date.UTC(year, month! - 1, day + 1))
+    : month !== null ? new Date(Date.UTC(year, month, 1)) : new Date(Date.UTC(year + 1, 0, 1));
+  return { start: toIsoDate(start), end: toIsoDate(end) };
+};
 
-  // Persist conversation memory
-  useEffect(() => {
-    storage.set(STORAGE_KEYS.CONVERSATION_MEMORY, conversationMemory);
-  }, [conversationMemory]);
+// amount and date values: `5M`, `>5M`, `>=2024-06`, `1M..10M`, `2023..`, `..2024`
+const parseQueryBounds = (field: QueryRangeField, text: string): { bounds: QueryBound[] } | { error: string } => {
+  const fieldLabel = field === 'amount' ? 'an amount like 5M or 250000' : 'a date like 2024, 2024-06 or 2024-06-15';
+
+  if (field === 'amount') {
+    const parse = (t: string) => parseQueryAmount(t);
+    if (text.includes('..')) {
+      const [low, high] = text.split('..', 2);
+      const [min, max] = [low ? parse(low) : undefined, high ? parse(high) : undefined];
+      if (min === null || max === null || (min === undefined && max === undefined)) {
+        return { error: `amount:${text} is not a range of amounts. Try 1M..10M.` };
+      }
+      if (min !== undefined && max !== undefined && min > max) return { error: `amount:${text} starts above its end.` };
+      return {
+        bounds: [
+          ...(min !== undefined ? [{ op: '>=' as const, value: min }] : []),
+          ...(max !== undefined ? [{ op: '<=' as const, value: max }] : []),
+        ],
+      };
+    }
+    const match = /^(>=|<=|>|<|=)?(.*)$/.exec(text)!;
+    const value = parse(match[2]);
+    if (value === null) return { error: `amount:${text} needs ${fieldLabel}.` };
+    return { bounds: [{ op: (match[1] ?? '=') as QueryBound['op'], value }] };
+  }
 
-  // Auto-scroll chat
-  useEffect(() => {
-    chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [chatMessages, streamingContent]);
+  if (text.includes('..')) {
+    const [low, high] = text.split('..', 2);
+    const [from, until] = [low ? parseQueryDate(low) : undefined, high ? parseQueryDate(high) : undefined];
+    if (from === null || until === null || (from === undefined && until === undefined)) {
+      return { error: `date:${text} is not a range of dates. Try 2023..2024.` };
+    }
+    if (from && until && from.start >= until.end) return { error: `date:${text} starts after its end.` };
+    return {
+      bounds: [
+        ...(from ? [{ op: '>=' as const, value: from.start }] : []),
+        ...(until ? [{ op: '<' as const, value: until.end }] : []),
+      ],
+    };
+  }
+  const match = /^(>=|<=|>|<|=)?(.*)$/.exec(text)!;
+  const period = parseQueryDate(match[2]);
+  if (!period) return { error: `date:${text} needs ${fieldLabel}.` };
+  switch (match[1]) {
+    case '>': return { bounds: [{ op: '>=', value: period.end }] };
+    case '>=': return { bounds: [{ op: '>=', value: period.start }] };
+    case '<': return { bounds: [{ op: '<', value: period.start }] };
+    case '<=': return { bounds: [{ op: '<', value: period.end }] };
+    default: return { bounds: [{ op: '>=', value: period.start }, { op: '<', value: period.end }] };
+  }
+};
 
-  // API Key Validation
-  const validateApiKey = async (key: string): Promise<boolean> => {
-    try {
-      const response = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': key,
-          'anthropic-version': '2023-06-01',
-          'anthropic-dangerous-direct-browser-access': 'true',
-        },
-        body: JSON.stringify({
-          model: 'claude-sonnet-4-5-20250929',
-          max_tokens: 10,
-          messages: [{ role: 'user', content: 'Hi' }],
-        }),
+const parseSearchInput = (input: string): ParsedQuery => {
+  const text: string[] = [];
+  const clauses: QueryClause[] = [];
+  const errors: QueryError[] = [];
+  const hints: QueryError[] = [];
+
+  for (const token of tokenizeQuery(input)) {
+    const fail = (message: string) => errors.push({ message, start: token.start, end: token.end });
+    if (token.quoted && !token.closed) fail('Missing closing quote.');
+
+    // Text that only looks like a field, such as "Re:" or a URL, is searched as typed
+    const field = token.field === null ? null : resolveQueryField(token.field);
+    if (token.field !== null && !field) {
+      const known = Object.keys(QUERY_FIELDS).join(', ');
+      hints.push({
+        message: `is searched as text. Fields are ${known}.`,
+        start: token.start,
+        end: token.end,
       });
-
-      return response.ok || response.status === 429;
-    } catch {
-      return false;
+      const typed = input.slice(token.start + (token.negated ? 1 : 0), token.end);
+      if (token.negated) {
+        clauses.push({ field: 'text', negated: true, value: typed });
+      } else {
+        text.push(typed);
+      }
+      continue;
     }
-  };
-
-  const handleSaveApiKey = async () => {
-    if (!apiKeyInput.trim()) return;
 
-    if (!apiKeyInput.startsWith('sk-ant-')) {
-      setKeyError('Invalid API key format. Keys start with "sk-ant-"');
-      return;
+    if (!field) {
+      if (!token.value.trim()) continue;
+      if (token.negated) {
+        clauses.push({ field: 'text', negated: true, value: token.value });
+      } else {
+        text.push(token.quoted ? `"${token.value}"` : token.value);
+      }
+      continue;
     }
 
-    setIsValidatingKey(true);
-    setKeyError(null);
-
-    const isValid = await validateApiKey(apiKeyInput);
+    if (!token.value.trim()) {
+      fail(`${field}: needs a value.`);
+      continue;
+    }
 
-    if (isValid) {
-      setApiKey(apiKeyInput);
-      storage.set(STORAGE_KEYS.API_KEY, apiKeyInput);
-      setShowApiKeyModal(false);
-      setApiKeyInput('');
+    if (field === 'amount' || field === 'date') {
+      const parsed = parseQueryBounds(field, token.value.trim());
+      if ('error' in parsed) {
+        fail(parsed.error);
+      } else {
+        clauses.push({ field, negated: token.negated, bounds: parsed.bounds });
+      }
     } else {
-      setKeyError('Invalid API key. Please check and try again.');
+      clauses.push({ field, negated: token.negated, value: token.value.trim() });
     }
+  }
 
-    setIsValidatingKey(false);
-  };
+  return { text: text.join(' '), clauses, errors, hints };
+};
 
-  const handleClearApiKey = () => {
-    setApiKey('');
-    storage.remove(STORAGE_KEYS.API_KEY);
-  };
+const compileQueryClause = (clause: QueryClause): { sql: string; params: SqlParam[] } => {
+  const contains = (column: string) => `contains(LOWER(COALESCE(${column}, '')), ?)`;
+  let sql: string;
+  let params: SqlParam[];
+
+  if ('bounds' in clause) {
+    const column = clause.field === 'amount' ? 'contract_amount' : 'award_date';
+    const placeholder = clause.field === 'amount' ? '?' : 'TRY_CAST(? AS DATE)';
+    sql = clause.bounds.map((b) => `${column} ${b.op} ${placeholder}`).join(' AND ');
+    params = clause.bounds.map((b) => b.value);
+  } else {
+    const value = clause.value.toLowerCase();
+    switch (clause.field) {
+      case 'awardee':
+        sql = `${contains('awardee_entity')} OR ${contains('awardee_name')}`;
+        params = [value, value];
+        break;
+      case 'org':
+        sql = `${contains('organization_entity')} OR ${contains('organization_name')} OR ${ORG_ACRONYM_SQL} = ?`;
+        params = [value, value, clause.value.toUpperCase()];
+        break;
+      case 'category':
+        sql = contains('business_category');
+        params = [value];
+        break;
+      case 'area':
+        sql = `${contains('area_of_delivery')} OR EXISTS (
+          SELECT 1 FROM area_reference r WHERE list_contains(area_path, r.code) AND contains(LOWER(r.name), ?)
+        )`;
+        params = [value, value];
+        break;
+      case 'status':
+        sql = `LOWER(COALESCE(award_status, 'active')) = ?`;
+        params = [value];
+        break;
+      case 'title':
+        sql = `${contains('award_title')} OR ${contains('notice_title')}`;
+        params = [value, value];
+        break;
+      case 'ref':
+        sql = 'reference_id = ? OR contract_no = ?';
+        params = [clause.value, clause.value];
+        break;
+      case 'text':
+        sql = SEARCH_COLUMNS.map(contains).join(' OR ');
+        params = SEARCH_COLUMNS.map(() => value);
+        break;
+    }
+  }
 
-  // Build context for AI with memory
-  const buildDataContext = useCallback((): string => {
-    if (!stats) return 'No data loaded yet. The PhilGEPS parquet file is being loaded.';
+  // Rows with an empty column still pass a negated clause
+  return { sql: clause.negated ? `NOT COALESCE((${sql}), FALSE)` : `(${sql})`, params };
+};
 
-    let context = `=== PHILIPPINE GOVERNMENT PROCUREMENT DATA (PhilGEPS) ===
+// The token under the cursor, or an empty one when the cursor starts a new word
+const queryTokenAt = (input: string, cursor: number): QueryToken => {
+  const token = tokenizeQuery(input).find((t) => t.start <= cursor && cursor <= t.end);
+  return token ?? { start: cursor, end: cursor, negated: false, field: null, value: '', quoted: false, closed: true };
+};
 
-DATA SUMMARY:
-- Total Contracts: ${stats.totalContracts.toLocaleString()}
-- Total Value: ${formatCurrency(stats.totalValue)}
-- Average Contract: ${formatCurrency(stats.avgValue)}
-- Unique Agencies: ${stats.uniqueOrgs.toLocaleString()}
-- Unique Suppliers: ${stats.uniqueAwardees.toLocaleString()}
-- Date Range: ${stats.dateRange.earliest} to ${stats.dateRange.latest}
+const suggestQueryFields = (token: QueryToken): QuerySuggestion[] => {
+  if (token.field !== null || token.quoted || !token.value) return [];
+  const prefix = token.value.toLowerCase();
+  const negation = token.negated ? '-' : '';
+  return (Object.keys(QUERY_FIELDS) as QueryField[])
+    .filter((f) => f.startsWith(prefix) || QUERY_FIELDS[f].aliases.some((a) => a.startsWith(prefix)))
+    .map((f) => ({ label: `${f}:`, detail: QUERY_FIELDS[f].description, insert: `${negation}${f}:` }));
+};
 
-TOP CATEGORIES BY VALUE:
-${topCategories.map(([c, v]) => `• ${c}: ${formatCurrency(v)}`).join('\n')}
+const queryValueSuggestion = (token: QueryToken, field: QueryField, value: string, detail?: string): QuerySuggestion => ({
+  label: value,
+  detail,
+  insert: `${token.negated ? '-' : ''}${field}:${quoteQueryValue(value)} `,
+});
 
-TOP PROVINCES BY VALUE:
-${areaBreakdown.slice(0, 10).map(a => `• ${a.area}: ${formatCurrency(a.amount)} (${a.count.toLocaleString()} contracts)`).join('\n')}`;
+// ============================================================================
+// View Link Utilities
+// ============================================================================
 
-    // Add memory context if available
-    if (conversationMemory.summary) {
-      context += `\n\n=== CONVERSATION HISTORY SUMMARY ===\n${conversationMemory.summary}`;
-    }
+const VIEW_LINK_CONFIG = {
+  HASH_LENGTH: 12,                // Hex digits of a dataset's SHA-256 kept in links
+  DEFAULT_TAB: 'insights' as ContentTab,
+};
 
-    if (conversationMemory.keyFacts.length > 0) {
-      context += `\n\n=== KEY FACTS FROM THIS CONVERSATION ===\n${conversationMemory.keyFacts.map(f => `• ${f}`).join('\n')}`;
-    }
+const CONTENT_TABS: ContentTab[] = ['insights', 'contracts', 'quality', 'analysis'];
 
-    if (conversationMemory.userPreferences.length > 0) {
-      context += `\n\n=== USER PREFERENCES ===\n${conversationMemory.userPreferences.map(p => `• ${p}`).join('\n')}`;
-    }
+// Query string keys; a URL with none of them opens the default view
+const VIEW_LINK_PARAMS = [
+  'ds', 'q', 'area', 'place', 'tab', 'row', 'sort', 'min', 'max', 'from', 'to',
+  'cat', 'org', 'awardee', 'status', 'issue', 'flag', 'contract',
+];
 
-    return context;
-  }, [stats, topCategories, areaBreakdown, conversationMemory]);
+type LinkedIssueKind = Exclude<QualityIssue['kind'], 'missing'>;
 
-  // Generate conversation summary using AI
-  const generateConversationSummary = useCallback(async (messages: ChatMessage[]): Promise<string> => {
-    if (!apiKey || messages.length < 4) return '';
+const LINKED_ISSUE_KINDS: LinkedIssueKind[] = [
+  'non_positive_amount', 'unparsed_date', 'date_out_of_range', 'duplicate_reference', 'unusual_status',
+];
 
-    try {
-      const messagesToSummarize = messages.slice(0, -MEMORY_CONFIG.BUFFER_WINDOW_SIZE);
-      if (messagesToSummarize.length < 2) return conversationMemory.summary;
+// `missing:award_date` or the issue kind, as written in links
+const qualityIssueKey = (issue: QualityIssue): string =>
+  issue.kind === 'missing' ? `missing:${issue.field}` : issue.kind;
 
-      const response = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': apiKey,
-          'anthropic-version': '2023-06-01',
-          'anthropic-dangerous-direct-browser-access': 'true',
-        },
-        body: JSON.stringify({
-          model: 'claude-sonnet-4-5-20250929',
-          max_tokens: 300,
-          messages: [{
-            role: 'user',
-            content: `Summarize this conversation about Philippine government procurement in 2-3 sentences. Focus on: topics discussed, any specific provinces/agencies/suppliers mentioned, and key insights shared.
+const parseQualityIssueKey = (key: string | null): QualityIssue | null => {
+  if (!key) return null;
+  const [kind, field] = key.split(':');
+  if (kind === 'missing') {
+    const match = CONTRACT_FIELDS.find((f) => f.name === field);
+    return match ? { kind: 'missing', field: match.name } : null;
+  }
+  const linked = LINKED_ISSUE_KINDS.find((k) => k === kind);
+  return linked ? { kind: linked } : null;
+};
 
-Conversation:
-${messagesToSummarize.map(m => `${m.role}: ${m.content}`).join('\n\n')}
+// Only state that differs from the default view is written, so plain links stay short
+const encodeLinkedView = (view: LinkedView): string => {
+  const params = new URLSearchParams();
+  const set = (key: string, value: string | number | null | undefined) => {
+    if (value !== null && value !== undefined && value !== '') params.set(key, String(value));
+  };
+  const { filters, sort } = view;
+
+  view.datasets.forEach((hash) => params.append('ds', hash.slice(0, VIEW_LINK_CONFIG.HASH_LENGTH)));
+  set('q', view.query.trim());
+  set('area', view.areaCode);
+  set('place', view.areaName);
+  set('min', filters.amountMin);
+  set('max', filters.amountMax);
+  set('from', filters.dateFrom);
+  set('to', filters.dateTo);
+  filters.categories?.forEach((c) => params.append('cat', c));
+  set('org', filters.organization);
+  set('awardee', filters.awardee);
+  filters.statuses?.forEach((s) => params.append('status', s));
+  set('issue', view.issue && qualityIssueKey(view.issue));
+  set('flag', view.flag);
+  if (sort.key !== DEFAULT_CONTRACT_SORT.key || sort.direction !== DEFAULT_CONTRACT_SORT.direction) {
+    set('sort', `${sort.key}.${sort.direction}`);
+  }
+  if (view.tab !== VIEW_LINK_CONFIG.DEFAULT_TAB) set('tab', view.tab);
+  if (view.row > 0) set('row', view.row + 1);
+  set('contract', view.contractId);
 
-Summary:`,
-          }],
-        }),
-      });
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
 
-      if (!response.ok) return conversationMemory.summary;
+// Reads a view back from a query string; values that do not parse are left at
+// their defaults. Null when the URL carries no view state at all.
+const decodeLinkedView = (search: string): LinkedView | null => {
+  const params = new URLSearchParams(search);
+  if (!VIEW_LINK_PARAMS.some((key) => params.has(key))) return null;
 
-      const data = await response.json();
-      return data.content?.[0]?.text || conversationMemory.summary;
-    } catch {
-      return conversationMemory.summary;
-    }
-  }, [apiKey, conversationMemory.summary]);
+  const text = (key: string) => params.get(key)?.trim() || undefined;
+  const amount = (key: string) => {
+    const value = Number(text(key) ?? NaN);
+    return Number.isFinite(value) ? value : undefined;
+  };
+  const isoDate = (key: string) => {
+    const value = text(key);
+    return value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : undefined;
+  };
+  const list = (key: string) => {
+    const values = params.getAll(key).filter((v) => v.trim());
+    return values.length > 0 ? values : undefined;
+  };
 
-  // Chat Handler with Streaming and Memory Management
-  const handleChat = async () => {
-    if (!chatInput.trim() || isLoading) return;
+  const filters: AdvancedFilters = {
+    amountMin: amount('min'),
+    amountMax: amount('max'),
+    dateFrom: isoDate('from'),
+    dateTo: isoDate('to'),
+    categories: list('cat'),
+    organization: text('org'),
+    awardee: text('awardee'),
+    statuses: list('status'),
+  };
+  (Object.keys(filters) as Array<keyof AdvancedFilters>).forEach((key) => {
+    if (filters[key] === undefined) delete filters[key];
+  });
 
-    if (!apiKey) {
-      setShowApiKeyModal(true);
-      return;
-    }
+  const [sortKey, sortDirection] = (params.get('sort') ?? '').split('.');
+  const key = (Object.keys(CONTRACT_SORTS) as ContractSortKey[]).find((k) => k === sortKey);
+  const sort: ContractSort = key && (sortDirection === 'asc' || sortDirection === 'desc')
+    ? { key, direction: sortDirection }
+    : DEFAULT_CONTRACT_SORT;
+  const row = Math.floor(amount('row') ?? 1) - 1;
+
+  return {
+    query: params.get('q') ?? '',
+    areaCode: text('area') ?? null,
+    areaName: text('place') ?? null,
+    tab: CONTENT_TABS.find((t) => t === params.get('tab')) ?? VIEW_LINK_CONFIG.DEFAULT_TAB,
+    row: Math.max(row, 0),
+    sort,
+    filters,
+    issue: parseQualityIssueKey(params.get('issue')),
+    contractId: text('contract') ?? null,
+    flag: text('flag') ?? null,
+    datasets: params.getAll('ds').filter((h) => /^[0-9a-f]+$/i.test(h)).map((h) => h.toLowerCase()),
+  };
+};
 
-    const userMessage: ChatMessage = {
-      id: generateId(),
-      role: 'user',
-      content: chatInput.trim(),
-      timestamp: new Date(),
-    };
+// ============================================================================
+// Contract List Utilities
+// ============================================================================
 
-    // Add user message to memory
-    const updatedMessages = [...conversationMemory.recentMessages, userMessage];
-    setConversationMemory(prev => ({
-      ...prev,
-      recentMessages: updatedMessages,
-    }));
+// The contract list only renders the rows in view. Rows have a fixed height so any
+// position can be computed without measuring, and are fetched in blocks.
+const CONTRACT_LIST_CONFIG = {
+  ROW_HEIGHT: 212,                // Card plus the gap below it, in px
+  ROW_GAP: 16,
+  BLOCK_SIZE: 100,                // Rows per searchContracts query
+  OVERSCAN: 4,                    // Rows rendered beyond each edge of the viewport
+  MAX_CACHED_BLOCKS: 20,          // Blocks furthest from the viewport are dropped beyond this
+  SCROLL_SETTLE_MS: 300,          // The address bar follows the list once scrolling stops
+  MAX_LIST_HEIGHT: 10_000_000,    // Browsers cap element heights (Firefox at about 17.9M px)
+};
 
-    setChatInput('');
-    setIsLoading(true);
-    setStreamingContent('');
+// A list taller than MAX_LIST_HEIGHT gets a shorter spacer, and the spacer's scroll
+// range is mapped proportionally onto the rows: `scale` list pixels per scrolled pixel
+const contractListGeometry = (rows: number, viewport: number): { height: number; scale: number } => {
+  const { ROW_HEIGHT, MAX_LIST_HEIGHT } = CONTRACT_LIST_CONFIG;
+  const full = rows * ROW_HEIGHT;
+  if (full <= MAX_LIST_HEIGHT) return { height: full, scale: 1 };
+  return { height: MAX_LIST_HEIGHT, scale: (full - viewport) / (MAX_LIST_HEIGHT - viewport) };
+};
 
-    try {
-      // Build message history for API (buffer window)
-      const historyMessages = updatedMessages.slice(-MEMORY_CONFIG.BUFFER_WINDOW_SIZE).map(m => ({
-        role: m.role as 'user' | 'assistant',
-        content: m.content,
-      }));
+// Block numbers covering rows [first, last)
+const blocksInRange = (first: number, last: number): number[] => {
+  const blocks: number[] = [];
+  for (let b = Math.floor(first / CONTRACT_LIST_CONFIG.BLOCK_SIZE); b * CONTRACT_LIST_CONFIG.BLOCK_SIZE < last; b++) {
+    blocks.push(b);
+  }
+  return blocks;
+};
 
-      const response = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': apiKey,
-          'anthropic-version': '2023-06-01',
-          'anthropic-dangerous-direct-browser-access': 'true',
-        },
-        body: JSON.stringify({
-          model: 'claude-sonnet-4-5-20250929',
-          max_tokens: 1500,
-          stream: true,
-          system: `You are SpendWatch AI, an expert analyst for Philippine government procurement data from PhilGEPS.
+// ============================================================================
+// Trend Utilities
+// ============================================================================
 
-PERSONALITY & STYLE:
-- Be warm, helpful, and professional
-- Use Filipino expressions naturally (e.g., "Magandang araw", "naman", "po")
-- Provide actionable insights, not just data
-- When appropriate, highlight potential red flags or notable patterns
-- Format responses with markdown for clarity (headers, bullet points, bold for emphasis)
+const TREND_GRANULARITIES: Record<TrendGranularity, string> = {
+  month: 'Monthly',
+  quarter: 'Quarterly',
+  year: 'Yearly',
+};
 
-CAPABILITIES:
-- Analyze spending patterns by province, agency, supplier, or category
-- Identify largest contracts and top suppliers
-- Compare procurement trends across regions
-- Highlight anomalies or unusual patterns
-- Provide context about Philippine government procurement
+const formatTrendPeriod = (period: Date, granularity: TrendGranularity): string => {
+  const year = period.getUTCFullYear();
+  if (granularity === 'year') return String(year);
+  if (granularity === 'quarter') return `Q${Math.floor(period.getUTCMonth() / 3) + 1} ${year}`;
+  return period.toLocaleDateString('en-PH', { year: 'numeric', month: 'short', timeZone: 'UTC' });
+};
 
-${buildDataContext()}
+// Fractional change on the same period a year earlier; null when there is nothing to compare with
+const yearOverYearChange = (current: number, prior: number | undefined): number | null =>
+  prior ? (current - prior) / prior : null;
 
-Remember: Be prescriptive and insightful. Don't just report numbers—explain what they mean and what actions the user might take.`,
-          messages: historyMessages,
-        }),
-      });
+const formatChange = (change: number): string =>
+  `${change >= 0 ? '+' : '−'}${Math.abs(change * 100).toFixed(change !== 0 && Math.abs(change) < 0.1 ? 1 : 0)}%`;
 
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status}`);
-      }
+// ============================================================================
+// Concentration Utilities
+// ============================================================================
 
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error('No response body');
+// HHI bands follow the 2023 US merger guidelines: above 1,800 is highly concentrated.
+// Groups with few contracts score high by chance, so they are left out.
+const CONCENTRATION_CONFIG = {
+  MODERATE_HHI: 1000,
+  HIGH_HHI: 1800,
+  MIN_CONTRACTS: 5,
+  MAX_GROUPS: 50,
+  MAX_SUPPLIERS: 20,              // Rows in a drill-down
+};
 
-      const decoder = new TextDecoder();
-      let fullContent = '';
+const CONCENTRATION_DIMENSIONS: Record<ConcentrationDimension, { label: string; column: string }> = {
+  organization: { label: 'Agencies', column: 'organization_entity' },
+  category: { label: 'Categories', column: 'business_category' },
+};
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
+const concentrationLevel = (hhi: number): { label: string; className: string } => {
+  if (hhi > CONCENTRATION_CONFIG.HIGH_HHI) return { label: 'High', className: 'bg-red-100 text-red-700' };
+  if (hhi >= CONCENTRATION_CONFIG.MODERATE_HHI) return { label: 'Moderate', className: 'bg-amber-100 text-amber-700' };
+  return { label: 'Low', className: 'bg-emerald-100 text-emerald-700' };
+};
 
-        const chunk = decoder.decode(value, { stream: true });
-        const lines = chunk.split('\n');
+// ============================================================================
+// Red Flag Utilities
+// ============================================================================
 
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') continue;
+// Deterministic checks over the contracts matching the current filters. Each rule is
+// SQL over a `filtered` relation returning org, awardee, contracts, amount and
+// row_keys, plus whatever its explanation needs. Parameters are plain numbers from
+// the rules panel and are inlined; user text never reaches these queries.
+const RED_FLAG_CONFIG = {
+  MAX_FLAGS_PER_RULE: 100,
+};
 
-            try {
-              const parsed = JSON.parse(data);
-              if (parsed.type === 'content_block_delta') {
-                const text = parsed.delta?.text || '';
-                fullContent += text;
-                setStreamingContent(fullContent);
-              }
-            } catch {
-              // Skip unparseable lines
-            }
-          }
-        }
-      }
+interface RedFlagRule {
+  label: string;
+  description: string;            // What exactly is matched, shown in the rules panel
+  params: RedFlagRuleParam[];
+  sql: (p: Record<string, number>) => string;
+  toFlag: (row: Record<string, unknown>, p: Record<string, number>) => Omit<RedFlag, 'id' | 'rule' | 'organization' | 'awardee' | 'contracts' | 'amount' | 'rowKeys'>;
+}
 
-      const assistantMessage: ChatMessage = {
-        id: generateId(),
-        role: 'assistant',
-        content: fullContent,
-        timestamp: new Date(),
-      };
+// Values outside min..max are clamped to the nearest bound; min defaults to 0
+interface RedFlagRuleParam {
+  key: string;
+  label: string;
+  defaultValue: number;
+  min?: number;
+  max?: number;
+}
 
-      // Update memory with new message
-      const allMessages = [...updatedMessages, assistantMessage];
+const clampRuleParam = (param: RedFlagRuleParam, value: number): number =>
+  Math.min(Math.max(value, param.min ?? 0), param.max ?? Infinity);
 
-      // Check if we need to summarize older messages
-      let newSummary = conversationMemory.summary;
-      if (allMessages.length > MEMORY_CONFIG.SUMMARIZE_THRESHOLD) {
-        newSummary = await generateConversationSummary(allMessages);
-      }
+const RED_FLAG_SEVERITY_ORDER: Record<RedFlagSeverity, number> = { high: 0, medium: 1, low: 2 };
 
-      // Trim messages if exceeding max stored
-      const trimmedMessages = allMessages.slice(-MEMORY_CONFIG.MAX_STORED_MESSAGES);
+const RED_FLAG_SEVERITY_STYLES: Record<RedFlagSeverity, string> = {
+  high: 'bg-red-100 text-red-700',
+  medium: 'bg-amber-100 text-amber-700',
+  low: 'bg-slate-200 text-slate-600',
+};
 
-      setConversationMemory(prev => ({
-        ...prev,
-        recentMessages: trimmedMessages,
-        summary: newSummary,
-        lastSummarizedAt: allMessages.length > MEMORY_CONFIG.SUMMARIZE_THRESHOLD ? Date.now() : prev.lastSummarizedAt,
-      }));
-
-      setStreamingContent('');
-    } catch (error) {
-      const errorMessage: ChatMessage = {
-        id: generateId(),
-        role: 'assistant',
-        content: `I apologize, but I encountered an error: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`,
-        timestamp: new Date(),
+const RED_FLAG_RULES: Record<RedFlagRuleId, RedFlagRule> = {
+  split_awards: {
+    label: 'Split awards',
+    description: 'One agency awarding one supplier several contracts, each just under a procurement ceiling, '
+      + 'within a few days of each other. The default ceilings are the small-value procurement limits of the '
+      + 'RA 9184 rules (₱1M for national agencies and 1st to 3rd class LGUs, ₱500K for 4th to 6th class LGUs); '
+      + 'set one to 0 to skip it.',
+    params: [
+      { key: 'ceiling', label: 'Ceiling (₱)', defaultValue: 1_000_000 },
+      { key: 'lower_ceiling', label: 'Second ceiling (₱)', defaultValue: 500_000 },
+      { key: 'band_pct', label: 'Within % below ceiling', defaultValue: 10, max: 100 },
+      { key: 'window_days', label: 'Window (days)', defaultValue: 30, min: 1 },
+      { key: 'min_awards', label: 'Minimum awards in window', defaultValue: 3, min: 2 },
+    ],
+    sql: (p) => `
+      WITH ceilings AS (
+        SELECT * FROM (VALUES (${p.ceiling}::DOUBLE), (${p.lower_ceiling}::DOUBLE)) t(ceiling) WHERE ceiling > 0
+      ),
+      near AS (
+        SELECT DISTINCT f.row_key, f.organization_entity as org, f.awardee_entity as awardee, f.award_date, f.contract_amount, c.ceiling
+        FROM filtered f
+        JOIN ceilings c ON f.contract_amount >= c.ceiling * ${1 - p.band_pct / 100} AND f.contract_amount < c.ceiling
+        WHERE f.award_date IS NOT NULL AND NULLIF(f.organization_entity, '') IS NOT NULL AND NULLIF(f.awardee_entity, '') IS NOT NULL
+      ),
+      windows AS (
+        SELECT *, COUNT(*) OVER (
+          PARTITION BY org, awardee, ceiling ORDER BY award_date
+          RANGE BETWEEN INTERVAL ${Math.round(p.window_days)} DAYS PRECEDING AND CURRENT ROW
+        ) as in_window
+        FROM near
+      ),
+      members AS (
+        SELECT *, MAX(in_window) OVER (
+          PARTITION BY org, awardee, ceiling ORDER BY award_date
+          RANGE BETWEEN CURRENT ROW AND INTERVAL ${Math.round(p.window_days)} DAYS FOLLOWING
+        ) as peak
+        FROM windows
+      )
+      SELECT
+        org, awardee, ceiling,
+        COUNT(*) as contracts,
+        SUM(contract_amount) as amount,
+        MAX(peak) as peak,
+        epoch_ms(MIN(award_date)) as first_award,
+        epoch_ms(MAX(award_date)) as last_award,
+        list(row_key ORDER BY award_date) as row_keys
+      FROM members
+      WHERE peak >= ${p.min_awards}
+      GROUP BY org, awardee, ceiling`,
+    toFlag: (row, p) => ({
+      severity: Number(row.peak) >= p.min_awards + 2 ? 'high' : 'medium',
+      title: `${pluralize(Number(row.contracts), 'award')} just under ${formatCurrency(Number(row.ceiling))}`,
+      explanation: `${row.org} awarded ${row.awardee} ${pluralize(Number(row.contracts), 'contract')} worth ${formatCurrency(Number(row.amount))} `
+        + `between ${formatDate(dateFromEpoch(row.first_award))} and ${formatDate(dateFromEpoch(row.last_award))}, each within `
+        + `${p.band_pct}% below the ${formatCurrency(Number(row.ceiling))} ceiling, with up to ${Number(row.peak)} of them `
+        + `within ${p.window_days} days. Splitting a purchase this way keeps each part under the ceiling for competitive bidding.`,
+    }),
+  },
+  year_end_spike: {
+    label: 'Year-end spikes',
+    description: 'An agency whose December awards are several times its monthly average for the rest of the year, '
+      + 'a sign of rushing to use up the budget. Months without awards count as zero.',
+    params: [
+      { key: 'ratio', label: 'Times the monthly average', defaultValue: 3 },
+      { key: 'min_contracts', label: 'Minimum contracts in the year', defaultValue: 10, min: 1 },
+    ],
+    sql: (p) => `
+      WITH dated AS (
+        SELECT row_key, organization_entity as org, YEAR(award_date) as year, MONTH(award_date) = 12 as december, contract_amount
+        FROM filtered
+        WHERE award_date IS NOT NULL AND contract_amount > 0 AND NULLIF(organization_entity, '') IS NOT NULL
+      ),
+      years AS (
+        SELECT
+          org, year,
+          COUNT(*) as year_contracts,
+          SUM(contract_amount) as year_amount,
+          COUNT(*) FILTER (WHERE december) as contracts,
+          COALESCE(SUM(contract_amount) FILTER (WHERE december), 0) as amount,
+          list(row_key) FILTER (WHERE december) as row_keys
+        FROM dated
+        GROUP BY org, year
+      )
+      SELECT
+        org, NULL as awardee, year, year_contracts, contracts, amount, row_keys,
+        amount / NULLIF((year_amount - amount) / 11, 0) as ratio
+      FROM years
+      WHERE year_contracts >= ${p.min_contracts} AND contracts > 0
+        AND amount >= ${p.ratio} * (year_amount - amount) / 11`,
+    toFlag: (row, p) => {
+      const ratio = row.ratio === null ? null : Number(row.ratio);
+      return {
+        severity: ratio === null || ratio >= p.ratio * 2 ? 'high' : 'medium',
+        title: `December ${row.year} spike`,
+        explanation: `${row.org} awarded ${formatCurrency(Number(row.amount))} in ${pluralize(Number(row.contracts), 'contract')} `
+          + `in December ${row.year}, `
+          + (ratio === null
+            ? `all of its ${pluralize(Number(row.year_contracts), 'award')} that year.`
+            : `${ratio.toFixed(1)} times its monthly average for the rest of the year.`),
       };
-      setConversationMemory(prev => ({
-        ...prev,
-        recentMessages: [...prev.recentMessages, errorMessage],
-      }));
-    } finally {
-      setIsLoading(false);
-      setStreamingContent('');
-    }
-  };
+    },
+  },
+  round_amounts: {
+    label: 'Round amounts',
+    description: 'An agency with many awards at exact round amounts, which suggests prices set to the budget '
+      + 'rather than quoted by the supplier.',
+    params: [
+      { key: 'unit', label: 'Multiple of (₱)', defaultValue: 100_000, min: 1 },
+      { key: 'min_amount', label: 'Minimum amount (₱)', defaultValue: 500_000 },
+      { key: 'min_count', label: 'Minimum round awards', defaultValue: 3, min: 1 },
+      { key: 'min_share_pct', label: 'Minimum % of its awards', defaultValue: 20, max: 100 },
+    ],
+    sql: (p) => `
+      SELECT org, NULL as awardee, agency_contracts, contracts, amount, row_keys
+      FROM (
+        SELECT
+          organization_entity as org,
+          COUNT(*) as agency_contracts,
+          COUNT(*) FILTER (WHERE is_round) as contracts,
+          COALESCE(SUM(contract_amount) FILTER (WHERE is_round), 0) as amount,
+          list(row_key) FILTER (WHERE is_round) as row_keys
+        FROM (
+          SELECT *, contract_amount >= ${p.min_amount} AND contract_amount % ${Math.max(1, p.unit)} = 0 as is_round
+          FROM filtered
+        )
+        WHERE contract_amount > 0 AND NULLIF(organization_entity, '') IS NOT NULL
+        GROUP BY 1
+      )
+      WHERE contracts >= ${p.min_count} AND contracts >= ${p.min_share_pct / 100} * agency_contracts`,
+    toFlag: (row, p) => {
+      const share = Number(row.contracts) / Number(row.agency_contracts);
+      return {
+        severity: share * 100 >= p.min_share_pct * 2 ? 'medium' : 'low',
+        title: `${pluralize(Number(row.contracts), 'round-amount award')}`,
+        explanation: `${Number(row.contracts)} of ${row.org}'s ${Number(row.agency_contracts)} awards (${(share * 100).toFixed(0)}%) `
+          + `are exact multiples of ${formatCurrency(p.unit, false)} of at least ${formatCurrency(p.min_amount)}, `
+          + `worth ${formatCurrency(Number(row.amount))} in total.`,
+      };
+    },
+  },
+  repeated_titles: {
+    label: 'Repeated titles',
+    description: 'An agency awarding contracts with the same title (ignoring case and spacing) again and again. '
+      + 'Rated high when every one of them went to the same supplier.',
+    params: [
+      { key: 'min_repeats', label: 'Minimum awards with the title', defaultValue: 3, min: 2 },
+    ],
+    sql: (p) => `
+      SELECT org, CASE WHEN suppliers = 1 THEN awardee END as awardee, title, suppliers, contracts, amount,
+        first_award, last_award, row_keys
+      FROM (
+        SELECT
+          organization_entity as org,
+          regexp_replace(lower(trim(award_title)), '\\s+', ' ', 'g') as title_key,
+          mode(award_title) as title,
+          COUNT(DISTINCT awardee_entity) as suppliers,
+          any_value(awardee_entity) as awardee,
+          COUNT(*) as contracts,
+          COALESCE(SUM(contract_amount), 0) as amount,
+          epoch_ms(MIN(award_date)) as first_award,
+          epoch_ms(MAX(award_date)) as last_award,
+          list(row_key ORDER BY award_date) as row_keys
+        FROM filtered
+        WHERE NULLIF(trim(award_title), '') IS NOT NULL AND NULLIF(organization_entity, '') IS NOT NULL
+        GROUP BY 1, 2
+      )
+      WHERE contracts >= ${p.min_repeats}`,
+    toFlag: (row, p) => {
+      const suppliers = Number(row.suppliers);
+      return {
+        severity: suppliers === 1 ? 'high' : Number(row.contracts) >= p.min_repeats * 2 ? 'medium' : 'low',
+        title: `"${row.title}" awarded ${Number(row.contracts)} times`,
+        explanation: `${row.org} awarded ${Number(row.contracts)} contracts titled "${row.title}" worth `
+          + `${formatCurrency(Number(row.amount))}, between ${formatDate(dateFromEpoch(row.first_award))} and `
+          + `${formatDate(dateFromEpoch(row.last_award))}, `
+          + (suppliers === 1 ? `all to ${row.awardee}.` : `to ${suppliers} different suppliers.`),
+      };
+    },
+  },
+};
 
-  const clearChat = () => {
-    setConversationMemory({
-      ...DEFAULT_MEMORY,
-      recentMessages: [{
-        id: generateId(),
-        role: 'assistant',
-        content: 'Conversation cleared. I\'m ready to help you explore Philippine government procurement data again! Ask me anything.',
-        timestamp: new Date(),
-      }],
-    });
-  };
+const RED_FLAG_RULE_IDS = Object.keys(RED_FLAG_RULES) as RedFlagRuleId[];
+
+// Stored settings over the defaults, so rules and parameters added later still get a value
+// The contract list filter for the contracts behind a flag
+const redFlagFilter = (flag: RedFlag) => ({
+  id: flag.id,
+  label: `${RED_FLAG_RULES[flag.rule].label}: ${flag.title}`,
+  rowKeys: flag.rowKeys,
+});
+
+const loadRedFlagSettings = (stored: Partial<RedFlagSettings> | null): RedFlagSettings =>
+  Object.fromEntries(RED_FLAG_RULE_IDS.map((id) => [id, {
+    enabled: stored?.[id]?.enabled ?? true,
+    params: Object.fromEntries(RED_FLAG_RULES[id].params.map((param) => {
+      const value = stored?.[id]?.params?.[param.key];
+      return [param.key, typeof value === 'number' && Number.isFinite(value) ? clampRuleParam(param, value) : param.defaultValue];
+    })),
+  }])) as RedFlagSettings;
 
-  // News Search Handler
-  const openNewsSearch = (contract: Contract) => {
-    const query = `${contract.awardee} Philippines government procurement`;
-    setNewsQuery(query);
-    setSelectedContract(contract);
-    setShowNewsPanel(true);
-  };
+// ============================================================================
+// Benford Utilities
+// ============================================================================
 
-  const searchDuckDuckGo = () => {
-    window.open(`https://duckduckgo.com/?q=${encodeURIComponent(newsQuery)}&ia=news`, '_blank');
-  };
+// Amounts below ₱10 have no second digit and are left out. Conformity bands for the
+// mean absolute deviation are Nigrini's; chi-square critical values are at the 5% level
+// with 8 and 89 degrees of freedom.
+const BENFORD_CONFIG = {
+  MIN_AMOUNT: 10,
+  MIN_ENTITY_SAMPLE: { 1: 50, 2: 300 } as Record<BenfordDigits, number>,
+  MAX_DEVIATIONS: 25,
+  MAD_BANDS: {
+    1: [0.006, 0.012, 0.015],
+    2: [0.0012, 0.0018, 0.0022],
+  } as Record<BenfordDigits, number[]>,
+  CHI_SQUARE_CRITICAL: { 1: 15.507, 2: 112.022 } as Record<BenfordDigits, number>,
+};
 
-  const searchGoogleNews = () => {
-    window.open(`https://news.google.com/search?q=${encodeURIComponent(newsQuery)}`, '_blank');
-  };
+const BENFORD_DIMENSIONS: Record<BenfordDimension, { label: string; column: string }> = {
+  organization: { label: 'Agencies', column: 'organization_entity' },
+  awardee: { label: 'Suppliers', column: 'awardee_entity' },
+  category: { label: 'Categories', column: 'business_category' },
+};
 
-  // Quick Questions
-  const quickQuestions = [
-    'What are the largest contracts?',
-    'Show COVID-related spending',
-    'Who are the top suppliers?',
-    'Analyze construction trends',
-    'Any suspicious patterns?',
-    'Compare spending by region',
-  ];
+// Leading digits of the whole-peso amount, read off its scientific notation to avoid
+// log10 rounding. Unlike an integer cast this holds for amounts of any size.
+const leadingDigitsSql = (digits: BenfordDigits): string =>
+  `CAST(replace(left(printf('%.14e', floor(contract_amount)), ${digits + 1}), '.', '') AS INTEGER)`;
 
-  // Open chat modal handler
-  const openChatModal = () => {
-    if (!apiKey) {
-      setShowApiKeyModal(true);
-    } else {
-      setShowChatModal(true);
-    }
-  };
+const benfordDigitRange = (digits: BenfordDigits): [number, number] => (digits === 1 ? [1, 9] : [10, 99]);
 
-  // ============================================================================
-  // Render
-  // ============================================================================
+const benfordExpected = (digit: number): number => Math.log10(1 + 1 / digit);
 
-  return (
-    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 font-sans text-slate-800">
-      {/* Inline Styles */}
-      <style>{`
-        @import url('https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700;800&display=swap');
+const benfordConformity = (mad: number, digits: BenfordDigits): { label: string; className: string } => {
+  const [close, acceptable, marginal] = BENFORD_CONFIG.MAD_BANDS[digits];
+  if (mad <= close) return { label: 'Close conformity', className: 'bg-emerald-100 text-emerald-700' };
+  if (mad <= acceptable) return { label: 'Acceptable conformity', className: 'bg-sky-100 text-sky-700' };
+  if (mad <= marginal) return { label: 'Marginal conformity', className: 'bg-amber-100 text-amber-700' };
+  return { label: 'Nonconformity', className: 'bg-red-100 text-red-700' };
+};
 
-        * { margin: 0; padding: 0; box-sizing: border-box; }
+// ============================================================================
+// SQL Console Utilities
+// ============================================================================
 
-        body { font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; }
+const SQL_CONSOLE_CONFIG = {
+  MAX_ROWS: 1000,                 // Rows shown in the grid
+  MAX_EXPORT_ROWS: 250_000,       // Rows in a CSV export, which is built in memory
+  MAX_HISTORY: 30,
+  DEFAULT_QUERY: `SELECT business_category, COUNT(*) AS contracts, SUM(contract_amount) AS total
+FROM contracts
+GROUP BY business_category
+ORDER BY total DESC
+LIMIT 20`,
+};
 
-        .scrollbar-thin::-webkit-scrollbar { width: 6px; }
-        .scrollbar-thin::-webkit-scrollbar-track { background: transparent; }
-        .scrollbar-thin::-webkit-scrollbar-thumb { background: #e2e8f0; border-radius: 3px; }
-        .scrollbar-thin::-webkit-scrollbar-thumb:hover { background: #cbd5e1; }
+const SQL_KEYWORDS = new Set([
+  'SELECT', 'FROM', 'WHERE', 'GROUP', 'BY', 'ORDER', 'HAVING', 'LIMIT', 'OFFSET', 'AS', 'AND', 'OR',
+  'NOT', 'IN', 'IS', 'NULL', 'LIKE', 'ILIKE', 'BETWEEN', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'JOIN',
+  'LEFT', 'RIGHT', 'INNER', 'OUTER', 'FULL', 'CROSS', 'ON', 'USING', 'WITH', 'UNION', 'ALL', 'DISTINCT',
+  'ASC', 'DESC', 'NULLS', 'FIRST', 'LAST', 'OVER', 'PARTITION', 'QUALIFY', 'EXCEPT', 'INTERSECT',
+  'TRUE', 'FALSE', 'CAST', 'TRY_CAST', 'EXISTS', 'ANY', 'WINDOW', 'FILTER', 'INTERVAL', 'DATE',
+]);
+
+// Comments, strings, quoted identifiers, numbers and words, in that order of precedence
+const SQL_TOKEN_PATTERN = /(--[^\n]*|\/\*[\s\S]*?(?:\*\/|$))|('(?:[^']|'')*'?)|("(?:[^"]|"")*"?)|(\b\d+(?:\.\d+)?\b)|([A-Za-z_][A-Za-z0-9_]*)/g;
+
+const highlightSql = (sql: string): ReactNode[] => {
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  for (const match of sql.matchAll(SQL_TOKEN_PATTERN)) {
+    const [text, comment, string, , number, word] = match;
+    const className = comment
+      ? 'text-slate-400 italic'
+      : string
+        ? 'text-emerald-600'
+        : number
+          ? 'text-amber-600'
+          : word && SQL_KEYWORDS.has(word.toUpperCase())
+            ? 'text-blue-600 font-semibold'
+            : null;
+    if (!className) continue;
+    if (match.index! > cursor) parts.push(sql.slice(cursor, match.index));
+    parts.push(<span key={match.index} className={className}>{text}</span>);
+    cursor = match.index! + text.length;
+  }
+  parts.push(sql.slice(cursor));
+  return parts;
+};
 
-        @keyframes shimmer {
-          0% { background-position: -200% 0; }
-          100% { background-position: 200% 0; }
-        }
+// Arrow hands DATE and TIMESTAMP columns over as epoch milliseconds
+const formatConsoleValue = (value: unknown, type: string): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number' && /^(Date|Timestamp)/.test(type)) {
+    const iso = new Date(value).toISOString();
+    return type.startsWith('Date') ? iso.slice(0, 10) : iso.replace('T', ' ').replace(/\.000Z$|Z$/, '');
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') {
+    const plain = (value as { toJSON?: () => unknown }).toJSON?.() ?? value;
+    return JSON.stringify(plain, (_, v) => (typeof v === 'bigint' ? v.toString() : v));
+  }
+  return String(value);
+};
 
-        .animate-shimmer {
-          background: linear-gradient(90deg, transparent, rgba(255,255,255,0.2), transparent);
-          background-size: 200% 100%;
-          animation: shimmer 1.5s infinite;
-        }
-      `}</style>
+// ============================================================================
+// DuckDB-WASM Service
+// ============================================================================
 
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {/* ================================================================== */}
-        {/* Hero Section */}
-        {/* ================================================================== */}
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          className="relative bg-gradient-to-br from-blue-900 via-blue-700 to-blue-800 rounded-3xl p-8 lg:p-10 mb-8 overflow-hidden shadow-2xl shadow-blue-900/30"
-        >
-          {/* Background Decoration */}
-          <div className="absolute inset-0 overflow-hidden">
-            <div className="absolute -top-1/2 -right-1/4 w-3/4 h-full bg-gradient-to-br from-white/10 to-transparent rounded-full blur-3xl" />
-            <div className="absolute bottom-0 left-0 w-1/2 h-1/2 bg-gradient-to-tr from-blue-500/20 to-transparent rounded-full blur-2xl" />
-          </div>
+class DuckDBService {
+  private db: duckdb.AsyncDuckDB | null = null;
+  private conn: duckdb.AsyncDuckDBConnection | null = null;
+  private initialized = false;
+  private schemaReport: SchemaReport | null = null;
+  private datasets: DatasetEntry[] = [];
+  private activeDatasetIds: string[] = [];
+  private nextDatasetNumber = 1;
+  private entityMatches: EntityMatch[] = [];
+  private areaReferenceLoaded = false;
+  private fullTextReady = false;
+  private stopwords = new Set<string>();   // The full-text index's, lowercase
+  private cacheQueue: Promise<unknown> = Promise.resolve();
 
-          <div className="relative z-10">
-            {/* Badge */}
-            <div className="inline-flex items-center gap-2 bg-white/15 backdrop-blur-md px-4 py-2 rounded-full text-sm font-semibold text-white/90 mb-6">
-              <span className="text-base">🇵🇭</span>
-              Open Government Data Initiative
-            </div>
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
 
-            {/* Title */}
-            <h1 className="text-3xl lg:text-4xl font-extrabold text-white mb-2 tracking-tight">
-              SpendWatch PH
-            </h1>
-            <p className="text-blue-100/80 text-lg mb-8 max-w-xl">
-              Explore Philippine government procurement data with transparency and AI-powered insights
-            </p>
+    const JSDELIVR_BUNDLES = duckdb.getJsDelivrBundles();
+    const bundle = await duckdb.selectBundle(JSDELIVR_BUNDLES);
 
-            {/* Stats Grid */}
-            {stats ? (
-              <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
-                {[
-                  { icon: Banknote, value: formatCurrency(stats.totalValue), label: 'Total Contract Value' },
-                  { icon: FileText, value: stats.totalContracts.toLocaleString(), label: 'Awarded Contracts' },
-                  { icon: Building2, value: stats.uniqueOrgs.toLocaleString(), label: 'Procuring Entities' },
-                  { icon: Users, value: stats.uniqueAwardees.toLocaleString(), label: 'Registered Suppliers' },
-                ].map((stat, i) => (
-                  <motion.div
-                    key={i}
-                    initial={{ opacity: 0, y: 20 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    transition={{ delay: i * 0.1 }}
-                    className="bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl p-5 hover:bg-white/15 transition-all duration-300 group"
-                  >
-                    <stat.icon className="w-5 h-5 text-blue-200 mb-3 group-hover:scale-110 transition-transform" />
-                    <div className="text-2xl lg:text-3xl font-bold text-white mb-1">{stat.value}</div>
-                    <div className="text-sm text-blue-200/80">{stat.label}</div>
-                  </motion.div>
-                ))}
-              </div>
-            ) : (
-              <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
-                {[1, 2, 3, 4].map((i) => (
-                  <div key={i} className="bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl p-5">
-                    <div className="w-5 h-5 bg-white/20 rounded mb-3 animate-pulse" />
-                    <div className="h-8 bg-white/20 rounded mb-2 animate-pulse" />
-                    <div className="h-4 w-24 bg-white/20 rounded animate-pulse" />
-                  </div>
-                ))}
-              </div>
-            )}
+    const worker_url = URL.createObjectURL(
+      new Blob([`importScripts("${bundle.mainWorker!}");`], { type: 'text/javascript' })
+    );
 
-            {/* API Key & Data Status */}
-            <div className="mt-6 flex flex-wrap items-center gap-3">
-              {dataLoaded ? (
-                <div className="flex items-center gap-2 bg-emerald-500/20 border border-emerald-400/30 px-3 py-1.5 rounded-full">
-                  <Database size={14} className="text-emerald-300" />
-                  <span className="text-sm text-emerald-200">
-                    {stats?.totalContracts.toLocaleString()} contracts loaded
-                  </span>
-                </div>
-              ) : isDataLoading ? (
-                <div className="flex items-center gap-2 bg-blue-500/20 border border-blue-400/30 px-3 py-1.5 rounded-full">
-                  <Loader2 size={14} className="text-blue-300 animate-spin" />
-                  <span className="text-sm text-blue-200">Loading data...</span>
-                </div>
-              ) : (
-                <div className="flex items-center gap-2 bg-amber-500/20 border border-amber-400/30 px-3 py-1.5 rounded-full">
-                  <AlertCircle size={14} className="text-amber-300" />
-                  <span className="text-sm text-amber-200">Preparing data</span>
-                </div>
-              )}
+    const worker = new Worker(worker_url);
+    const logger = new duckdb.ConsoleLogger(duckdb.LogLevel.WARNING);
 
-              {apiKey ? (
-                <div className="flex items-center gap-2 bg-emerald-500/20 border border-emerald-400/30 px-3 py-1.5 rounded-full">
-                  <CheckCircle size={14} className="text-emerald-300" />
-                  <span className="text-sm text-emerald-200">AI Connected</span>
-                  <button
-                    onClick={handleClearApiKey}
-                    className="ml-2 text-emerald-300 hover:text-white transition-colors"
-                  >
-                    <X size={14} />
-                  </button>
-                </div>
-              ) : (
-                <button
-                  onClick={() => setShowApiKeyModal(true)}
-                  className="flex items-center gap-2 bg-white/10 hover:bg-white/20 border border-white/20 px-4 py-2 rounded-full text-sm text-white font-medium transition-all"
-                >
-                  <Key size={14} />
-                  Connect Claude AI
-                </button>
-              )}
+    this.db = new duckdb.AsyncDuckDB(logger, worker);
+    await this.db.instantiate(bundle.mainModule, bundle.pthreadWorker);
+    URL.revokeObjectURL(worker_url);
 
-              {/* Upload Custom Data Button */}
-              <input
-                type="file"
-                ref={fileInputRef}
-                onChange={handleFileUpload}
-                accept=".parquet"
-                className="hidden"
-              />
-              <button
-                onClick={() => fileInputRef.current?.click()}
-                disabled={isDataLoading}
-                className="flex items-center gap-2 bg-white/10 hover:bg-white/20 border border-white/20 px-3 py-1.5 rounded-full text-sm text-white/80 hover:text-white transition-all disabled:opacity-50"
-                title="Upload your own PhilGEPS parquet file"
-              >
-                <Upload size={14} />
-                <span className="hidden sm:inline">Load Data</span>
-              </button>
-            </div>
-          </div>
-        </motion.div>
+    this.conn = await this.db.connect();
+    this.initialized = true;
+  }
 
-        {/* ================================================================== */}
-        {/* Data Loading Indicator */}
-        {/* ================================================================== */}
-        {!dataLoaded && (
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            className="bg-white rounded-3xl p-8 shadow-sm border border-slate-200 mb-8"
-          >
-            <div className="text-center max-w-xl mx-auto">
-              <div className="w-16 h-16 bg-gradient-to-br from-blue-500 to-blue-600 rounded-2xl flex items-center justify-center mx-auto mb-6 shadow-lg shadow-blue-500/30">
-                <Database className="w-8 h-8 text-white" />
-              </div>
+  async loadParquetFromFile(file: File, options: LoadOptions = {}): Promise<DatasetEntry> {
+    if (!this.db || !this.conn) await this.initialize();
+
+    // Read straight from the file handle so the file never has to sit in the JS heap
+    await this.registerSource('data.parquet', file);
+
+    return this.loadParquet('data.parquet', file.name, options);
+  }
+
+  async loadParquetFromUrl(url: string, options: LoadOptions = {}): Promise<DatasetEntry> {
+    if (!this.db || !this.conn) await this.initialize();
+
+    // Fetch the file and register it
+    const response = await fetch(url);
+    const arrayBuffer = await response.arrayBuffer();
+    const uint8Array = new Uint8Array(arrayBuffer);
+
+    return this.loadParquetFromBuffer(uint8Array, options, url.split('/').pop() || url);
+  }
+
+  async loadParquetFromBuffer(
+    buffer: Uint8Array,
+    options: LoadOptions = {},
+    fileName = 'data.parquet'
+  ): Promise<DatasetEntry> {
+    if (!this.db || !this.conn) await this.initialize();
+
+    await this.registerSource('data.parquet', buffer);
+
+    return this.loadParquet('data.parquet', fileName, options);
+  }
+
+  async loadCsvFromFile(file: File, csvOptions: CsvImportOptions, options: LoadOptions = {}): Promise<DatasetEntry> {
+    if (!this.db || !this.conn) await this.initialize();
+
+    // DuckDB's CSV reader only understands UTF-8; other encodings are transcoded first
+    if (csvOptions.encoding !== 'utf-8') {
+      const transcoded = await this.transcodeCsv(file, csvOptions.encoding, options);
+      if (transcoded) {
+        try {
+          await this.registerSource('data.csv', transcoded);
+          return await this.loadCsv('data.csv', file.name, csvOptions, options);
+        } finally {
+          // The OPFS copy cannot be removed while DuckDB holds it open
+          await this.db!.dropFile('data.csv').catch(() => null);
+          await this.removeTranscodedCsv();
+        }
+      }
+      if (file.size > CSV_CONFIG.MAX_IN_MEMORY_TRANSCODE_BYTES) {
+        throw new Error(
+          `${file.name} is encoded as ${csvOptions.encoding} and is too large to convert in this browser. ` +
+          'Please save it as UTF-8 and upload it again.'
+        );
+      }
+      options.onProgress?.({ message: `Converting ${file.name} from ${csvOptions.encoding}...`, fraction: null });
+      return this.loadCsvFromBuffer(new Uint8Array(await file.arrayBuffer()), csvOptions, options, file.name);
+    }
+
+    await this.registerSource('data.csv', file);
+
+    return this.loadCsv('data.csv', file.name, csvOptions, options);
+  }
+
+  async loadCsvFromBuffer(
+    buffer: Uint8Array,
+    csvOptions: CsvImportOptions,
+    options: LoadOptions = {},
+    fileName = 'data.csv'
+  ): Promise<DatasetEntry> {
+    if (!this.db || !this.conn) await this.initialize();
+
+    const utf8 = csvOptions.encoding === 'utf-8'
+      ? buffer
+      : new TextEncoder().encode(new TextDecoder(csvOptions.encoding).decode(buffer));
+
+    await this.registerSource('data.csv', utf8);
+
+    return this.loadCsv('data.csv', fileName, csvOptions, options);
+  }
+
+  // Streams a CSV through the text decoder into a UTF-8 copy in OPFS, so only a chunk
+  // at a time is in memory. Null where the browser cannot write to OPFS.
+  private async transcodeCsv(
+    file: File,
+    encoding: CsvEncoding,
+    { onProgress, signal }: LoadOptions
+  ): Promise<FileSystemFileHandle | null> {
+    const directory = await this.getCacheDirectory();
+    const handle = await directory?.getFileHandle(CSV_CONFIG.TRANSCODE_FILE, { create: true }).catch(() => null);
+    if (!handle || !('createWritable' in handle)) return null;
+
+    const message = `Converting ${file.name} from ${encoding}...`;
+    let converted = 0;
+    const progress = new TransformStream<Uint8Array<ArrayBuffer>, Uint8Array<ArrayBuffer>>({
+      transform(chunk, controller) {
+        converted += chunk.byteLength;
+        onProgress?.({ message, fraction: file.size > 0 ? converted / file.size : null });
+        controller.enqueue(chunk);
+      },
+    });
+
+    try {
+      await file.stream()
+        .pipeThrough(progress)
+        .pipeThrough(new TextDecoderStream(encoding))
+        .pipeThrough(new TextEncoderStream())
+        .pipeTo(await handle.createWritable(), { signal });
+    } catch (error) {
+      await this.removeTranscodedCsv();
+      if (signal?.aborted) throw new LoadCancelledError();
+      throw error;
+    }
+    return handle;
+  }
+
+  private async removeTranscodedCsv(): Promise<void> {
+    const directory = await this.getCacheDirectory();
+    await directory?.removeEntry(CSV_CONFIG.TRANSCODE_FILE).catch(() => undefined);
+  }
+
+  private async registerSource(name: string, source: File | Uint8Array | FileSystemFileHandle): Promise<void> {
+    // Release whatever the previous load registered under this name
+    await this.db!.dropFile(name).catch(() => null);
+
+    if (source instanceof Uint8Array) {
+      await this.db!.registerFileBuffer(name, source);
+    } else if (source instanceof FileSystemFileHandle) {
+      await this.db!.registerFileHandle(name, source, duckdb.DuckDBDataProtocol.BROWSER_FSACCESS, true);
+    } else {
+      await this.db!.registerFileHandle(name, source, duckdb.DuckDBDataProtocol.BROWSER_FILEREADER, true);
+    }
+  }
+
+  private async loadParquet(registeredName: string, fileName: string, options: LoadOptions): Promise<DatasetEntry> {
+    try {
+      // Insert row group by row group so progress is real and a cancel takes effect quickly.
+      // DuckDB prunes row groups on a file_row_number range (checked on v1.3.2, the
+      // engine in duckdb-wasm 1.30), so each batch reads only its own row group.
+      const metadata = await this.conn!.query(`
+        SELECT row_group_id, MAX(row_group_num_rows) as num_rows
+        FROM parquet_metadata('${registeredName}')
+        GROUP BY row_group_id
+        ORDER BY row_group_id
+      `);
+      const batches: TableSource['batches'] = [];
+      let start = 0;
+      for (const row of metadata.toArray()) {
+        const rows = Number(row.num_rows);
+        batches.push({
+          from: `(
+            SELECT * EXCLUDE (file_row_number)
+            FROM read_parquet('${registeredName}', file_row_number = true)
+            WHERE file_row_number >= ${start} AND file_row_number < ${start + rows}
+          )`,
+          rows,
+        });
+        start += rows;
+      }
+
+      return await this.createDataset(
+        { from: `read_parquet('${registeredName}')`, batches },
+        undefined,
+        fileName,
+        options
+      );
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      if (errorMsg.toLowerCase().includes('snappy')) {
+        throw new Error(
+          'This parquet file uses Snappy compression, which is not supported in browsers. ' +
+          'Please re-export your file with no compression: df.to_parquet("file.parquet", compression=None)'
+        );
+      }
+      if (errorMsg.toLowerCase().includes('gzip')) {
+        throw new Error(
+          'This parquet file uses GZIP compression, which is not supported by DuckDB-WASM. ' +
+          'Please re-export your file with no compression: df.to_parquet("file.parquet", compression=None)'
+        );
+      }
+      throw error;
+    }
+  }
+
+  private async loadCsv(
+    registeredName: string,
+    fileName: string,
+    csvOptions: CsvImportOptions,
+    options: LoadOptions
+  ): Promise<DatasetEntry> {
+    const delimiter = csvOptions.delimiter.replace(/'/g, "''");
+
+    try {
+      return await this.createDataset(
+        {
+          from: `read_csv('${registeredName}',
+            delim = '${delimiter}',
+            header = true,
+            skip = ${Math.max(0, Math.floor(csvOptions.headerRow))},
+            all_varchar = true,
+            null_padding = true
+          )`,
+        },
+        csvOptions.mapping,
+        fileName,
+        options
+      );
+    } catch (error) {
+      if (error instanceof SchemaValidationError || error instanceof LoadCancelledError) throw error;
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      throw new Error(`Could not read the CSV file with the selected settings: ${errorMsg}`);
+    }
+  }
+
+  // Validates the source against the canonical schema, then materializes it as a
+  // new dataset table and activates it. Without an explicit mapping, columns are
+  // matched by name and alias. Rows are written to a staging table first so a
+  // failed or cancelled load leaves the current view untouched.
+  private async createDataset(
+    source: TableSource,
+    mapping: ColumnMapping | undefined,
+    fileName: string,
+    { onProgress, signal, append }: LoadOptions
+  ): Promise<DatasetEntry> {
+    const described = await this.conn!.query(`DESCRIBE SELECT * FROM ${source.from}`);
+    const columns: SourceColumn[] = described.toArray().map((row) => ({
+      name: String(row.column_name),
+      type: String(row.column_type),
+    }));
+
+    const resolved = mapping ?? suggestColumnMapping(columns.map((c) => c.name));
+    // CSV columns are all read as text, so only typed sources get a type check
+    const report = buildSchemaReport(columns, resolved, !mapping);
+    if (report.missing.some((m) => m.required)) {
+      throw new SchemaValidationError(report, columns);
+    }
+
+    const types = new Map(columns.map((c) => [c.name, c.type]));
+
+    for (const mismatch of report.typeMismatches) {
+      if (mismatch.expected !== 'number') continue;
+      const column = quoteIdentifier(mismatch.source);
+      const result = await this.conn!.query(`
+        SELECT COUNT(*) as cnt FROM ${source.from}
+        WHERE ${column} IS NOT NULL AND ${numberFromText(column)} IS NULL
+      `);
+      mismatch.unconverted = Number(result.toArray()[0]?.cnt ?? 0);
+    }
+
+    const select = buildMappedSelect(resolved, types);
+    const batches = source.batches?.length ? source.batches : [{ from: source.from, rows: 0 }];
+    const totalRows = batches.reduce((sum, b) => sum + b.rows, 0);
+
+    try {
+      await this.conn!.query(`
+        CREATE OR REPLACE TABLE contracts_staging AS
+        SELECT
+          ${select}
+        FROM ${source.from}
+        LIMIT 0
+      `);
+
+      let loadedRows = 0;
+      for (const [index, batch] of batches.entries()) {
+        onProgress?.({
+          message: batches.length > 1
+            ? `Reading row group ${index + 1} of ${batches.length}...`
+            : 'Reading rows...',
+          fraction: totalRows > 0 ? loadedRows / totalRows : null,
+        });
+        await this.runCancellable(`INSERT INTO contracts_staging SELECT ${select} FROM ${batch.from}`, signal);
+        loadedRows += batch.rows;
+      }
+      onProgress?.({ message: 'Finalizing table...', fraction: totalRows > 0 ? 1 : null });
+    } catch (error) {
+      await this.conn!.query('DROP TABLE IF EXISTS contracts_staging');
+      throw error;
+    }
+
+    const id = `dataset_${this.nextDatasetNumber++}`;
+    await this.conn!.query(`ALTER TABLE contracts_staging RENAME TO ${id}`);
+
+    const countResult = await this.conn!.query(`
+      SELECT
+        COUNT(*) as cnt,
+        COUNT(*) FILTER (WHERE ${qualityIssuePredicate({ kind: 'unparsed_date' })}) as unparsed_dates
+      FROM ${id}
+    `);
+    const counts = countResult.toArray()[0];
+    report.unparsedDates = Number(counts?.unparsed_dates ?? 0);
+
+    const entry: DatasetEntry = {
+      id,
+      fileName,
+      rowCount: Number(counts?.cnt ?? 0),
+      loadedAt: Date.now(),
+      schemaReport: report,
+    };
+    this.datasets.push(entry);
+
+    await this.activateDatasets(append ? [...this.activeDatasetIds, id] : [id]);
+    return entry;
+  }
+
+  // --------------------------------------------------------------------------
+  // Dataset catalog. Every load becomes its own `dataset_N` table; `contracts`
+  // is a view over the active dataset, or over a de-duplicated union when
+  // several are combined.
+  // --------------------------------------------------------------------------
+
+  listDatasets(): DatasetEntry[] {
+    return [...this.datasets];
+  }
+
+  getActiveDatasets(): DatasetEntry[] {
+    return this.datasets.filter((d) => this.activeDatasetIds.includes(d.id));
+  }
+
+  async activateDatasets(ids: string[]): Promise<number> {
+    if (!this.conn) throw new Error('Not connected');
+
+    // Keep catalog order so the newest file wins when duplicates are dropped
+    const selected = this.datasets.filter((d) => ids.includes(d.id));
+    if (selected.length === 0) throw new Error('Select at least one dataset.');
+
+    if (selected.length === 1) {
+      await this.conn.query(`CREATE OR REPLACE VIEW contracts_base AS SELECT rowid AS row_key, * FROM ${selected[0].id}`);
+      await this.conn.query('DROP TABLE IF EXISTS combined_contracts');
+    } else {
+      // `id` is unique per award line. Without it, fall back to reference_id plus
+      // title and amount, since one PhilGEPS reference can cover several line items.
+      await this.conn.query(`
+        CREATE OR REPLACE TABLE combined_contracts AS
+        SELECT * EXCLUDE (dataset_order)
+        FROM (
+          ${selected.map((d, i) => `SELECT *, ${i} AS dataset_order FROM ${d.id}`).join(' UNION ALL BY NAME ')}
+        )
+        QUALIFY COALESCE(id, reference_id) IS NULL
+          OR ROW_NUMBER() OVER (
+            PARTITION BY COALESCE(id, reference_id || '|' || COALESCE(award_title, '') || '|' || COALESCE(CAST(contract_amount AS VARCHAR), ''))
+            ORDER BY dataset_order DESC
+          ) = 1
+      `);
+      await this.conn.query('CREATE OR REPLACE VIEW contracts_base AS SELECT rowid AS row_key, * FROM combined_contracts');
+    }
+
+    this.activeDatasetIds = selected.map((d) => d.id);
+    // The import notes describe the newest file in view
+    this.schemaReport = selected[selected.length - 1].schemaReport;
+    await this.resolveAreas();
+    await this.resolveEntities();
+    await this.buildSearchIndex();
+
+    const countResult = await this.conn.query('SELECT COUNT(*) as cnt FROM contracts');
+    return Number(countResult.toArray()[0]?.cnt ?? 0);
+  }
+
+  // The rest are brought into view first; the catalog entry and its table are only
+  // dropped once that has worked, and a failed switch goes back to the previous view
+  async removeDataset(id: string): Promise<void> {
+    if (!this.conn) throw new Error('Not connected');
+
+    const previous = this.activeDatasetIds;
+    const remaining = previous.filter((activeId) => activeId !== id);
+    const fallback = this.datasets.filter((d) => d.id !== id).at(-1);
+
+    if (remaining.length > 0 || fallback) {
+      try {
+        await this.activateDatasets(remaining.length > 0 ? remaining : [fallback!.id]);
+      } catch (error) {
+        await this.activateDatasets(previous).catch(() => undefined);
+        throw error;
+      }
+    } else {
+      await this.conn.query('DROP VIEW IF EXISTS contracts');
+      await this.conn.query('DROP VIEW IF EXISTS contracts_base');
+      await this.conn.query('DROP TABLE IF EXISTS combined_contracts');
+      await this.conn.query(`DROP SCHEMA IF EXISTS ${FTS_SCHEMA} CASCADE`);
+      await this.conn.query(`DROP TABLE IF EXISTS ${FTS_TABLE}`);
+      this.activeDatasetIds = [];
+      this.fullTextReady = false;
+      this.entityMatches = [];
+      this.schemaReport = null;
+    }
+
+    this.datasets = this.datasets.filter((d) => d.id !== id);
+    await this.conn.query(`DROP TABLE IF EXISTS ${id}`);
+  }
+
+  // --------------------------------------------------------------------------
+  // SQL console. Input must parse as exactly one SELECT, checked with DuckDB's own
+  // parser through json_serialize_sql, so DDL, DML, COPY, ATTACH and PRAGMA are
+  // refused before anything runs and the loaded tables cannot be changed.
+  // --------------------------------------------------------------------------
+
+  private async validateReadOnlySql(sql: string): Promise<string> {
+    const statement = sql.trim().replace(/(\s*;)+$/, '');
+    if (!statement) throw new Error('Enter a query to run.');
+
+    const result = await this.runQuery('SELECT json_serialize_sql(?::VARCHAR) AS ast', [statement]);
+    const ast = JSON.parse(String(result.toArray()[0]?.ast ?? '{}')) as {
+      error?: boolean;
+      error_type?: string;
+      error_message?: string;
+      statements?: unknown[];
+    };
+    if (ast.error) {
+      throw new Error(ast.error_type === 'not implemented'
+        ? 'Only SELECT queries can run here. The console cannot create, change or drop tables.'
+        : ast.error_message ?? 'The query could not be parsed.');
+    }
+    if (ast.statements?.length !== 1) throw new Error('Run one query at a time.');
+    return statement;
+  }
+
+  // Console queries share the app's connection, so a slow one can be cancelled
+  // rather than holding up every other panel
+  async runReadOnlyQuery(sql: string, signal?: AbortSignal): Promise<SqlConsoleResult> {
+    if (!this.conn) throw new Error('Not connected');
+
+    const statement = await this.validateReadOnlySql(sql);
+    const started = performance.now();
+    // The line breaks keep a trailing `--` comment from swallowing the parenthesis
+    const { schema, batches } = await this.runCancellable(`
+      SELECT * FROM (
+        ${statement}
+      ) AS console_query
+      LIMIT ${SQL_CONSOLE_CONFIG.MAX_ROWS + 1}
+    `, signal, () => new ConsoleCancelledError());
+    const elapsedMs = performance.now() - started;
+
+    const columns = schema.fields.map((f) => ({ name: f.name, type: String(f.type) }));
+    const rows = batches.flatMap((batch) => {
+      const vectors = columns.map((_, i) => batch.getChildAt(i)!);
+      return Array.from({ length: batch.numRows }, (_, r) => vectors.map((v) => v.get(r)));
+    });
+
+    return {
+      columns,
+      rows: rows.slice(0, SQL_CONSOLE_CONFIG.MAX_ROWS),
+      truncated: rows.length > SQL_CONSOLE_CONFIG.MAX_ROWS,
+      elapsedMs,
+    };
+  }
+
+  // The result as CSV, up to MAX_EXPORT_ROWS rows, written by DuckDB to its
+  // in-memory file system
+  async exportReadOnlyQueryCsv(sql: string, signal?: AbortSignal): Promise<{ csv: Uint8Array; capped: boolean }> {
+    if (!this.db || !this.conn) throw new Error('Not connected');
+
+    const statement = await this.validateReadOnlySql(sql);
+    const file = 'console_export.csv';
+    try {
+      const { batches } = await this.runCancellable(`
+        COPY (
+          SELECT * FROM (
+            ${statement}
+          ) AS console_query
+          LIMIT ${SQL_CONSOLE_CONFIG.MAX_EXPORT_ROWS}
+        ) TO '${file}' (HEADER, DELIMITER ',')
+      `, signal, () => new ConsoleCancelledError());
+      const written = Number(batches[0]?.getChildAt(0)?.get(0) ?? 0);
+      return { csv: await this.db.copyFileToBuffer(file), capped: written >= SQL_CONSOLE_CONFIG.MAX_EXPORT_ROWS };
+    } finally {
+      await this.db.dropFile(file).catch(() => null);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Full-text search. The FTS extension is fetched from the DuckDB extension
+  // repository on first use; offline, search falls back to substring matching.
+  // --------------------------------------------------------------------------
+
+  hasFullTextSearch(): boolean {
+    return this.fullTextReady;
+  }
+
+  private async buildSearchIndex(): Promise<void> {
+    const conn = this.conn!;
+    try {
+      await conn.query('INSTALL fts');
+      await conn.query('LOAD fts');
+      await conn.query(`
+        CREATE OR REPLACE TABLE ${FTS_TABLE} AS
+        SELECT row_key, ${FTS_COLUMNS.join(', ')} FROM contracts_base
+      `);
+      // Digits are kept so project codes like "24OH0145" stay searchable
+      await conn.query(`
+        PRAGMA create_fts_index(
+          '${FTS_TABLE}', 'row_key', ${FTS_COLUMNS.map((c) => `'${c}'`).join(', ')},
+          stemmer = 'porter', stopwords = 'english', ignore = '[^a-z0-9]+', overwrite = 1
+        )
+      `);
+      const stopwords = await conn.query(`SELECT sw FROM ${FTS_SCHEMA}.stopwords`);
+      this.stopwords = new Set(stopwords.toArray().map((row) => String(row.sw)));
+      this.fullTextReady = true;
+    } catch (error) {
+      console.warn('Full-text index unavailable, using substring search:', error);
+      this.fullTextReady = false;
+    }
+  }
+
+  // Stems of the query words as the index sees them, minus stopwords
+  async getSearchHighlight(query: string): Promise<SearchHighlight> {
+    const { terms, phrases } = parseSearchQuery(query.toLowerCase());
+    if (!this.fullTextReady || terms.length === 0) return { stems: terms, phrases };
+
+    try {
+      const result = await this.runQuery(`
+        SELECT DISTINCT stem(t, 'porter') AS stem
+        FROM (VALUES ${terms.map(() => '(?)').join(', ')}) v(t)
+        WHERE t NOT IN (SELECT sw FROM ${FTS_SCHEMA}.stopwords)
+      `, terms);
+      return { stems: result.toArray().map((row) => String(row.stem)).filter(Boolean), phrases };
+    } catch {
+      return { stems: terms, phrases };
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Area resolution. Each distinct area_of_delivery is matched against the bundled
+  // PSGC reference and stored with its region > province > city code path.
+  // --------------------------------------------------------------------------
+
+  private async loadAreaReference(): Promise<void> {
+    if (this.areaReferenceLoaded) return;
+    const conn = this.conn!;
+
+    try {
+      const response = await fetch(AREA_REFERENCE_URL);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      await this.db!.registerFileText('psgc_areas.csv', await response.text());
+
+      await conn.query(`
+        CREATE OR REPLACE TABLE area_reference AS
+        WITH raw AS (
+          SELECT * FROM read_csv('psgc_areas.csv', header = true, all_varchar = true)
+        )
+        SELECT
+          r.code,
+          r.name,
+          r.level,
+          r.parent_code,
+          r.aliases,
+          CASE
+            WHEN r.parent_code IS NULL THEN [r.code]
+            WHEN p.parent_code IS NULL THEN [p.code, r.code]
+            ELSE [p.parent_code, p.code, r.code]
+          END AS path
+        FROM raw r
+        LEFT JOIN raw p ON p.code = r.parent_code
+      `);
+
+      // Quality 2 for names and aliases, 1 for a city without "City" ("Cebu" is
+      // the province first); "Mandaluyong" also matches "Mandaluyong City"
+      await conn.query(`
+        CREATE OR REPLACE TABLE area_keys AS
+        WITH names AS (
+          SELECT code, path, level, UNNEST(list_append(string_split(COALESCE(aliases, ''), '|'), name)) AS alias
+          FROM area_reference
+        ),
+        keyed AS (
+          SELECT code, path, level, ${areaKeySql('alias')} AS match_key FROM names
+        )
+        SELECT code, path, len(path) AS depth, match_key, MAX(quality) AS quality
+        FROM (
+          SELECT code, path, match_key, 2 AS quality FROM keyed
+          UNION ALL
+          SELECT code, path, match_key || ' CITY', 2 FROM keyed
+          WHERE level = 'city' AND NOT match_key LIKE '% CITY'
+          UNION ALL
+          SELECT code, path, REGEXP_REPLACE(match_key, ' CITY$', ''), 1 FROM keyed
+          WHERE level = 'city' AND match_key LIKE '% CITY'
+        )
+        WHERE match_key <> ''
+        GROUP BY code, path, match_key
+      `);
+      this.areaReferenceLoaded = true;
+    } catch (error) {
+      // Without the reference, areas are shown as written
+      console.warn('Area reference unavailable:', error);
+      await conn.query(`
+        CREATE OR REPLACE TABLE area_reference (
+          code VARCHAR, name VARCHAR, level VARCHAR, parent_code VARCHAR, aliases VARCHAR, path VARCHAR[]
+        )
+      `);
+      await conn.query(`
+        CREATE OR REPLACE TABLE area_keys (
+          code VARCHAR, path VARCHAR[], depth BIGINT, match_key VARCHAR, quality INTEGER
+        )
+      `);
+    }
+  }
+
+  private async resolveAreas(): Promise<void> {
+    await this.loadAreaReference();
+
+    // "Cebu City, Cebu" and "San Carlos City, Pangasinan" are matched part by part.
+    // A name shared by several places (San Carlos, Talisay, Naga) only resolves
+    // when its province is also named, and a name shared by a province and a town
+    // ("Quezon", "Isabela") is the province unless the town's province is named.
+    // Parts that name a place's own province are dropped; parts in different
+    // places resolve to the level they share ("Sarangani, South Cotabato" is
+    // Region XII), or stay unplaced.
+    await this.conn!.query(`
+      CREATE OR REPLACE TABLE area_map AS
+      WITH areas AS (
+        SELECT DISTINCT area_of_delivery AS raw_area
+        FROM contracts_base
+        WHERE NULLIF(TRIM(area_of_delivery), '') IS NOT NULL
+      ),
+      parts AS (
+        SELECT raw_area, ${areaKeySql('raw_area')} AS area_key FROM areas
+        UNION
+        SELECT raw_area, ${areaKeySql('part')} FROM areas, UNNEST(string_split(raw_area, ',')) AS t(part)
+      ),
+      matches AS (
+        SELECT p.raw_area, p.area_key, k.code, k.path, k.depth, k.quality
+        FROM parts p JOIN area_keys k ON k.match_key = p.area_key
+        UNION ALL
+        SELECT p.raw_area, p.area_key, k.code, k.path, k.depth, 0
+        FROM parts p
+        JOIN area_keys k
+          ON k.quality = 2
+          AND jaro_winkler_similarity(p.area_key, k.match_key) >= ${AREA_CONFIG.FUZZY_THRESHOLD}
+        WHERE length(p.area_key) >= ${AREA_CONFIG.MIN_FUZZY_KEY_LENGTH}
+          AND p.area_key NOT IN (SELECT match_key FROM area_keys)
+      ),
+      candidates AS (
+        SELECT raw_area, area_key, code, any_value(path) AS path, any_value(depth) AS depth, MAX(quality) AS quality
+        FROM matches
+        GROUP BY raw_area, area_key, code
+      ),
+      ranked AS (
+        SELECT
+          c.*,
+          EXISTS (
+            SELECT 1 FROM candidates o
+            WHERE o.raw_area = c.raw_area AND o.area_key <> c.area_key AND o.code = c.path[c.depth - 1]
+          ) AS parent_named,
+          COUNT(*) OVER (PARTITION BY c.raw_area, c.area_key, c.depth, c.quality) AS rivals
+        FROM candidates c
+      ),
+      resolved AS (
+        SELECT raw_area, code, path FROM ranked
+        WHERE rivals = 1 OR parent_named
+        QUALIFY ROW_NUMBER() OVER (
+          PARTITION BY raw_area, area_key ORDER BY parent_named DESC, quality DESC, depth
+        ) = 1
+      ),
+      leaves AS (
+        SELECT DISTINCT r.raw_area, r.path FROM resolved r
+        WHERE NOT EXISTS (
+          SELECT 1 FROM resolved o
+          WHERE o.raw_area = r.raw_area AND o.code <> r.code AND list_contains(o.path, r.code)
+        )
+      ),
+      shared AS (
+        SELECT raw_area, d, any_value(path[d]) AS code
+        FROM leaves, range(1, 4) AS t(d)
+        GROUP BY raw_area, d
+        HAVING COUNT(*) = COUNT(path[d]) AND COUNT(DISTINCT path[d]) = 1
+      ),
+      placed AS (
+        SELECT raw_area, list(code ORDER BY d) AS area_path FROM shared GROUP BY raw_area
+      )
+      SELECT a.raw_area, p.area_path[-1] AS area_code, p.area_path
+      FROM areas a
+      LEFT JOIN placed p ON p.raw_area = a.raw_area
+    `);
+  }
+
+  // --------------------------------------------------------------------------
+  // Entity resolution. `contracts` is `contracts_base` plus resolved supplier and
+  // agency ids (awardee_id, organization_id) and display names (awardee_entity,
+  // organization_entity), and the area path from area_map. Review decisions are
+  // kept in localStorage by match id.
+  // --------------------------------------------------------------------------
+
+  listEntityMatches(): EntityMatch[] {
+    const decisions = storage.get<Record<string, EntityDecision>>(STORAGE_KEYS.ENTITY_DECISIONS, {});
+    return this.entityMatches.map((m) => ({ ...m, decision: decisions[m.id] ?? null }));
+  }
+
+  async setEntityDecision(matchId: string, decision: EntityDecision | null): Promise<void> {
+    const decisions = storage.get<Record<string, EntityDecision>>(STORAGE_KEYS.ENTITY_DECISIONS, {});
+    if (decision) {
+      decisions[matchId] = decision;
+    } else {
+      delete decisions[matchId];
+    }
+    storage.set(STORAGE_KEYS.ENTITY_DECISIONS, decisions);
+    await this.applyEntityDecisions();
+  }
+
+  private async resolveEntities(): Promise<void> {
+    const conn = this.conn!;
+
+    await conn.query(`
+      CREATE OR REPLACE TABLE entity_names AS
+      SELECT kind, raw_name, ${entityKeySql('raw_name')} AS name_key, row_count
+      FROM (
+        SELECT 'awardee' AS kind, awardee_name AS raw_name, COUNT(*) AS row_count
+        FROM contracts_base WHERE awardee_name IS NOT NULL GROUP BY awardee_name
+        UNION ALL
+        SELECT 'organization', organization_name, COUNT(*)
+        FROM contracts_base WHERE organization_name IS NOT NULL GROUP BY organization_name
+      )
+    `);
+
+    const grouped = await conn.query(`
+      SELECT kind, name_key, raw_name, row_count
+      FROM entity_names
+      QUALIFY COUNT(*) OVER (PARTITION BY kind, name_key) > 1
+      ORDER BY kind, name_key, row_count DESC
+    `);
+    const normalized = new Map<string, EntityMatch>();
+    for (const row of grouped.toArray()) {
+      const kind = String(row.kind) as EntityKind;
+      const key = String(row.name_key);
+      const id = `${kind}:${key}`;
+      if (!normalized.has(id)) {
+        normalized.set(id, { id, kind, method: 'normalized', keys: [key], similarity: 1, names: [], decision: null });
+      }
+      normalized.get(id)!.names.push({ name: String(row.raw_name), rows: Number(row.row_count) });
+    }
+
+    // Agency names share long prefixes ("DEPARTMENT OF EDUCATION - DIVISION OF ..."),
+    // so plain string similarity pairs up different offices. Instead, propose keys
+    // that have the same words apart from one single-letter typo or one filler word.
+    // Keys are only compared within blocks sharing a prefix to keep the self-join small.
+    const similar = await conn.query(`
+      WITH entity_keys AS (
+        SELECT
+          kind,
+          name_key,
+          string_split(name_key, ' ') AS tokens,
+          arg_max(raw_name, row_count) AS name,
+          SUM(row_count) AS row_count
+        FROM entity_names
+        WHERE name_key <> ''
+        GROUP BY kind, name_key
+      ),
+      pairs AS (
+        SELECT
+          a.kind,
+          a.name_key AS key_a, a.name AS name_a, a.row_count AS rows_a,
+          b.name_key AS key_b, b.name AS name_b, b.row_count AS rows_b,
+          list_filter(a.tokens, t -> NOT list_contains(b.tokens, t)) AS only_a,
+          list_filter(b.tokens, t -> NOT list_contains(a.tokens, t)) AS only_b
+        FROM entity_keys a
+        JOIN entity_keys b
+          ON a.kind = b.kind
+          AND LEFT(a.name_key, ${ENTITY_CONFIG.BLOCK_PREFIX_LENGTH}) = LEFT(b.name_key, ${ENTITY_CONFIG.BLOCK_PREFIX_LENGTH})
+          AND a.name_key < b.name_key
+      )
+      SELECT *, jaro_winkler_similarity(key_a, key_b) AS similarity
+      FROM pairs
+      WHERE len(only_a) + len(only_b) = 0
+        OR (len(only_a) + len(only_b) = 1
+          AND list_concat(only_a, only_b)[1] IN (${ENTITY_CONFIG.FILLER_WORDS.map(quoteLiteral).join(', ')}))
+        OR (len(only_a) = 1 AND len(only_b) = 1
+          AND least(length(only_a[1]), length(only_b[1])) >= ${ENTITY_CONFIG.MIN_TYPO_TOKEN_LENGTH}
+          AND levenshtein(only_a[1], only_b[1]) = 1
+          AND NOT regexp_full_match(only_a[1] || only_b[1], '[IVXLCDM]+'))
+      ORDER BY similarity DESC
+      LIMIT ${ENTITY_CONFIG.MAX_FUZZY_MATCHES}
+    `);
+    const fuzzy: EntityMatch[] = similar.toArray().map((row) => {
+      const kind = String(row.kind) as EntityKind;
+      return {
+        id: `${kind}:${row.key_a}~${row.key_b}`,
+        kind,
+        method: 'fuzzy',
+        keys: [String(row.key_a), String(row.key_b)],
+        similarity: Number(row.similarity),
+        names: [
+          { name: String(row.name_a), rows: Number(row.rows_a) },
+          { name: String(row.name_b), rows: Number(row.rows_b) },
+        ],
+        decision: null,
+      };
+    });
+
+    this.entityMatches = [...fuzzy, ...normalized.values()];
+    await this.applyEntityDecisions();
+  }
+
+  // Rebuilds entity_map from the matches and stored decisions, then the contracts view
+  private async applyEntityDecisions(): Promise<void> {
+    const conn = this.conn!;
+    const matches = this.listEntityMatches();
+
+    // Accepted fuzzy matches can chain (A~B, B~C), so resolve them with union-find
+    const parent = new Map<string, string>();
+    const find = (key: string): string => {
+      const next = parent.get(key);
+      if (!next || next === key) return key;
+      const root = find(next);
+      parent.set(key, root);
+      return root;
+    };
+    const merged = new Set<string>();
+    for (const match of matches) {
+      if (match.method !== 'fuzzy' || match.decision !== 'accepted') continue;
+      const ids = match.keys.map((key) => `${match.kind}:${key}`);
+      ids.forEach((id) => merged.add(id));
+      const [a, b] = ids.map(find);
+      if (a !== b) parent.set(b, a);
+    }
+
+    // kind:key -> merge target, or null to keep the key's raw names apart. An
+    // accepted fuzzy match takes precedence over a rejected normalized one.
+    const overrides = new Map<string, string | null>();
+    for (const match of matches) {
+      if (match.method === 'normalized' && match.decision === 'rejected') {
+        overrides.set(match.id, null);
+      }
+    }
+    for (const id of merged) {
+      const root = find(id);
+      overrides.set(id, root.slice(root.indexOf(':') + 1));
+    }
+
+    await conn.query('CREATE OR REPLACE TABLE entity_overrides (kind VARCHAR, name_key VARCHAR, merged_into VARCHAR)');
+    if (overrides.size > 0) {
+      const values = [...overrides].map(([id, target]) => {
+        const split = id.indexOf(':');
+        return `(${quoteLiteral(id.slice(0, split))}, ${quoteLiteral(id.slice(split + 1))}, ` +
+          `${target === null ? 'NULL' : quoteLiteral(target)})`;
+      });
+      await conn.query(`INSERT INTO entity_overrides VALUES ${values.join(', ')}`);
+    }
+
+    // The most common spelling in each group becomes its display name
+    await conn.query(`
+      CREATE OR REPLACE TABLE entity_map AS
+      SELECT
+        kind,
+        raw_name,
+        entity_id,
+        arg_max(raw_name, row_count) OVER (PARTITION BY kind, entity_id) AS entity_name
+      FROM (
+        SELECT
+          n.kind,
+          n.raw_name,
+          n.row_count,
+          CASE
+            WHEN o.merged_into IS NOT NULL THEN o.merged_into
+            WHEN o.name_key IS NOT NULL OR n.name_key = '' THEN n.name_key || '|' || n.raw_name
+            ELSE n.name_key
+          END AS entity_id
+        FROM entity_names n
+        LEFT JOIN entity_overrides o ON o.kind = n.kind AND o.name_key = n.name_key
+      )
+    `);
+
+    await conn.query(`
+      CREATE OR REPLACE VIEW contracts AS
+      SELECT
+        c.*,
+        a.entity_id AS awardee_id,
+        COALESCE(a.entity_name, c.awardee_name) AS awardee_entity,
+        o.entity_id AS organization_id,
+        COALESCE(o.entity_name, c.organization_name) AS organization_entity,
+        COALESCE(m.area_path, []) AS area_path
+      FROM contracts_base c
+      LEFT JOIN entity_map a ON a.kind = 'awardee' AND a.raw_name = c.awardee_name
+      LEFT JOIN entity_map o ON o.kind = 'organization' AND o.raw_name = c.organization_name
+      LEFT JOIN area_map m ON m.raw_area = c.area_of_delivery
+    `);
+  }
+
+  // Runs a statement through the pending-query API so an abort signal can interrupt it,
+  // and returns its result. `cancelled` makes the error thrown after an abort.
+  private async runCancellable(
+    sql: string,
+    signal?: AbortSignal,
+    cancelled: () => Error = () => new LoadCancelledError()
+  ) {
+    if (signal?.aborted) throw cancelled();
+
+    const onAbort = () => {
+      void this.conn!.cancelSent();
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    try {
+      const reader = await this.conn!.send(sql);
+      const batches = [];
+      for await (const batch of reader) batches.push(batch);
+      if (signal?.aborted) throw cancelled();
+      return { schema: reader.schema, batches };
+    } catch (error) {
+      if (signal?.aborted) throw cancelled();
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  async hasContracts(): Promise<boolean> {
+    if (!this.conn) return false;
+    const result = await this.conn.query(
+      "SELECT COUNT(*) as cnt FROM information_schema.tables WHERE table_name = 'contracts'"
+    );
+    return Number(result.toArray()[0]?.cnt ?? 0) > 0;
+  }
+
+  getSchemaReport(): SchemaReport | null {
+    return this.schemaReport;
+  }
+
+  // --------------------------------------------------------------------------
+  // Persistent dataset cache (OPFS). The normalized `contracts` table is stored
+  // as an uncompressed parquet file named after the source file's content hash.
+  // --------------------------------------------------------------------------
+
+  private async getCacheDirectory(): Promise<FileSystemDirectoryHandle | null> {
+    if (!navigator.storage?.getDirectory) return null;
+    try {
+      const root = await navigator.storage.getDirectory();
+      return await root.getDirectoryHandle(CACHE_CONFIG.DIRECTORY, { create: true });
+    } catch {
+      return null;
+    }
+  }
+
+  listCachedDatasets(): CachedDataset[] {
+    return storage
+      .get<CachedDataset[]>(STORAGE_KEYS.DATASET_CACHE, [])
+      .sort((a, b) => b.loadedAt - a.loadedAt);
+  }
+
+  // Cache jobs run one at a time, so a load finishing mid-write cannot interleave
+  cacheDataset(datasetId: string, source: Blob, importOptions?: CsvImportOptions): Promise<CachedDataset | null> {
+    const job = this.cacheQueue.then(() => this.writeCachedDataset(datasetId, source, importOptions));
+    this.cacheQueue = job.catch(() => undefined);
+    return job;
+  }
+
+  private async writeCachedDataset(
+    datasetId: string,
+    source: Blob,
+    importOptions?: CsvImportOptions
+  ): Promise<CachedDataset | null> {
+    const dataset = this.datasets.find((d) => d.id === datasetId);
+    if (!dataset || !this.db || !this.conn) return null;
+
+    // Shared links name datasets by hash, so it is kept even where there is no cache.
+    // A CSV imported with another format or mapping is a different table.
+    const fileHash = await hashBlob(source);
+    const hash = importOptions
+      ? await hashBlob(new Blob([fileHash, JSON.stringify({
+          ...importOptions,
+          mapping: Object.entries(importOptions.mapping).sort(),
+        })]))
+      : fileHash;
+    dataset.hash = hash;
+    const directory = await this.getCacheDirectory();
+    if (!directory) return null;
+    let sizeBytes = this.listCachedDatasets().find((d) => d.hash === hash)?.sizeBytes;
+
+    if (sizeBytes === undefined) {
+      // DuckDB writes the file straight into OPFS through a sync access handle, so
+      // the table is never copied into the JS heap
+      const fileName = `${hash}.parquet`;
+      const handle = await directory.getFileHandle(fileName, { create: true });
+      try {
+        await this.db.registerFileHandle(fileName, handle, duckdb.DuckDBDataProtocol.BROWSER_FSACCESS, true);
+        try {
+          await this.conn.query(`COPY ${datasetId} TO '${fileName}' (FORMAT parquet, COMPRESSION uncompressed)`);
+        } finally {
+          await this.db.dropFile(fileName);
+        }
+      } catch (error) {
+        await directory.removeEntry(fileName).catch(() => undefined);
+        throw error;
+      }
+      sizeBytes = (await handle.getFile()).size;
+      // Ask the browser not to evict the cache under storage pressure
+      await navigator.storage.persist?.().catch(() => false);
+    }
+
+    const entry: CachedDataset = {
+      hash,
+      fileName: dataset.fileName,
+      rowCount: dataset.rowCount,
+      loadedAt: Date.now(),
+      sizeBytes,
+    };
+    await this.saveCacheEntries([entry, ...this.listCachedDatasets().filter((d) => d.hash !== hash)]);
+    return entry;
+  }
+
+  async openCachedDataset(cached: CachedDataset, options: LoadOptions = {}): Promise<DatasetEntry> {
+    const { hash } = cached;
+    await this.saveCacheEntries(
+      this.listCachedDatasets().map((d) => (d.hash === hash ? { ...d, loadedAt: Date.now() } : d))
+    );
+
+    // Already in the catalog this session: just bring it into view
+    const loaded = this.datasets.find((d) => d.hash === hash);
+    if (loaded) {
+      await this.activateDatasets(options.append ? [...this.activeDatasetIds, loaded.id] : [loaded.id]);
+      return loaded;
+    }
+
+    const directory = await this.getCacheDirectory();
+    const handle = await directory?.getFileHandle(`${hash}.parquet`).catch(() => null);
+    if (!handle) {
+      await this.removeCachedDataset(hash);
+      throw new Error('This dataset is no longer in the browser cache. Please upload the file again.');
+    }
+
+    // Re-wrap so the dataset keeps its original name rather than the hash
+    const file = new File([await handle.getFile()], cached.fileName);
+    const entry = await this.loadParquetFromFile(file, options);
+    entry.hash = hash;
+    return entry;
+  }
+
+  async removeCachedDataset(hash: string): Promise<void> {
+    const directory = await this.getCacheDirectory();
+    await directory?.removeEntry(`${hash}.parquet`).catch(() => undefined);
+    storage.set(
+      STORAGE_KEYS.DATASET_CACHE,
+      this.listCachedDatasets().filter((d) => d.hash !== hash)
+    );
+  }
+
+  private async saveCacheEntries(entries: CachedDataset[]): Promise<void> {
+    const sorted = [...entries].sort((a, b) => b.loadedAt - a.loadedAt);
+    const evicted = sorted.slice(CACHE_CONFIG.MAX_DATASETS);
+    storage.set(STORAGE_KEYS.DATASET_CACHE, sorted.slice(0, CACHE_CONFIG.MAX_DATASETS));
+
+    const directory = await this.getCacheDirectory();
+    for (const dataset of evicted) {
+      await directory?.removeEntry(`${dataset.hash}.parquet`).catch(() => undefined);
+    }
+  }
+
+  async getStats(): Promise<DataStats> {
+    if (!this.conn) throw new Error('Not connected');
+
+    const result = await this.conn.query(`
+      SELECT
+        COUNT(*) as total_contracts,
+        COALESCE(SUM(contract_amount), 0) as total_value,
+        COALESCE(AVG(contract_amount), 0) as avg_value,
+        COUNT(DISTINCT organization_id) as unique_orgs,
+        COUNT(DISTINCT awardee_id) as unique_awardees,
+        COUNT(DISTINCT area_of_delivery) as unique_areas,
+        COUNT(DISTINCT business_category) as unique_categories,
+        epoch_ms(MIN(award_date)) as earliest_date,
+        epoch_ms(MAX(award_date)) as latest_date,
+        COUNT(*) FILTER (WHERE award_date IS NULL) as undated_contracts
+      FROM contracts
+      WHERE contract_amount IS NOT NULL
+    `);
+
+    const row = result.toArray()[0];
+
+    return {
+      totalContracts: Number(row.total_contracts),
+      totalValue: Number(row.total_value),
+      avgValue: Number(row.avg_value),
+      uniqueOrgs: Number(row.unique_orgs),
+      uniqueAwardees: Number(row.unique_awardees),
+      uniqueAreas: Number(row.unique_areas),
+      uniqueCategories: Number(row.unique_categories),
+      dateRange: {
+        earliest: dateFromEpoch(row.earliest_date),
+        latest: dateFromEpoch(row.latest_date),
+      },
+      undatedContracts: Number(row.undated_contracts),
+    };
+  }
+
+  async getYearBreakdown(): Promise<Array<{ year: number; count: number; amount: number }>> {
+    if (!this.conn) throw new Error('Not connected');
+
+    const result = await this.conn.query(`
+      SELECT
+        YEAR(award_date) as year,
+        COUNT(*) as count,
+        COALESCE(SUM(contract_amount), 0) as amount
+      FROM contracts
+      WHERE award_date IS NOT NULL
+      GROUP BY year
+      ORDER BY year
+    `);
+
+    return result.toArray().map((row) => ({
+      year: Number(row.year),
+      count: Number(row.count),
+      amount: Number(row.amount),
+    }));
+  }
+
+  // Contract count and value per month, quarter or year for a filter. Periods without
+  // awards are filled in as zero, and each carries its value a year earlier. Only
+  // plausible award dates count, so a mistyped year cannot stretch the series by centuries.
+  async getSpendingTrend(filter: ContractFilter, granularity: TrendGranularity): Promise<TrendPoint[]> {
+    if (!this.conn) throw new Error('Not connected');
+
+    const { source, where, params } = buildContractFilter(filter, this.fullTextReady, this.stopwords);
+    const result = await this.runQuery(`
+      WITH filtered AS (
+        SELECT award_date, contract_amount FROM ${source} ${where}
+      ),
+      periods AS (
+        SELECT
+          date_trunc('${granularity}', award_date)::TIMESTAMP as period,
+          COUNT(*) as count,
+          COALESCE(SUM(contract_amount), 0) as amount
+        FROM filtered
+        WHERE award_date BETWEEN DATE '${QUALITY_CONFIG.MIN_AWARD_DATE}' AND current_date
+        GROUP BY 1
+      ),
+      series AS (
+        SELECT UNNEST(generate_series(MIN(period), MAX(period), INTERVAL 1 ${granularity})) as period
+        FROM periods
+      )
+      SELECT
+        epoch_ms(s.period) as period,
+        COALESCE(p.count, 0) as count,
+        COALESCE(p.amount, 0) as amount,
+        s.period - INTERVAL 1 YEAR >= (SELECT MIN(period) FROM periods) as has_prior,
+        COALESCE(prior.count, 0) as prior_count,
+        COALESCE(prior.amount, 0) as prior_amount
+      FROM series s
+      LEFT JOIN periods p ON p.period = s.period
+      LEFT JOIN periods prior ON prior.period = s.period - INTERVAL 1 YEAR
+      ORDER BY s.period
+    `, params);
+
+    return result.toArray().map((row) => ({
+      period: new Date(Number(row.period)),
+      count: Number(row.count),
+      amount: Number(row.amount),
+      prior: row.has_prior ? { count: Number(row.prior_count), amount: Number(row.prior_amount) } : null,
+    }));
+  }
+
+  // Children of `parent` in the region > province > city hierarchy, or the regions
+  // plus any unplaced area strings at the top level
+  async getAreaBreakdown(parent: AreaNode | null = null): Promise<AreaNode[]> {
+    if (!this.conn) throw new Error('Not connected');
+
+    const depth = parent?.depth ?? 0;
+    const parentFilter = parent?.code ? `AND area_path[${depth}] = ?` : '';
+
+    const result = await this.runQuery(`
+      SELECT
+        b.code,
+        COALESCE(r.name, b.raw_area) as name,
+        r.level,
+        b.count,
+        b.amount,
+        b.max_depth > ${depth + 1} as drillable
+      FROM (
+        SELECT
+          area_path[${depth + 1}] as code,
+          CASE WHEN len(area_path) = 0 THEN area_of_delivery END as raw_area,
+          COUNT(*) as count,
+          COALESCE(SUM(contract_amount), 0) as amount,
+          MAX(len(area_path)) as max_depth
+        FROM contracts
+        WHERE area_of_delivery IS NOT NULL AND area_of_delivery != '' ${parentFilter}
+        GROUP BY 1, 2
+      ) b
+      LEFT JOIN area_reference r ON r.code = b.code
+      WHERE b.code IS NOT NULL OR b.raw_area IS NOT NULL
+      ORDER BY b.amount DESC
+      LIMIT 50
+    `, parent?.code ? [parent.code] : []);
+
+    return result.toArray().map((row) => ({
+      code: row.code === null ? null : String(row.code),
+      name: String(row.name),
+      level: row.level === null ? null : (String(row.level) as AreaLevel),
+      depth: depth + 1,
+      count: Number(row.count),
+      amount: Number(row.amount),
+      drillable: Boolean(row.drillable),
+    }));
+  }
+
+  async getCategoryBreakdown(): Promise<Array<{ category: string; count: number; amount: number }>> {
+    if (!this.conn) throw new Error('Not connected');
+
+    const result = await this.conn.query(`
+      SELECT
+        COALESCE(business_category, 'Unknown') as category,
+        COUNT(*) as count,
+        COALESCE(SUM(contract_amount), 0) as amount
+      FROM contracts
+      WHERE business_category IS NOT NULL AND business_category != ''
+      GROUP BY business_category
+      ORDER BY amount DESC
+      LIMIT 20
+    `);
+
+    return result.toArray().map((row) => ({
+      category: String(row.category),
+      count: Number(row.count),
+      amount: Number(row.amount),
+    }));
+  }
+
+  // Every category and status with its row count, for the filter panel
+  async getFilterOptions(): Promise<FilterOptions> {
+    if (!this.conn) throw new Error('Not connected');
+
+    const [categories, statuses] = await Promise.all([
+      this.conn.query(`
+        SELECT business_category as value, COUNT(*) as count
+        FROM contracts
+        WHERE business_category IS NOT NULL AND business_category != ''
+        GROUP BY 1
+        ORDER BY count DESC, value
+      `),
+      this.conn.query(`
+        SELECT COALESCE(award_status, 'active') as value, COUNT(*) as count
+        FROM contracts
+        GROUP BY 1
+        ORDER BY count DESC, value
+      `),
+    ]);
+    const toOptions = (rows: Array<{ value: unknown; count: unknown }>) =>
+      rows.map((row) => ({ value: String(row.value), count: Number(row.count) }));
+
+    return { categories: toOptions(categories.toArray()), statuses: toOptions(statuses.toArray()) };
+  }
+
+  // The most concentrated agencies or categories among the contracts matching a filter.
+  // Shares are of positive contract value, by resolved supplier name.
+  async getConcentrationScores(
+    dimension: ConcentrationDimension,
+    filter: ContractFilter
+  ): Promise<{ scores: ConcentrationScore[]; groups: number }> {
+    if (!this.conn) throw new Error('Not connected');
+
+    const { column } = CONCENTRATION_DIMENSIONS[dimension];
+    const { source, where, params } = buildContractFilter(filter, this.fullTextReady, this.stopwords);
+    const result = await this.runQuery(`
+      WITH shares AS (
+        SELECT ${column} as grp, awardee_entity as supplier, COUNT(*) as count, SUM(contract_amount) as amount
+        FROM (SELECT * FROM ${source} ${where})
+        WHERE contract_amount > 0 AND NULLIF(${column}, '') IS NOT NULL AND NULLIF(awardee_entity, '') IS NOT NULL
+        GROUP BY 1, 2
+      ),
+      ranked AS (
+        SELECT
+          *,
+          amount / SUM(amount) OVER (PARTITION BY grp) as share,
+          ROW_NUMBER() OVER (PARTITION BY grp ORDER BY amount DESC, supplier) as position
+        FROM shares
+      )
+      SELECT
+        grp as name,
+        SUM(count) as contracts,
+        SUM(amount) as amount,
+        COUNT(*) as suppliers,
+        SUM(POWER(share * 100, 2)) as hhi,
+        MAX(share) as top1_share,
+        SUM(share) FILTER (WHERE position <= 3) as top3_share,
+        arg_min(supplier, position) as top_supplier,
+        COUNT(*) OVER () as groups
+      FROM ranked
+      GROUP BY grp
+      HAVING SUM(count) >= ?
+      ORDER BY hhi DESC, amount DESC, name
+      LIMIT ?
+    `, [...params, CONCENTRATION_CONFIG.MIN_CONTRACTS, CONCENTRATION_CONFIG.MAX_GROUPS]);
+
+    const rows = result.toArray();
+    return {
+      scores: rows.map((row) => ({
+        name: String(row.name),
+        contracts: Number(row.contracts),
+        amount: Number(row.amount),
+        suppliers: Number(row.suppliers),
+        hhi: Number(row.hhi),
+        top1Share: Number(row.top1_share),
+        top3Share: Number(row.top3_share),
+        topSupplier: String(row.top_supplier),
+      })),
+      groups: Number(rows[0]?.groups ?? 0),
+    };
+  }
+
+  // The suppliers behind one concentration score, largest share first
+  async getConcentrationSuppliers(
+    dimension: ConcentrationDimension,
+    name: string,
+    filter: ContractFilter
+  ): Promise<ProfileShare[]> {
+    if (!this.conn) throw new Error('Not connected');
+
+    const { column } = CONCENTRATION_DIMENSIONS[dimension];
+    const { source, where, params } = buildContractFilter(filter, this.fullTextReady, this.stopwords);
+    const result = await this.runQuery(`
+      SELECT
+        awardee_entity as name,
+        COUNT(*) as count,
+        SUM(contract_amount) as amount,
+        SUM(contract_amount) / SUM(SUM(contract_amount)) OVER () as share
+      FROM (SELECT * FROM ${source} ${where})
+      WHERE contract_amount > 0 AND ${column} = ? AND NULLIF(awardee_entity, '') IS NOT NULL
+      GROUP BY 1
+      ORDER BY amount DESC, name
+      LIMIT ?
+    `, [...params, name, CONCENTRATION_CONFIG.MAX_SUPPLIERS]);
+
+    return result.toArray().map((row) => ({
+      name: String(row.name),
+      count: Number(row.count),
+      amount: Number(row.amount),
+      share: Number(row.share),
+    }));
+  }
+
+  // Observed against expected leading-digit shares of the amounts matching a filter
+  async getBenfordTest(filter: ContractFilter, digits: BenfordDigits): Promise<BenfordTest> {
+    if (!this.conn) throw new Error('Not connected');
+
+    const { source, where, params } = buildContractFilter(filter, this.fullTextReady, this.stopwords);
+    const result = await this.runQuery(`
+      SELECT ${leadingDigitsSql(digits)} as digit, COUNT(*) as count
+      FROM (SELECT * FROM ${source} ${where})
+      WHERE contract_amount >= ?
+      GROUP BY 1
+    `, [...params, BENFORD_CONFIG.MIN_AMOUNT]);
+
+    const counts = new Map(result.toArray().map((row) => [Number(row.digit), Number(row.count)]));
+    const sample = Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+    const [first, last] = benfordDigitRange(digits);
+    const bins: BenfordBin[] = [];
+    for (let digit = first; digit <= last; digit++) {
+      const count = counts.get(digit) ?? 0;
+      bins.push({ digit, count, share: sample > 0 ? count / sample : 0, expected: benfordExpected(digit) });
+    }
+
+    return {
+      digits,
+      sample,
+      bins,
+      chiSquare: sample > 0
+        ? bins.reduce((sum, bin) => sum + (bin.count - sample * bin.expected) ** 2 / (sample * bin.expected), 0)
+        : 0,
+      mad: bins.reduce((sum, bin) => sum + Math.abs(bin.share - bin.expected), 0) / bins.length,
+    };
+  }
+
+  // The agencies, suppliers or categories with enough contracts whose leading digits
+  // deviate most from Benford's Law, by mean absolute deviation
+  async getBenfordDeviations(
+    filter: ContractFilter,
+    digits: BenfordDigits,
+    dimension: BenfordDimension
+  ): Promise<BenfordDeviation[]> {
+    if (!this.conn) throw new Error('Not connected');
+
+    const { column } = BENFORD_DIMENSIONS[dimension];
+    const [first, last] = benfordDigitRange(digits);
+    const { source, where, params } = buildContractFilter(filter, this.fullTextReady, this.stopwords);
+    const result = await this.runQuery(`
+      WITH counts AS (
+        SELECT ${column} as grp, ${leadingDigitsSql(digits)} as digit, COUNT(*) as count
+        FROM (SELECT * FROM ${source} ${where})
+        WHERE contract_amount >= ? AND NULLIF(${column}, '') IS NOT NULL
+        GROUP BY 1, 2
+      ),
+      totals AS (
+        SELECT grp, SUM(count) as total FROM counts GROUP BY 1 HAVING SUM(count) >= ?
+      ),
+      grid AS (
+        SELECT t.grp, t.total, e.digit, log10(1 + 1.0 / e.digit) as expected, COALESCE(c.count, 0) as count
+        FROM totals t
+        CROSS JOIN (SELECT range as digit FROM range(${first}, ${last + 1})) e
+        LEFT JOIN counts c ON c.grp = t.grp AND c.digit = e.digit
+      )
+      SELECT
+        grp as name,
+        any_value(total) as contracts,
+        AVG(ABS(count / total - expected)) as mad,
+        SUM(POWER(count - total * expected, 2) / (total * expected)) as chi_square,
+        arg_max(digit, count / total - expected) as most_over
+      FROM grid
+      GROUP BY grp
+      ORDER BY mad DESC, name
+      LIMIT ?
+    `, [...params, BENFORD_CONFIG.MIN_AMOUNT, BENFORD_CONFIG.MIN_ENTITY_SAMPLE[digits], BENFORD_CONFIG.MAX_DEVIATIONS]);
+
+    return result.toArray().map((row) => ({
+      name: String(row.name),
+      contracts: Number(row.contracts),
+      mad: Number(row.mad),
+      chiSquare: Number(row.chi_square),
+      mostOver: Number(row.most_over),
+    }));
+  }
+
+  // Runs the enabled red-flag rules over the contracts matching a filter, most severe first
+  async getRedFlags(settings: RedFlagSettings, filter: ContractFilter): Promise<RedFlag[]> {
+    if (!this.conn) throw new Error('Not connected');
+
+    const { source, where, params } = buildContractFilter(filter, this.fullTextReady, this.stopwords);
+    const flags: RedFlag[] = [];
+    for (const id of RED_FLAG_RULE_IDS) {
+      if (!settings[id].enabled) continue;
+      const rule = RED_FLAG_RULES[id];
+      const result = await this.runQuery(`
+        WITH filtered AS (SELECT * FROM ${source} ${where})
+        SELECT * FROM (${rule.sql(settings[id].params)})
+        ORDER BY amount DESC
+        LIMIT ?
+      `, [...params, RED_FLAG_CONFIG.MAX_FLAGS_PER_RULE]);
+
+      for (const row of result.toArray()) {
+        const rowKeys = Array.from(row.row_keys as Iterable<unknown>, Number);
+        const flag = rule.toFlag(row, settings[id].params);
+        const awardee = row.awardee === null ? null : String(row.awardee);
+        flags.push({
+          ...flag,
+          id: `${id}:${row.org}|${awardee ?? ''}|${flag.title}`,
+          rule: id,
+          organization: String(row.org),
+          awardee,
+          contracts: Number(row.contracts),
+          amount: Number(row.amount),
+          rowKeys,
+        });
+      }
+    }
+
+    return flags.sort((a, b) =>
+      RED_FLAG_SEVERITY_ORDER[a.severity] - RED_FLAG_SEVERITY_ORDER[b.severity] || b.amount - a.amount
+    );
+  }
+
+  // Everything the profile panel shows for a resolved agency or supplier name
+  async getEntityProfile(kind: EntityKind, name: string): Promise<EntityProfile> {
+    if (!this.conn) throw new Error('Not connected');
+
+    const column = kind === 'awardee' ? 'awardee_entity' : 'organization_entity';
+    const other = kind === 'awardee' ? 'organization_entity' : 'awardee_entity';
+    // Top `limit` groups with their share of the entity's value, and how many groups there are
+    const breakdown = (expression: string, limit: number) => this.runQuery(`
+      SELECT
+        ${expression} as name,
+        COUNT(*) as count,
+        COALESCE(SUM(contract_amount), 0) as amount,
+        COALESCE(SUM(contract_amount) / NULLIF(SUM(SUM(contract_amount)) OVER (), 0), 0) as share,
+        COUNT(*) OVER () as groups
+      FROM contracts
+      WHERE ${column} = ? AND NULLIF(${expression}, '') IS NOT NULL
+      GROUP BY 1
+      ORDER BY amount DESC, count DESC, name
+      LIMIT ${limit}
+    `, [name]);
+    const toShares = (rows: Array<Record<string, unknown>>): ProfileShare[] =>
+      rows.map((row) => ({
+        name: String(row.name),
+        count: Number(row.count),
+        amount: Number(row.amount),
+        share: Number(row.share),
+      }));
+
+    const totals = await this.runQuery(`
+      SELECT
+        COUNT(*) as contracts,
+        COALESCE(SUM(contract_amount), 0) as amount,
+        epoch_ms(MIN(award_date)) as first_award,
+        epoch_ms(MAX(award_date)) as last_award
+      FROM contracts
+      WHERE ${column} = ?
+    `, [name]);
+    const counterparties = (await breakdown(other, 10)).toArray();
+    const categories = (await breakdown('business_category', 8)).toArray();
+    const areas = (await breakdown('area_of_delivery', 10)).toArray();
+    const rank = await this.runQuery(`
+      SELECT rank, rank_of FROM (
+        SELECT
+          ${column} as name,
+          RANK() OVER (ORDER BY COALESCE(SUM(contract_amount), 0) DESC) as rank,
+          COUNT(*) OVER () as rank_of
+        FROM contracts
+        WHERE NULLIF(${column}, '') IS NOT NULL
+        GROUP BY 1
+      )
+      WHERE name = ?
+    `, [name]);
+    const trend = await this.getSpendingTrend({ [kind]: name }, 'year');
+    const largest = await this.searchContracts({ [kind]: name, sort: { key: 'amount', direction: 'desc' }, limit: 10 });
+
+    const row = totals.toArray()[0];
+    const ranking = rank.toArray()[0];
+    return {
+      kind,
+      name,
+      contracts: Number(row.contracts),
+      amount: Number(row.amount),
+      firstAward: dateFromEpoch(row.first_award),
+      lastAward: dateFromEpoch(row.last_award),
+      counterparties: toShares(counterparties),
+      counterpartyCount: Number(counterparties[0]?.groups ?? 0),
+      categories: toShares(categories),
+      areas: toShares(areas),
+      areaCount: Number(areas[0]?.groups ?? 0),
+      trend,
+      largest,
+      rank: Number(ranking?.rank ?? 0),
+      rankOf: Number(ranking?.rank_of ?? 0),
+    };
+  }
+
+  // Resolved agency or supplier names containing the text, most contracts first
+  async suggestEntityNames(kind: EntityKind, text: string, limit = 8): Promise<string[]> {
+    if (!this.conn) throw new Error('Not connected');
+
+    const column = kind === 'awardee' ? 'awardee_entity' : 'organization_entity';
+    const result = await this.runQuery(`
+      SELECT ${column} as name
+      FROM contracts
+      WHERE contains(LOWER(${column}), ?)
+      GROUP BY 1
+      ORDER BY COUNT(*) DESC
+      LIMIT ?
+    `, [text.toLowerCase(), limit]);
+
+    return result.toArray().map((row) => String(row.name));
+  }
+
+  // Contract counts and value for each watched supplier or agency, by resolved name.
+  // Awards after an entry's seenThrough date count as new; undated awards never do.
+  async getWatchlistActivity(watched: WatchedEntity[]): Promise<WatchActivity[]> {
+    if (!this.conn) throw new Error('Not connected');
+    if (watched.length === 0) return [];
+
+    const result = await this.runQuery(`
+      WITH watched AS (
+        SELECT * FROM (VALUES ${watched.map(() => '(CAST(? AS VARCHAR), CAST(? AS VARCHAR), CAST(? AS DATE))').join(', ')})
+          AS w(kind, name, seen_through)
+      ),
+      matched AS (
+        SELECT 'awardee' AS kind, awardee_entity AS name, contract_amount, award_date
+        FROM contracts
+        WHERE awardee_entity IN (SELECT name FROM watched WHERE kind = 'awardee')
+        UNION ALL
+        SELECT 'organization', organization_entity, contract_amount, award_date
+        FROM contracts
+        WHERE organization_entity IN (SELECT name FROM watched WHERE kind = 'organization')
+      ),
+      flagged AS (
+        SELECT m.*, m.award_date > COALESCE(w.seen_through, DATE '0001-01-01') AS is_new
+        FROM watched w
+        JOIN matched m ON m.kind = w.kind AND m.name = w.name
+      )
+      SELECT
+        w.kind,
+        w.name,
+        COUNT(f.name) as contracts,
+        COALESCE(SUM(f.contract_amount), 0) as amount,
+        COUNT(f.name) FILTER (WHERE f.is_new) as new_contracts,
+        COALESCE(SUM(f.contract_amount) FILTER (WHERE f.is_new), 0) as new_amount,
+        epoch_ms(MAX(f.award_date)) as latest
+      FROM watched w
+      LEFT JOIN flagged f ON f.kind = w.kind AND f.name = w.name
+      GROUP BY w.kind, w.name
+      ORDER BY new_contracts DESC, latest DESC NULLS LAST, w.name
+    `, watched.flatMap((w) => [w.kind, w.name, w.seenThrough]));
+
+    return result.toArray().map((row) => ({
+      kind: String(row.kind) as EntityKind,
+      name: String(row.name),
+      contracts: Number(row.contracts),
+      amount: Number(row.amount),
+      newContracts: Number(row.new_contracts),
+      newAmount: Number(row.new_amount),
+      latest: dateFromEpoch(row.latest),
+    }));
+  }
+
+  // Reference areas whose name contains the text, regions before provinces before towns
+  async suggestAreaNames(text: string, limit = 8): Promise<Array<{ name: string; level: AreaLevel }>> {
+    if (!this.conn) throw new Error('Not connected');
+
+    const result = await this.runQuery(`
+      SELECT name, level
+      FROM area_reference
+      WHERE contains(LOWER(name), ?)
+      ORDER BY len(path), name
+      LIMIT ?
+    `, [text.toLowerCase(), limit]);
+
+    return result.toArray().map((row) => ({ name: String(row.name), level: String(row.level) as AreaLevel }));
+  }
+
+  // Codes from the region down to the given reference area; empty for an unknown code
+  async getAreaPath(code: string): Promise<string[]> {
+    if (!this.conn) throw new Error('Not connected');
+
+    const result = await this.runQuery('SELECT path FROM area_reference WHERE code = ?', [code]);
+    const path = result.toArray()[0]?.path;
+    return path ? Array.from(path as Iterable<unknown>, String) : [];
+  }
+
+  async getDataQualityReport(): Promise<DataQualityReport> {
+    if (!this.conn) throw new Error('Not connected');
+
+    const missingResult = await this.conn.query(`
+      SELECT
+        COUNT(*) as total_rows,
+        ${CONTRACT_FIELDS.map((f) => `COUNT(*) FILTER (WHERE ${isBlank(f.name)}) as ${f.name}`).join(',\n        ')}
+      FROM contracts
+    `);
+    const row = missingResult.toArray()[0];
+    const totalRows = Number(row.total_rows);
+    const columns = CONTRACT_FIELDS.map((f) => ({ field: f.name, missing: Number(row[f.name]) }));
+
+    const issues: QualityIssue[] = [
+      ...CONTRACT_FIELDS.filter((f) => f.required).map((f) => ({ kind: 'missing' as const, field: f.name })),
+      { kind: 'non_positive_amount' },
+      { kind: 'unparsed_date' },
+      { kind: 'date_out_of_range' },
+      { kind: 'duplicate_reference' },
+      { kind: 'unusual_status' },
+    ];
+    const checks: QualityCheck[] = [];
+    for (const issue of issues) {
+      const result = await this.conn.query(
+        `SELECT COUNT(*) as cnt FROM contracts WHERE ${qualityIssuePredicate(issue)}`
+      );
+      checks.push({ issue, ...describeQualityIssue(issue), count: Number(result.toArray()[0]?.cnt ?? 0) });
+    }
+
+    const statusResult = await this.conn.query(`
+      SELECT award_status as status, COUNT(*) as count
+      FROM contracts
+      WHERE ${qualityIssuePredicate({ kind: 'unusual_status' })}
+      GROUP BY award_status
+      ORDER BY count DESC
+    `);
+
+    return {
+      totalRows,
+      columns,
+      checks,
+      unusualStatuses: statusResult.toArray().map((r) => ({
+        status: String(r.status),
+        count: Number(r.count),
+      })),
+    };
+  }
+
+  // Runs a statement with `?` placeholders bound to params
+  private async runQuery(sql: string, params: SqlParam[]): ReturnType<duckdb.AsyncPreparedStatement['query']> {
+    const statement = await this.conn!.prepare(sql);
+    try {
+      return await statement.query(...params);
+    } finally {
+      await statement.close();
+    }
+  }
+
+  async searchContracts(
+    options: ContractFilter & { sort?: ContractSort; limit?: number; offset?: number }
+  ): Promise<Contract[]> {
+    if (!this.conn) throw new Error('Not connected');
+
+    const { sort = DEFAULT_CONTRACT_SORT, limit = 50, offset = 0, ...filter } = options;
+    const { source, where, params, ranked } = buildContractFilter(filter, this.fullTextReady, this.stopwords);
+    const { key, direction } = sort.key === 'relevance' && !ranked ? { key: 'amount' as const, direction: 'desc' as const } : sort;
+    // Ties fall back to amount, then row_key, so LIMIT/OFFSET pages never overlap
+    const orderBy = [
+      `${CONTRACT_SORTS[key].column} ${direction.toUpperCase()} NULLS LAST`,
+      ...(key === 'amount' ? [] : ['contract_amount DESC']),
+      'row_key',
+    ].join(', ');
+
+    const result = await this.runQuery(`
+      SELECT ${CONTRACT_COLUMNS}
+      FROM ${source}
+      ${where}
+      ORDER BY ${orderBy}
+      LIMIT ? OFFSET ?
+    `, [...params, limit, offset]);
+
+    return result.toArray().map(rowToContract);
+  }
+
+  // A single contract by the id searchContracts gives it, e.g. from a shared link
+  async getContract(id: string): Promise<Contract | null> {
+    if (!this.conn) throw new Error('Not connected');
+
+    const result = await this.runQuery(`
+      SELECT * FROM (SELECT ${CONTRACT_COLUMNS} FROM contracts)
+      WHERE id = ?
+      LIMIT 1
+    `, [id]);
+
+    const row = result.toArray()[0];
+    return row ? rowToContract(row) : null;
+  }
+
+  async getContractCount(filter: ContractFilter): Promise<number> {
+    if (!this.conn) throw new Error('Not connected');
+
+    const { source, where, params } = buildContractFilter(filter, this.fullTextReady, this.stopwords);
+    const result = await this.runQuery(`SELECT COUNT(*) as cnt FROM ${source} ${where}`, params);
+    const count = result.toArray()[0]?.cnt;
+    return typeof count === 'bigint' ? Number(count) : (count ?? 0);
+  }
+
+  isReady(): boolean {
+    return this.initialized && this.conn !== null;
+  }
+}
+
+const duckDBService = new DuckDBService();
+
+// ============================================================================
+// Query Scheduler
+// ============================================================================
+
+const QUERY_SCHEDULER_CONFIG = {
+  TYPING_DEBOUNCE_MS: 250,        // Wait for a pause in typing before searching
+  SUGGESTION_DEBOUNCE_MS: 120,
+};
+
+const QUERY_CHANNELS = {
+  CONTRACT_LIST: 'contract-list',
+  SUGGESTIONS: 'suggestions',
+  FILTER_SUGGESTIONS: 'filter-suggestions',
+  TRENDS: 'trends',
+  PROFILE: 'profile',
+  CONCENTRATION: 'concentration',
+  CONCENTRATION_SUPPLIERS: 'concentration-suppliers',
+  RED_FLAGS: 'red-flags',
+  BENFORD: 'benford',
+} as const;
+
+type QueryChannel = typeof QUERY_CHANNELS[keyof typeof QUERY_CHANNELS];
+
+class QueryCancelledError extends Error {
+  constructor() {
+    super('The query was superseded by a newer one.');
+    this.name = 'QueryCancelledError';
+  }
+}
+
+// One request per channel; its queries wait for `ready` (the debounce) before running
+interface QueryTicket {
+  channel: QueryChannel;
+  signal: AbortSignal;
+  ready: Promise<void>;
+}
+
+// Sits between the UI and DuckDBService. Starting a request on a channel supersedes
+// the one before it: queries it has not sent yet are skipped, and results of queries
+// already running are discarded. DuckDB-WASM cannot interrupt a prepared statement,
+// so dropping work before it is sent is what keeps a fast typist from queueing scans.
+class QueryScheduler {
+  private current = new Map<QueryChannel, AbortController>();
+  private running = new Map<QueryChannel, number>();
+  private listeners = new Set<() => void>();
+
+  start(channel: QueryChannel, debounceMs = 0): QueryTicket {
+    this.current.get(channel)?.abort();
+    const controller = new AbortController();
+    this.current.set(channel, controller);
+
+    const { signal } = controller;
+    const ready = new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, debounceMs);
+      signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new QueryCancelledError());
+      });
+    });
+    // A ticket superseded before anything ran on it is not an error
+    ready.catch(() => undefined);
+
+    return { channel, signal, ready };
+  }
+
+  // Rejects with QueryCancelledError when the ticket is superseded before or while the task runs
+  async run<T>(ticket: QueryTicket, task: () => Promise<T>): Promise<T> {
+    this.track(ticket.channel, 1);
+    try {
+      await ticket.ready;
+      const result = await task();
+      if (ticket.signal.aborted) throw new QueryCancelledError();
+      return result;
+    } finally {
+      this.track(ticket.channel, -1);
+    }
+  }
+
+  // True while a request on the channel is waiting out its debounce or running
+  isBusy(channel: QueryChannel): boolean {
+    return (this.running.get(channel) ?? 0) > 0;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private track(channel: QueryChannel, delta: number): void {
+    this.running.set(channel, (this.running.get(channel) ?? 0) + delta);
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+const queryScheduler = new QueryScheduler();
+
+// ============================================================================
+// Main Application Component
+// ============================================================================
+
+export default function App() {
+  // Data State
+  const [isDataLoading, setIsDataLoading] = useState(false);
+  const [isCancellingLoad, setIsCancellingLoad] = useState(false);
+  const [dataLoaded, setDataLoaded] = useState(false);
+  const [dataError, setDataError] = useState<string | null>(null);
+  const [stats, setStats] = useState<DataStats | null>(null);
+  const [areaBreakdown, setAreaBreakdown] = useState<AreaNode[]>([]);
+  const [categoryBreakdown, setCategoryBreakdown] = useState<Array<{ category: string; count: number; amount: number }>>([]);
+  const [yearBreakdown, setYearBreakdown] = useState<Array<{ year: number; count: number; amount: number }>>([]);
+  const [contractBlocks, setContractBlocks] = useState<Map<number, Contract[]>>(new Map());
+  const [totalFilteredCount, setTotalFilteredCount] = useState(0);
+  const [loadingProgress, setLoadingProgress] = useState('');
+  const [loadingFraction, setLoadingFraction] = useState<number | null>(null);
+  const [schemaReport, setSchemaReport] = useState<SchemaReport | null>(null);
+  const [qualityReport, setQualityReport] = useState<DataQualityReport | null>(null);
+
+  // UI State
+  const [activeTab, setActiveTab] = useState<ContentTab>('insights');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchHighlight, setSearchHighlight] = useState<SearchHighlight | null>(null);
+  const [searchCursor, setSearchCursor] = useState(0);
+  const [searchFocused, setSearchFocused] = useState(false);
+  const [querySuggestions, setQuerySuggestions] = useState<QuerySuggestion[]>([]);
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
+  const [sortOrder, setSortOrder] = useState<ContractSort>(DEFAULT_CONTRACT_SORT);
+  const [advancedFilters, setAdvancedFilters] = useState<AdvancedFilters>({});
+  const [filterOptions, setFilterOptions] = useState<FilterOptions>({ categories: [], statuses: [] });
+  const [showFilterPanel, setShowFilterPanel] = useState(false);
+  const [categorySearch, setCategorySearch] = useState('');
+  const [entityDrafts, setEntityDrafts] = useState<Record<EntityKind, string>>({ awardee: '', organization: '' });
+  const [amountDrafts, setAmountDrafts] = useState<Record<AmountBound, string>>({ amountMin: '', amountMax: '' });
+  const [entitySuggestions, setEntitySuggestions] = useState<Record<EntityKind, string[]>>({ awardee: [], organization: [] });
+  const [selectedArea, setSelectedArea] = useState<AreaNode | null>(null);
+  const [areaDrillPath, setAreaDrillPath] = useState<AreaNode[]>([]);
+  const [qualityFilter, setQualityFilter] = useState<QualityCheck | null>(null);
+  const [selectedContract, setSelectedContract] = useState<Contract | null>(null);
+  const [listWindow, setListWindow] = useState({ first: 0, visible: 8, shift: 0 });
+  const [restingRow, setRestingRow] = useState(0);
+  const [listScrollRequest, setListScrollRequest] = useState<{ row: number } | null>(null);
+  const [contractListVersion, setContractListVersion] = useState(0);
+  const [jumpToRow, setJumpToRow] = useState('');
+  const [isSearching, setIsSearching] = useState(false);
+  const [trendGranularity, setTrendGranularity] = useState<TrendGranularity>('year');
+  const [trendMetric, setTrendMetric] = useState<'amount' | 'count'>('amount');
+  const [spendingTrend, setSpendingTrend] = useState<TrendPoint[]>([]);
+  const [selectedTrendPeriod, setSelectedTrendPeriod] = useState<number | null>(null);
+  const [entityProfile, setEntityProfile] = useState<EntityProfile | null>(null);
+  const [profileTarget, setProfileTarget] = useState<{ kind: EntityKind; name: string } | null>(null);
+  const [concentrationDimension, setConcentrationDimension] = useState<ConcentrationDimension>('organization');
+  const [concentration, setConcentration] = useState<{ scores: ConcentrationScore[]; groups: number } | null>(null);
+  const [expandedConcentration, setExpandedConcentration] = useState<string | null>(null);
+  const [concentrationSuppliers, setConcentrationSuppliers] = useState<ProfileShare[] | null>(null);
+  const [analysisView, setAnalysisView] = useState<AnalysisView>('concentration');
+  const [redFlagSettings, setRedFlagSettings] = useState<RedFlagSettings>(
+    () => loadRedFlagSettings(storage.get<Partial<RedFlagSettings> | null>(STORAGE_KEYS.RED_FLAG_SETTINGS, null))
+  );
+  const [redFlags, setRedFlags] = useState<RedFlag[] | null>(null);
+  const [showRedFlagRules, setShowRedFlagRules] = useState(false);
+  const [ruleParamDrafts, setRuleParamDrafts] = useState<Record<string, string>>({});
+  const [flagFilter, setFlagFilter] = useState<{ id: string; label: string; rowKeys: number[] } | null>(null);
+  const [benfordDigits, setBenfordDigits] = useState<BenfordDigits>(1);
+  const [benfordDimension, setBenfordDimension] = useState<BenfordDimension>('organization');
+  const [benford, setBenford] = useState<{ test: BenfordTest; deviations: BenfordDeviation[] } | null>(null);
+  const [benfordError, setBenfordError] = useState<string | null>(null);
+  const [showChatModal, setShowChatModal] = useState(false);
+
+  // API Key State
+  const [apiKey, setApiKey] = useState<string>(() => storage.get(STORAGE_KEYS.API_KEY, ''));
+  const [showApiKeyModal, setShowApiKeyModal] = useState(false);
+  const [apiKeyInput, setApiKeyInput] = useState('');
+  const [showApiKey, setShowApiKey] = useState(false);
+  const [isValidatingKey, setIsValidatingKey] = useState(false);
+  const [keyError, setKeyError] = useState<string | null>(null);
+
+  // Chat State with Memory
+  const [conversationMemory, setConversationMemory] = useState<ConversationMemory>(() => {
+    const saved = storage.get<ConversationMemory>(STORAGE_KEYS.CONVERSATION_MEMORY, DEFAULT_MEMORY);
+    if (saved.recentMessages.length === 0) {
+      return {
+        ...DEFAULT_MEMORY,
+        recentMessages: [{
+          id: generateId(),
+          role: 'assistant',
+          content: `Magandang araw! I'm SpendWatch AI, your intelligent guide to Philippine government procurement data.
+
+I can help you explore:
+- **Spending patterns** across provinces and categories
+- **Contract details** and supplier information
+- **Trends and anomalies** in procurement data
+- **Comparative analysis** between agencies
+
+Ask me anything about government spending!`,
+          timestamp: new Date(),
+        }],
+      };
+    }
+    return {
+      ...saved,
+      recentMessages: saved.recentMessages.map(m => ({ ...m, timestamp: new Date(m.timestamp) })),
+    };
+  });
+  const [chatInput, setChatInput] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [streamingContent, setStreamingContent] = useState('');
+
+  // Derived: All chat messages for display
+  const chatMessages = conversationMemory.recentMessages;
+
+  // News Search State
+  const [showNewsPanel, setShowNewsPanel] = useState(false);
+  const [newsQuery, setNewsQuery] = useState('');
+
+  // Dataset Catalog State
+  const [datasets, setDatasets] = useState<DatasetEntry[]>([]);
+  const [activeDatasetIds, setActiveDatasetIds] = useState<string[]>([]);
+  const [showDatasetPanel, setShowDatasetPanel] = useState(false);
+  const [datasetSelection, setDatasetSelection] = useState<string[]>([]);
+  const appendNextUploadRef = useRef(false);
+
+  // Entity Review State
+  const [entityMatches, setEntityMatches] = useState<EntityMatch[]>([]);
+  const [showEntityReview, setShowEntityReview] = useState(false);
+  const [entityReviewKind, setEntityReviewKind] = useState<EntityKind>('awardee');
+  const [entityReviewLimit, setEntityReviewLimit] = useState<number>(ENTITY_CONFIG.REVIEW_PAGE_SIZE);
+
+  // SQL Console State
+  const [showSqlConsole, setShowSqlConsole] = useState(false);
+  const [sqlText, setSqlText] = useState(SQL_CONSOLE_CONFIG.DEFAULT_QUERY);
+  const [sqlResult, setSqlResult] = useState<SqlConsoleResult | null>(null);
+  const [sqlError, setSqlError] = useState<string | null>(null);
+  const [sqlRunning, setSqlRunning] = useState(false);
+  const [sqlNotice, setSqlNotice] = useState<string | null>(null);
+  const [sqlHistory, setSqlHistory] = useState<SqlHistoryEntry[]>(
+    () => storage.get<SqlHistoryEntry[]>(STORAGE_KEYS.SQL_HISTORY, [])
+  );
+
+  // Dataset Cache State
+  const [recentDatasets, setRecentDatasets] = useState<CachedDataset[]>([]);
+  const [showRecentDatasets, setShowRecentDatasets] = useState(false);
+
+  // Shared Link State
+  const [linkedDatasets, setLinkedDatasets] = useState<string[] | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  // Saved Search and Watchlist State
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>(
+    () => storage.get<SavedSearch[]>(STORAGE_KEYS.SAVED_SEARCHES, [])
+  );
+  const [showSavedSearches, setShowSavedSearches] = useState(false);
+  const [savedSearchName, setSavedSearchName] = useState('');
+  const [watchlist, setWatchlist] = useState<WatchedEntity[]>(
+    () => storage.get<WatchedEntity[]>(STORAGE_KEYS.WATCHLIST, [])
+  );
+  const [watchActivity, setWatchActivity] = useState<WatchActivity[]>([]);
+
+  // CSV Import State
+  const [csvImport, setCsvImport] = useState<{
+    file: File;
+    inspection: CsvInspection;
+    mapping: ColumnMapping;
+    append: boolean;
+    error: string | null;         // Set when a format change could not be read; the previous one stays
+  } | null>(null);
+
+  // Refs
+  const chatEndRef = useRef<HTMLDivElement>(null);
+  const hasInitialized = useRef(false);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const sqlHighlightRef = useRef<HTMLPreElement>(null);
+  const loadAbortRef = useRef<AbortController | null>(null);
+  const pendingViewRef = useRef<LinkedView | null>(null);
+  const openingLinkRef = useRef(false);
+  const tabScrollRef = useRef<HTMLDivElement>(null);
+  const contractListRef = useRef<HTMLDivElement | null>(null);
+  const listTicketRef = useRef<QueryTicket | null>(null);
+  const listQueryTextRef = useRef('');
+  const requestedBlocksRef = useRef(new Set<number>());
+  const pendingRowRef = useRef<number | null>(null);
+  const pendingScrollRef = useRef<number | null>(null);
+  const listRowsRef = useRef(0);
+  const scrollSettleRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const amountCommitRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const sqlAbortRef = useRef<AbortController | null>(null);
+  const ruleParamCommitRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Fetch stats and breakdowns for whatever is in the contracts table
+  const refreshDataViews = useCallback(async () => {
+    const [statsData, areas, categories, years, quality, options] = await Promise.all([
+      duckDBService.getStats(),
+      duckDBService.getAreaBreakdown(),
+      duckDBService.getCategoryBreakdown(),
+      duckDBService.getYearBreakdown(),
+      duckDBService.getDataQualityReport(),
+      duckDBService.getFilterOptions(),
+    ]);
+
+    setStats(statsData);
+    setAreaBreakdown(areas);
+    setAreaDrillPath([]);
+    setSelectedArea(null);
+    setCategoryBreakdown(categories);
+    setYearBreakdown(years);
+    setSchemaReport(duckDBService.getSchemaReport());
+    setQualityReport(quality);
+    setQualityFilter(null);
+    setFlagFilter(null);
+    setFilterOptions(options);
+    setAdvancedFilters({});
+    setEntityDrafts({ awardee: '', organization: '' });
+    setDatasets(duckDBService.listDatasets());
+    setActiveDatasetIds(duckDBService.getActiveDatasets().map((d) => d.id));
+    setEntityMatches(duckDBService.listEntityMatches());
+    setDataLoaded(true);
+  }, []);
+
+  // Load parquet data - auto-loads demo file by default
+  const loadData = useCallback(async (source: DataSource = { kind: 'demo' }, append = false) => {
+    if (isDataLoading) return;
+
+    const file = source.kind === 'parquet' || source.kind === 'csv' ? source.file : null;
+
+    // Reset state to show loading UI
+    setDataLoaded(false);
+    setIsDataLoading(true);
+    setDataError(null);
+    setLoadingProgress(file ? `Preparing to load ${file.name}...` : 'Initializing data engine...');
+    setLoadingFraction(null);
+    setShowRecentDatasets(false);
+    setLinkedDatasets(null);
+
+    // Clear existing data while loading
+    setContractBlocks(new Map());
+    setStats(null);
+    setAreaBreakdown([]);
+    setCategoryBreakdown([]);
+    setSchemaReport(null);
+
+    const abortController = new AbortController();
+    loadAbortRef.current = abortController;
+    const loadOptions: LoadOptions = {
+      append,
+      signal: abortController.signal,
+      onProgress: ({ message, fraction }) => {
+        if (abortController.signal.aborted) return;   // Keep "Cancelling..." on screen
+        setLoadingProgress(fraction !== null ? `${message} (${Math.round(fraction * 100)}%)` : message);
+        setLoadingFraction(fraction);
+      },
+    };
+
+    try {
+      await duckDBService.initialize();
+
+      let dataset: DatasetEntry;
+      // Source file to keep in the browser cache once the load succeeds
+      let cacheSource: File | null = null;
+      let cacheOptions: CsvImportOptions | undefined;
+
+      if (source.kind === 'csv') {
+        // Stream the uploaded CSV using the confirmed column mapping
+        setLoadingProgress(`Importing ${source.file.name}...`);
+        dataset = await duckDBService.loadCsvFromFile(source.file, source.options, loadOptions);
+        cacheSource = source.file;
+        cacheOptions = source.options;
+      } else if (source.kind === 'parquet') {
+        // Stream the uploaded parquet file from disk
+        setLoadingProgress(`Loading ${source.file.name}...`);
+        dataset = await duckDBService.loadParquetFromFile(source.file, loadOptions);
+        cacheSource = source.file;
+      } else if (source.kind === 'cached') {
+        setLoadingProgress(`Opening ${source.dataset.fileName} from the browser cache...`);
+        dataset = await duckDBService.openCachedDataset(source.dataset, loadOptions);
+      } else {
+        // Load demo data from public folder. It ships with the app, so it is not cached.
+        setLoadingProgress('Loading demo dataset (5,000 contracts)...');
+        const response = await fetch(DEMO_DATASET_URL);
+        const demoFile = new File([await response.blob()], 'philgeps_demo.parquet');
+        dataset = await duckDBService.loadParquetFromFile(demoFile, loadOptions);
+      }
+
+      setLoadingProgress(`Processing ${dataset.rowCount.toLocaleString()} contracts...`);
+      setLoadingFraction(null);
+
+      await refreshDataViews();
+      setLoadingProgress('');
+
+      // Keep a copy in persistent storage so a page reload can reopen it. A dataset
+      // opened from the cache already has its hash and its copy.
+      if (cacheSource) {
+        duckDBService.cacheDataset(dataset.id, cacheSource, cacheOptions)
+          .then(() => setRecentDatasets(duckDBService.listCachedDatasets()))
+          .catch((error) => console.error('Failed to cache dataset:', error));
+      } else {
+        setRecentDatasets(duckDBService.listCachedDatasets());
+      }
+    } catch (error) {
+      if (error instanceof LoadCancelledError && await duckDBService.hasContracts()) {
+        // The previous dataset is still in place, so go back to it
+        await refreshDataViews();
+      } else {
+        console.error('Failed to load data:', error);
+        setDataError(error instanceof Error ? error.message : 'Failed to load data.');
+      }
+      setLoadingProgress('');
+    } finally {
+      loadAbortRef.current = null;
+      setLoadingFraction(null);
+      setIsDataLoading(false);
+      setIsCancellingLoad(false);
+    }
+  }, [isDataLoading, refreshDataViews]);
+
+  const cancelLoad = () => {
+    loadAbortRef.current?.abort();
+    setIsCancellingLoad(true);
+    setLoadingProgress('Cancelling...');
+  };
+
+  // File upload handler with validation
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    // Validate file type
+    const validTypes = ['.parquet', '.csv'];
+    const extension = file.name.toLowerCase().slice(file.name.lastIndexOf('.'));
+
+    if (!validTypes.includes(extension)) {
+      setDataError('Invalid file type. Please upload a .parquet or .csv file.');
+      return;
+    }
+
+    // Validate file size (max 500MB)
+    if (file.size > 500 * 1024 * 1024) {
+      setDataError('File too large. Maximum size is 500MB.');
+      return;
+    }
+
+    // Reset file input
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+
+    // Clear any previous errors before loading
+    setDataError(null);
+
+    // "Add to view" uploads are combined with the datasets already on screen
+    const append = appendNextUploadRef.current;
+    appendNextUploadRef.current = false;
+
+    // CSV files go through the column-mapping step before the table is created
+    if (extension === '.csv') {
+      try {
+        const inspection = await inspectCsv(file);
+        setCsvImport({ file, inspection, mapping: suggestColumnMapping(inspection.columns), append, error: null });
+      } catch (error) {
+        console.error('Failed to inspect CSV:', error);
+        setDataError('Could not read the CSV file. Please check that it is a valid text file.');
+      }
+      return;
+    }
+
+    // Load the file
+    await loadData({ kind: 'parquet', file }, append);
+  }, [loadData]);
+
+  // Re-run detection when the user overrides the detected CSV format. Fields already
+  // mapped to a column that is still there keep it; the rest are suggested again.
+  const updateCsvFormat = useCallback(async (overrides: Partial<CsvFormat>) => {
+    if (!csvImport) return;
+    const { file, inspection, mapping } = csvImport;
+    try {
+      const next = await inspectCsv(file, {
+        encoding: inspection.encoding,
+        delimiter: inspection.delimiter,
+        headerRow: inspection.headerRow,
+        ...overrides,
+      });
+      const kept = Object.fromEntries(
+        Object.entries(mapping).filter(([, column]) => column !== undefined && next.columns.includes(column))
+      );
+      setCsvImport({
+        ...csvImport,
+        inspection: next,
+        mapping: { ...suggestColumnMapping(next.columns), ...kept },
+        error: null,
+      });
+    } catch (error) {
+      console.error('Failed to re-read CSV:', error);
+      setCsvImport({
+        ...csvImport,
+        error: `Could not read the file with that setting, so the previous one is kept. ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      });
+    }
+  }, [csvImport]);
+
+  const confirmCsvImport = async () => {
+    if (!csvImport) return;
+    const { file, inspection, mapping, append } = csvImport;
+    setCsvImport(null);
+    await loadData({
+      kind: 'csv',
+      file,
+      options: {
+        encoding: inspection.encoding,
+        delimiter: inspection.delimiter,
+        headerRow: inspection.headerRow,
+        mapping,
+      },
+    }, append);
+  };
+
+  // Put a different combination of loaded datasets on screen
+  const switchDatasets = async (ids: string[]) => {
+    setShowDatasetPanel(false);
+    setDataLoaded(false);
+    setIsDataLoading(true);
+    setDataError(null);
+    setLinkedDatasets(null);
+    setLoadingProgress(ids.length > 1 ? 'Combining datasets...' : 'Switching dataset...');
+
+    try {
+      await duckDBService.activateDatasets(ids);
+      await refreshDataViews();
+    } catch (error) {
+      console.error('Failed to switch datasets:', error);
+      setDataError(error instanceof Error ? error.message : 'Failed to switch datasets.');
+    } finally {
+      setLoadingProgress('');
+      setIsDataLoading(false);
+    }
+  };
+
+  const removeDataset = async (id: string) => {
+    try {
+      await duckDBService.removeDataset(id);
+    } catch (error) {
+      console.error('Failed to unload dataset:', error);
+      setShowDatasetPanel(false);
+      setDataLoaded(false);
+      setDataError(error instanceof Error ? error.message : 'Failed to unload dataset.');
+      return;
+    }
+    if (duckDBService.listDatasets().length > 0) {
+      await switchDatasets(duckDBService.getActiveDatasets().map((d) => d.id));
+      return;
+    }
+
+    // Nothing left to show: go back to the start screen
+    setShowDatasetPanel(false);
+    setDataLoaded(false);
+    setStats(null);
+    setDatasets([]);
+    setActiveDatasetIds([]);
+    setRecentDatasets(duckDBService.listCachedDatasets());
+    setShowRecentDatasets(true);
+  };
+
+  const decideEntityMatch = async (matchId: string, decision: EntityDecision | null) => {
+    try {
+      await duckDBService.setEntityDecision(matchId, decision);
+      setEntityMatches(duckDBService.listEntityMatches());
+      setStats(await duckDBService.getStats());
+      setContractListVersion((v) => v + 1);
+    } catch (error) {
+      console.error('Failed to update name match:', error);
+    }
+  };
+
+  const openFilePicker = (append: boolean) => {
+    appendNextUploadRef.current = append;
+    fileInputRef.current?.click();
+  };
+
+  const removeRecentDataset = async (hash: string) => {
+    await duckDBService.removeCachedDataset(hash);
+    setRecentDatasets(duckDBService.listCachedDatasets());
+  };
+
+  const missingCsvFields = csvImport
+    ? CONTRACT_FIELDS.filter((f) => f.required && !csvImport.mapping[f.name])
+    : [];
+
+  // Put a shared link's search, filters, area and tab on screen. The area is found
+  // level by level from its region so the breadcrumb matches a click-through.
+  const applyLinkedView = useCallback(async (view: LinkedView) => {
+    try {
+      let level = await duckDBService.getAreaBreakdown();
+      const drillPath: AreaNode[] = [];
+      let area: AreaNode | null = null;
+
+      if (view.areaCode) {
+        for (const code of await duckDBService.getAreaPath(view.areaCode)) {
+          const node = level.find((a) => a.code === code);
+          if (!node) break;
+          area = node;
+          if (!node.drillable) break;
+          drillPath.push(node);
+          level = await duckDBService.getAreaBreakdown(node);
+        }
+      } else if (view.areaName) {
+        area = level.find((a) => !a.code && a.name === view.areaName) ?? {
+          code: null, name: view.areaName, level: null, depth: 1, count: 0, amount: 0, drillable: false,
+        };
+      }
+
+      // A red flag is found again by running its rule over the view's other filters
+      const parsed = parseSearchInput(view.query);
+      const flagRule = RED_FLAG_RULE_IDS.find((id) => view.flag?.startsWith(`${id}:`));
+      const flagSettings = Object.fromEntries(RED_FLAG_RULE_IDS.map((id) => [
+        id, { ...redFlagSettings[id], enabled: id === flagRule },
+      ])) as RedFlagSettings;
+
+      const [issueCount, contract, flags] = await Promise.all([
+        view.issue ? duckDBService.getContractCount({ issue: view.issue }) : 0,
+        view.contractId ? duckDBService.getContract(view.contractId) : null,
+        flagRule ? duckDBService.getRedFlags(flagSettings, {
+          query: parsed.text || undefined,
+          clauses: parsed.clauses,
+          area: area && !area.code ? area.name : undefined,
+          areaCode: area?.code ?? undefined,
+          issue: view.issue ?? undefined,
+          ...view.filters,
+        }) : [],
+      ]);
+      const flag = flags.find((f) => f.id === view.flag);
+
+      setSearchQuery(view.query);
+      setAdvancedFilters(view.filters);
+      setEntityDrafts({ awardee: view.filters.awardee ?? '', organization: view.filters.organization ?? '' });
+      setSortOrder(view.sort);
+      setAreaBreakdown(level);
+      setAreaDrillPath(drillPath);
+      setSelectedArea(area);
+      setQualityFilter(view.issue && { issue: view.issue, ...describeQualityIssue(view.issue), count: issueCount });
+      setFlagFilter(flag ? redFlagFilter(flag) : null);
+      setActiveTab(view.tab);
+      pendingRowRef.current = view.row;
+      setContractListVersion((v) => v + 1);
+      if (contract) {
+        setNewsQuery(newsSearchQuery(contract));
+        setSelectedContract(contract);
+        setShowNewsPanel(true);
+      }
+      setLinkedDatasets(view.datasets);
+    } catch (error) {
+      console.error('Failed to restore linked view:', error);
+    }
+  }, [redFlagSettings]);
+
+  // Reopen the cached datasets a shared link was made with, then restore its view
+  const openLinkedDatasets = useCallback(async (linked: CachedDataset[]) => {
+    openingLinkRef.current = true;
+    try {
+      for (const [i, dataset] of linked.entries()) {
+        await loadData({ kind: 'cached', dataset }, i > 0);
+      }
+    } finally {
+      openingLinkRef.current = false;
+    }
+    const view = pendingViewRef.current;
+    pendingViewRef.current = null;
+    if (view && duckDBService.isReady()) await applyLinkedView(view);
+  }, [loadData, applyLinkedView]);
+
+  // Auto-load data on mount
+  useEffect(() => {
+    if (!hasInitialized.current && !dataLoaded && !isDataLoading) {
+      hasInitialized.current = true;
+      const view = decodeLinkedView(window.location.search);
+      pendingViewRef.current = view;
+      const cached = duckDBService.listCachedDatasets();
+      const linked = view?.datasets.map((prefix) => cached.find((d) => d.hash.startsWith(prefix))) ?? [];
+      if (linked.length > 0 && linked.every((d): d is CachedDataset => d !== undefined)) {
+        // A shared link opens its own datasets when this browser has them cached
+        openLinkedDatasets(linked);
+      } else if (cached.length > 0) {
+        // Offer to reopen a cached dataset instead of loading the demo again
+        setRecentDatasets(cached);
+        setShowRecentDatasets(true);
+      } else {
+        loadData();
+      }
+    }
+  }, [loadData, openLinkedDatasets, dataLoaded, isDataLoading]);
+
+  const parsedQuery = useMemo(() => parseSearchInput(searchQuery), [searchQuery]);
+
+  // Conditions shared by every block of the contract list and its count
+  const contractFilter = useMemo((): ContractFilter => ({
+    query: parsedQuery.text || undefined,
+    clauses: parsedQuery.clauses,
+    area: selectedArea && !selectedArea.code ? selectedArea.name : undefined,
+    areaCode: selectedArea?.code ?? undefined,
+    issue: qualityFilter?.issue,
+    rowKeys: flagFilter?.rowKeys,
+    ...advancedFilters,
+  }), [parsedQuery, selectedArea, qualityFilter, flagFilter, advancedFilters]);
+
+  // First row in view, how many rows fit and how far rows are drawn above their
+  // unscaled position, or null while the list is not on screen
+  const readListWindow = useCallback(() => {
+    const scroller = tabScrollRef.current;
+    const list = contractListRef.current;
+    if (!scroller || !list) return null;
+    const { ROW_HEIGHT } = CONTRACT_LIST_CONFIG;
+    const { scale } = contractListGeometry(listRowsRef.current, scroller.clientHeight);
+    const offset = Math.max(0, scroller.scrollTop - list.offsetTop);
+    return {
+      first: Math.floor((offset * scale) / ROW_HEIGHT),
+      visible: Math.ceil(scroller.clientHeight / ROW_HEIGHT) + 1,
+      shift: offset * (scale - 1),
+    };
+  }, []);
+
+  // State only changes when another row reaches the top, not on every scroll event
+  const measureListWindow = useCallback(() => {
+    const next = readListWindow();
+    if (next) setListWindow((prev) => (prev.first === next.first && prev.visible === next.visible ? prev : next));
+  }, [readListWindow]);
+
+  // Bring `row` to the top of the list; kept for later if the Contracts tab is not open
+  const scrollListTo = useCallback((row: number) => {
+    const scroller = tabScrollRef.current;
+    const list = contractListRef.current;
+    if (!scroller || !list) {
+      pendingScrollRef.current = row;
+      return;
+    }
+    pendingScrollRef.current = null;
+    const { scale } = contractListGeometry(listRowsRef.current, scroller.clientHeight);
+    // Rounded up so a scaled offset does not land just short of the row
+    scroller.scrollTop = row > 0 ? Math.ceil(list.offsetTop + (row * CONTRACT_LIST_CONFIG.ROW_HEIGHT) / scale) : 0;
+    measureListWindow();
+    setRestingRow(row);
+  }, [measureListWindow]);
+
+  const attachContractList = useCallback((node: HTMLDivElement | null) => {
+    contractListRef.current = node;
+    if (!node) return;
+    if (pendingScrollRef.current !== null) {
+      scrollListTo(pendingScrollRef.current);
+    } else {
+      measureListWindow();
+    }
+  }, [scrollListTo, measureListWindow]);
+
+  const handleTabScroll = useCallback(() => {
+    measureListWindow();
+    if (scrollSettleRef.current) clearTimeout(scrollSettleRef.current);
+    scrollSettleRef.current = setTimeout(() => {
+      const settled = readListWindow();
+      if (settled) setRestingRow(settled.first);
+    }, CONTRACT_LIST_CONFIG.SCROLL_SETTLE_MS);
+  }, [measureListWindow, readListWindow]);
+
+  // Open one level of the area hierarchy; an empty path is the region list
+  const showAreaLevel = useCallback(async (path: AreaNode[]) => {
+    try {
+      const parent = path.length > 0 ? path[path.length - 1] : null;
+      setAreaBreakdown(await duckDBService.getAreaBreakdown(parent));
+      setAreaDrillPath(path);
+      setSelectedArea(parent);
+    } catch (error) {
+      console.error('Area breakdown failed:', error);
+    }
+  }, []);
+
+  const selectArea = useCallback((node: AreaNode) => {
+    if (node.drillable) {
+      showAreaLevel([...areaDrillPath, node]);
+    } else {
+      setSelectedArea(isSameArea(selectedArea, node) ? null : node);
+    }
+  }, [areaDrillPath, selectedArea, showAreaLevel]);
+
+  // Effect: Autocomplete the field name or value under the cursor
+  useEffect(() => {
+    const ticket = queryScheduler.start(QUERY_CHANNELS.SUGGESTIONS, QUERY_SCHEDULER_CONFIG.SUGGESTION_DEBOUNCE_MS);
+    const token = queryTokenAt(searchQuery, searchCursor);
+    const field = token.field === null ? null : resolveQueryField(token.field);
+
+    const load = async (): Promise<QuerySuggestion[]> => {
+      if (!searchFocused || !dataLoaded) return [];
+      if (token.field === null) return suggestQueryFields(token);
+      if (!field) return [];
+
+      const needle = token.value.trim().toLowerCase();
+      switch (field) {
+        case 'amount':
+        case 'date':
+          return (QUERY_FIELD_EXAMPLES[field] ?? [])
+            .filter((example) => example.startsWith(needle))
+            .map((example) => queryValueSuggestion(token, field, example));
+        case 'category':
+        case 'status':
+          return (field === 'category' ? filterOptions.categories : filterOptions.statuses)
+            .filter((o) => o.value.toLowerCase().includes(needle))
+            .slice(0, 8)
+            .map((o) => queryValueSuggestion(token, field, o.value, `${o.count.toLocaleString()} contracts`));
+        case 'awardee':
+        case 'org':
+          if (!needle) return [];
+          return (await duckDBService.suggestEntityNames(field === 'org' ? 'organization' : 'awardee', needle))
+            .map((name) => queryValueSuggestion(token, field, name));
+        case 'area':
+          if (!needle) return [];
+          return (await duckDBService.suggestAreaNames(needle))
+            .map((a) => queryValueSuggestion(token, field, a.name, a.level));
+        default:
+          return [];
+      }
+    };
+
+    queryScheduler.run(ticket, load)
+      .then((suggestions) => {
+        // Nothing to offer once the value is typed out in full
+        const complete = suggestions.length === 1 && suggestions[0].insert.trim() === searchQuery.slice(token.start, token.end);
+        setQuerySuggestions(complete ? [] : suggestions);
+        setActiveSuggestion(0);
+      })
+      .catch((error) => {
+        if (!(error instanceof QueryCancelledError)) console.error('Autocomplete failed:', error);
+      });
+  }, [searchQuery, searchCursor, searchFocused, dataLoaded, filterOptions]);
+
+  const applySuggestion = useCallback((suggestion: QuerySuggestion) => {
+    const token = queryTokenAt(searchQuery, searchCursor);
+    const next = searchQuery.slice(0, token.start) + suggestion.insert + searchQuery.slice(token.end);
+    const cursor = token.start + suggestion.insert.length;
+    setSearchQuery(next);
+    setSearchCursor(cursor);
+    requestAnimationFrame(() => {
+      searchInputRef.current?.focus();
+      searchInputRef.current?.setSelectionRange(cursor, cursor);
+    });
+  }, [searchQuery, searchCursor]);
+
+  const handleSearchKeyDown = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (querySuggestions.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveSuggestion((i) => (i + step + querySuggestions.length) % querySuggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      applySuggestion(querySuggestions[activeSuggestion]);
+    } else if (e.key === 'Escape') {
+      setQuerySuggestions([]);
+    }
+  }, [querySuggestions, activeSuggestion, applySuggestion]);
+
+  const recordSqlHistory = useCallback((sql: string, rows: number | null) => {
+    setSqlHistory((prev) => {
+      const next = [{ sql, ranAt: new Date().toISOString(), rows }, ...prev.filter((h) => h.sql !== sql)]
+        .slice(0, SQL_CONSOLE_CONFIG.MAX_HISTORY);
+      storage.set(STORAGE_KEYS.SQL_HISTORY, next);
+      return next;
+    });
+  }, []);
+
+  const runSql = useCallback(async () => {
+    if (sqlRunning || !sqlText.trim()) return;
+    const controller = new AbortController();
+    sqlAbortRef.current = controller;
+    setSqlRunning(true);
+    setSqlError(null);
+    setSqlNotice(null);
+    try {
+      const result = await duckDBService.runReadOnlyQuery(sqlText, controller.signal);
+      setSqlResult(result);
+      recordSqlHistory(sqlText.trim(), result.rows.length);
+    } catch (error) {
+      setSqlResult(null);
+      setSqlError(error instanceof Error ? error.message : String(error));
+      if (!(error instanceof ConsoleCancelledError)) recordSqlHistory(sqlText.trim(), null);
+    } finally {
+      sqlAbortRef.current = null;
+      setSqlRunning(false);
+    }
+  }, [sqlText, sqlRunning, recordSqlHistory]);
+
+  const exportSqlCsv = useCallback(async () => {
+    if (sqlRunning) return;
+    const controller = new AbortController();
+    sqlAbortRef.current = controller;
+    setSqlRunning(true);
+    setSqlNotice(null);
+    try {
+      const { csv, capped } = await duckDBService.exportReadOnlyQueryCsv(sqlText, controller.signal);
+      const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+      downloadFile(csv as BlobPart, `spendwatch-query-${stamp}.csv`, 'text/csv');
+      if (capped) {
+        setSqlNotice(`The export stops at ${SQL_CONSOLE_CONFIG.MAX_EXPORT_ROWS.toLocaleString()} rows. Narrow the query or add a LIMIT to choose which.`);
+      }
+    } catch (error) {
+      if (!(error instanceof ConsoleCancelledError)) setSqlError(error instanceof Error ? error.message : String(error));
+    } finally {
+      sqlAbortRef.current = null;
+      setSqlRunning(false);
+    }
+  }, [sqlText, sqlRunning]);
+
+  const cancelSql = () => sqlAbortRef.current?.abort();
+
+  const updateFilters = useCallback((changes: Partial<AdvancedFilters>) => {
+    setAdvancedFilters((prev) => ({ ...prev, ...changes }));
+  }, []);
+
+  const editEntityFilter = useCallback((kind: EntityKind, text: string) => {
+    setEntityDrafts((prev) => ({ ...prev, [kind]: text }));
+    // Picking a suggestion from the list applies it right away
+    if (entitySuggestions[kind].includes(text)) {
+      updateFilters({ [kind]: text });
+    }
+
+    const ticket = queryScheduler.start(QUERY_CHANNELS.FILTER_SUGGESTIONS, QUERY_SCHEDULER_CONFIG.SUGGESTION_DEBOUNCE_MS);
+    queryScheduler.run(ticket, async () => (text.trim() ? duckDBService.suggestEntityNames(kind, text.trim()) : []))
+      .then((suggestions) => setEntitySuggestions((prev) => ({ ...prev, [kind]: suggestions })))
+      .catch((error) => {
+        if (!(error instanceof QueryCancelledError)) console.error('Autocomplete failed:', error);
+      });
+  }, [entitySuggestions, updateFilters]);
+
+  // Amount bounds are applied once typing pauses, or at once on blur and Enter
+  const commitAmountFilter = useCallback((bound: AmountBound, text: string) => {
+    if (amountCommitRef.current) clearTimeout(amountCommitRef.current);
+    amountCommitRef.current = null;
+    const value = text.trim() === '' ? undefined : Number(text);
+    if (value !== undefined && !Number.isFinite(value)) return;
+    setAdvancedFilters((prev) => (prev[bound] === value ? prev : { ...prev, [bound]: value }));
+  }, []);
+
+  const editAmountFilter = useCallback((bound: AmountBound, text: string) => {
+    setAmountDrafts((prev) => ({ ...prev, [bound]: text }));
+    if (amountCommitRef.current) clearTimeout(amountCommitRef.current);
+    amountCommitRef.current = setTimeout(
+      () => commitAmountFilter(bound, text),
+      QUERY_SCHEDULER_CONFIG.TYPING_DEBOUNCE_MS
+    );
+  }, [commitAmountFilter]);
+
+  // Effect: Follow amount bounds set elsewhere (chips, Clear all, links, saved searches).
+  // A draft that already parses to the bound is left as typed.
+  const { amountMin, amountMax } = advancedFilters;
+  useEffect(() => {
+    if (amountCommitRef.current) clearTimeout(amountCommitRef.current);
+    amountCommitRef.current = null;
+    const follow = (draft: string, value: number | undefined) =>
+      (draft.trim() === '' ? value === undefined : Number(draft) === value) ? draft : String(value ?? '');
+    setAmountDrafts((prev) => {
+      const next = { amountMin: follow(prev.amountMin, amountMin), amountMax: follow(prev.amountMax, amountMax) };
+      return next.amountMin === prev.amountMin && next.amountMax === prev.amountMax ? prev : next;
+    });
+  }, [amountMin, amountMax]);
+
+  const showQualityIssue = useCallback((check: QualityCheck) => {
+    setQualityFilter(check);
+    setActiveTab('contracts');
+  }, []);
+
+  // Effect: Start the contract list over when the filters or sort change. The count
+  // is queried once here; rows are fetched block by block as they scroll into view.
+  useEffect(() => {
+    if (!dataLoaded) return;
+    // Typing waits for a pause; clicks on filters, areas and sort apply at once
+    const typed = searchQuery !== listQueryTextRef.current;
+    listQueryTextRef.current = searchQuery;
+    const ticket = queryScheduler.start(
+      QUERY_CHANNELS.CONTRACT_LIST,
+      typed ? QUERY_SCHEDULER_CONFIG.TYPING_DEBOUNCE_MS : 0
+    );
+    listTicketRef.current = ticket;
+    requestedBlocksRef.current = new Set();
+    setContractBlocks(new Map());
+
+    // A restored link scrolls to its row once the count gives the list its height
+    const row = pendingRowRef.current ?? 0;
+    pendingRowRef.current = null;
+    if (row === 0) scrollListTo(0);
+
+    queryScheduler.run(ticket, () => Promise.all([
+      duckDBService.getContractCount(contractFilter),
+      duckDBService.getSearchHighlight(parsedQuery.text),
+    ]))
+      .then(([count, highlight]) => {
+        // Name and title clauses are marked as typed, like phrases
+        const clausePhrases = parsedQuery.clauses.flatMap((c) =>
+          !c.negated && (c.field === 'awardee' || c.field === 'org' || c.field === 'title') ? [c.value.toLowerCase()] : []
+        );
+        highlight.phrases.push(...clausePhrases);
+
+        listRowsRef.current = count;
+        setTotalFilteredCount(count);
+        setSearchHighlight(highlight.stems.length + highlight.phrases.length > 0 ? highlight : null);
+        if (row > 0) setListScrollRequest({ row: Math.min(row, Math.max(count - 1, 0)) });
+      })
+      .catch((error) => {
+        if (!(error instanceof QueryCancelledError)) console.error('Search failed:', error);
+      });
+  }, [contractFilter, sortOrder, dataLoaded, contractListVersion]);
+
+  // Effect: Chart the filtered contracts over time while the Insights tab is open
+  useEffect(() => {
+    if (!dataLoaded || activeTab !== 'insights') return;
+    const ticket = queryScheduler.start(QUERY_CHANNELS.TRENDS);
+    queryScheduler.run(ticket, () => duckDBService.getSpendingTrend(contractFilter, trendGranularity))
+      .then(setSpendingTrend)
+      .catch((error) => {
+        if (!(error instanceof QueryCancelledError)) console.error('Failed to load trends:', error);
+      });
+  }, [dataLoaded, activeTab, contractFilter, trendGranularity, contractListVersion]);
+
+  // The selected period, or the latest one
+  const trendFocus = useMemo(() => {
+    if (spendingTrend.length === 0) return null;
+    const index = spendingTrend.findIndex((point) => point.period.getTime() === selectedTrendPeriod);
+    return spendingTrend[index >= 0 ? index : spendingTrend.length - 1];
+  }, [spendingTrend, selectedTrendPeriod]);
+
+  const trendMax = useMemo(
+    () => Math.max(0, ...spendingTrend.map((point) => point[trendMetric])),
+    [spendingTrend, trendMetric]
+  );
+
+  const contractFilterActive = useMemo(
+    () => Object.values(contractFilter).some((value) => (Array.isArray(value) ? value.length > 0 : value !== undefined)),
+    [contractFilter]
+  );
+
+  // Keep the latest periods in view when the chart is wider than the panel
+  const attachTrendChart = useCallback((chart: HTMLDivElement | null) => {
+    if (chart) chart.scrollLeft = chart.scrollWidth;
+  }, []);
+
+  // Effect: Follow the contract list's requests for the "Searching..." indicator
+  useEffect(() => queryScheduler.subscribe(() => {
+    setIsSearching(queryScheduler.isBusy(QUERY_CHANNELS.CONTRACT_LIST));
+  }), []);
+
+  // Effect: Scroll once the list has been rendered at its new height
+  useEffect(() => {
+    if (listScrollRequest) scrollListTo(listScrollRequest.row);
+  }, [listScrollRequest, scrollListTo]);
+
+  const renderedRows = useMemo(() => {
+    const { OVERSCAN } = CONTRACT_LIST_CONFIG;
+    const first = Math.max(0, listWindow.first - OVERSCAN);
+    const last = Math.min(totalFilteredCount, listWindow.first + listWindow.visible + OVERSCAN);
+    return { first, last };
+  }, [listWindow, totalFilteredCount]);
+
+  // Effect: Fetch the blocks the rendered rows fall in, under the current list request
+  // so a newer filter drops them. The blocks furthest from the viewport are evicted.
+  useEffect(() => {
+    const ticket = listTicketRef.current;
+    if (!dataLoaded || !ticket) return;
+    const { BLOCK_SIZE, MAX_CACHED_BLOCKS } = CONTRACT_LIST_CONFIG;
+    const centre = Math.floor(listWindow.first / BLOCK_SIZE);
+
+    for (const block of blocksInRange(renderedRows.first, Math.max(renderedRows.last, 1))) {
+      if (requestedBlocksRef.current.has(block)) continue;
+      requestedBlocksRef.current.add(block);
+
+      queryScheduler.run(ticket, () => duckDBService.searchContracts({
+        ...contractFilter,
+        sort: sortOrder,
+        limit: BLOCK_SIZE,
+        offset: block * BLOCK_SIZE,
+      }))
+        .then((rows) => {
+          setContractBlocks((prev) => {
+            const next = new Map(prev).set(block, rows);
+            const byDistance = [...next.keys()].sort((a, b) => Math.abs(b - centre) - Math.abs(a - centre));
+            for (const evicted of byDistance.slice(0, Math.max(0, next.size - MAX_CACHED_BLOCKS))) {
+              next.delete(evicted);
+              requestedBlocksRef.current.delete(evicted);
+            }
+            return next;
+          });
+        })
+        .catch((error) => {
+          // A superseded request's blocks belong to a list that is already gone
+          if (error instanceof QueryCancelledError) return;
+          requestedBlocksRef.current.delete(block);
+          console.error('Search failed:', error);
+        });
+    }
+  }, [renderedRows, contractFilter, sortOrder, dataLoaded, contractListVersion]);
+
+  const jumpToPosition = () => {
+    const position = Math.floor(Number(jumpToRow));
+    if (!Number.isFinite(position) || totalFilteredCount === 0) return;
+    scrollListTo(Math.min(Math.max(position, 1), totalFilteredCount) - 1);
+    setJumpToRow('');
+  };
+
+  // Effect: Restore a shared link's view once the data it was opened with is on screen
+  useEffect(() => {
+    if (dataLoaded && !isDataLoading && pendingViewRef.current && !openingLinkRef.current) {
+      const view = pendingViewRef.current;
+      pendingViewRef.current = null;
+      applyLinkedView(view);
+    }
+  }, [dataLoaded, isDataLoading, applyLinkedView]);
+
+  // Content hashes arrive once a load is cached, which also refreshes recentDatasets
+  const activeDatasetHashes = useMemo(
+    () => duckDBService.getActiveDatasets().flatMap((d) => (d.hash ? [d.hash] : [])),
+    [activeDatasetIds, recentDatasets]
+  );
+
+  const currentView = useMemo((): LinkedView => ({
+    query: searchQuery,
+    areaCode: selectedArea?.code ?? null,
+    areaName: selectedArea && !selectedArea.code ? selectedArea.name : null,
+    tab: activeTab,
+    row: restingRow,
+    sort: sortOrder,
+    filters: advancedFilters,
+    issue: qualityFilter?.issue ?? null,
+    contractId: showNewsPanel && selectedContract ? selectedContract.id : null,
+    flag: flagFilter?.id ?? null,
+    datasets: activeDatasetHashes,
+  }), [
+    searchQuery, selectedArea, activeTab, restingRow, sortOrder, advancedFilters,
+    qualityFilter, showNewsPanel, selectedContract, flagFilter, activeDatasetHashes,
+  ]);
+
+  // Effect: Keep the address bar in step with the view so it can be copied at any time
+  useEffect(() => {
+    if (!dataLoaded || pendingViewRef.current) return;
+    const search = encodeLinkedView(currentView);
+    if (search !== window.location.search) {
+      window.history.replaceState(window.history.state, '', `${window.location.pathname}${search}${window.location.hash}`);
+    }
+  }, [dataLoaded, currentView]);
+
+  // A link made with other data restores its filters, but the results will differ
+  const linkDatasetMismatch = linkedDatasets !== null && linkedDatasets.length > 0
+    && activeDatasetHashes.length === activeDatasetIds.length
+    && (linkedDatasets.length !== activeDatasetHashes.length
+      || !linkedDatasets.every((prefix) => activeDatasetHashes.some((hash) => hash.startsWith(prefix))));
+
+  // The search part of the view: what it matches, not where it was opened
+  const currentSearchParams = encodeLinkedView({
+    ...currentView,
+    tab: VIEW_LINK_CONFIG.DEFAULT_TAB,
+    row: 0,
+    contractId: null,
+    datasets: [],
+  });
+
+  const saveCurrentSearch = () => {
+    const name = savedSearchName.trim();
+    if (!name || !currentSearchParams) return;
+    const summary = [
+      searchQuery.trim() && `"${searchQuery.trim()}"`,
+      selectedArea?.name,
+      ...filterChips.map((chip) => chip.label),
+      qualityFilter?.label,
+      flagFilter?.label,
+      sortOrder.key !== DEFAULT_CONTRACT_SORT.key && `Sorted by ${CONTRACT_SORTS[sortOrder.key].label.toLowerCase()}`,
+    ].filter(Boolean).join(' · ');
+
+    setSavedSearches((prev) => {
+      // Saving under an existing name replaces that search
+      const next = [
+        { id: generateId(), name, params: currentSearchParams, summary, savedAt: Date.now() },
+        ...prev.filter((saved) => saved.name.toLowerCase() !== name.toLowerCase()),
+      ];
+      storage.set(STORAGE_KEYS.SAVED_SEARCHES, next);
+      return next;
+    });
+    setSavedSearchName('');
+  };
+
+  const openSavedSearch = async (saved: SavedSearch) => {
+    const view = decodeLinkedView(saved.params);
+    if (!view) return;
+    setShowSavedSearches(false);
+    await applyLinkedView({ ...view, tab: 'contracts' });
+  };
+
+  const deleteSavedSearch = (id: string) => {
+    setSavedSearches((prev) => {
+      const next = prev.filter((saved) => saved.id !== id);
+      storage.set(STORAGE_KEYS.SAVED_SEARCHES, next);
+      return next;
+    });
+  };
+
+  const updateWatchlist = useCallback((update: (prev: WatchedEntity[]) => WatchedEntity[]) => {
+    setWatchlist((prev) => {
+      const next = update(prev);
+      storage.set(STORAGE_KEYS.WATCHLIST, next);
+      return next;
+    });
+  }, []);
+
+  const watchedKeys = useMemo(() => new Set(watchlist.map((w) => `${w.kind}:${w.name}`)), [watchlist]);
+
+  // Awards already in the data when an entity is added are not reported as new
+  const toggleWatch = async (kind: EntityKind, name: string) => {
+    if (watchedKeys.has(`${kind}:${name}`)) {
+      updateWatchlist((prev) => prev.filter((w) => w.kind !== kind || w.name !== name));
+      return;
+    }
+    try {
+      const entry: WatchedEntity = { kind, name, seenThrough: null, addedAt: Date.now() };
+      const [activity] = await duckDBService.getWatchlistActivity([entry]);
+      const seenThrough = activity?.latest ? toIsoDate(activity.latest) : null;
+      updateWatchlist((prev) => [...prev, { ...entry, seenThrough }]);
+    } catch (error) {
+      console.error('Failed to watch entity:', error);
+    }
+  };
+
+  // Acknowledge the new awards of one entity, or of all of them
+  const markWatchSeen = (target?: WatchActivity) => {
+    const latest = new Map(watchActivity.map((a) => [`${a.kind}:${a.name}`, a.latest]));
+    updateWatchlist((prev) => prev.map((w) => {
+      const seen = latest.get(`${w.kind}:${w.name}`);
+      if (!seen || (target && (target.kind !== w.kind || target.name !== w.name))) return w;
+      return { ...w, seenThrough: toIsoDate(seen) };
+    }));
+  };
+
+  const showEntityContracts = (kind: EntityKind, name: string) => {
+    updateFilters({ [kind]: name });
+    setEntityDrafts((prev) => ({ ...prev, [kind]: name }));
+    setActiveTab('contracts');
+  };
+
+  const openProfile = (kind: EntityKind, name: string) => {
+    setEntityProfile(null);
+    setProfileTarget({ kind, name });
+  };
+
+  const closeProfile = () => {
+    setProfileTarget(null);
+    setEntityProfile(null);
+  };
+
+  const profileTrendMax = useMemo(
+    () => Math.max(0, ...(entityProfile?.trend ?? []).map((point) => point.amount)),
+    [entityProfile]
+  );
+
+  // Effect: Score supplier concentration for the filtered contracts while the Analysis tab is open
+  useEffect(() => {
+    if (!dataLoaded || activeTab !== 'analysis') return;
+    const ticket = queryScheduler.start(QUERY_CHANNELS.CONCENTRATION);
+    queryScheduler.run(ticket, () => duckDBService.getConcentrationScores(concentrationDimension, contractFilter))
+      .then(setConcentration)
+      .catch((error) => {
+        if (!(error instanceof QueryCancelledError)) console.error('Failed to score concentration:', error);
+      });
+  }, [dataLoaded, activeTab, concentrationDimension, contractFilter, contractListVersion]);
+
+  // Effect: Load the suppliers behind the expanded score
+  useEffect(() => {
+    setConcentrationSuppliers(null);
+    if (!dataLoaded || !expandedConcentration) return;
+    const ticket = queryScheduler.start(QUERY_CHANNELS.CONCENTRATION_SUPPLIERS);
+    queryScheduler.run(ticket, () =>
+      duckDBService.getConcentrationSuppliers(concentrationDimension, expandedConcentration, contractFilter)
+    )
+      .then(setConcentrationSuppliers)
+      .catch((error) => {
+        if (!(error instanceof QueryCancelledError)) console.error('Failed to load suppliers:', error);
+      });
+  }, [dataLoaded, concentrationDimension, expandedConcentration, contractFilter, contractListVersion]);
+
+  // Effect: Run the red-flag rules while their view or the AI chat is open
+  const redFlagsWanted = (activeTab === 'analysis' && analysisView === 'flags') || showChatModal;
+  useEffect(() => {
+    if (!dataLoaded || !redFlagsWanted) return;
+    const ticket = queryScheduler.start(QUERY_CHANNELS.RED_FLAGS);
+    // Flags are found across the filtered contracts, not just those of the flag being viewed
+    queryScheduler.run(ticket, () => duckDBService.getRedFlags(redFlagSettings, { ...contractFilter, rowKeys: undefined }))
+      .then(setRedFlags)
+      .catch((error) => {
+        if (!(error instanceof QueryCancelledError)) console.error('Failed to run red-flag rules:', error);
+      });
+  }, [dataLoaded, redFlagsWanted, redFlagSettings, contractFilter, contractListVersion]);
+
+  // Effect: Run the Benford test and rank deviating entities while that view is open
+  useEffect(() => {
+    if (!dataLoaded || activeTab !== 'analysis' || analysisView !== 'benford') return;
+    const ticket = queryScheduler.start(QUERY_CHANNELS.BENFORD);
+    setBenfordError(null);
+    queryScheduler.run(ticket, async () => ({
+      test: await duckDBService.getBenfordTest(contractFilter, benfordDigits),
+      deviations: await duckDBService.getBenfordDeviations(contractFilter, benfordDigits, benfordDimension),
+    }))
+      .then(setBenford)
+      .catch((error) => {
+        if (error instanceof QueryCancelledError) return;
+        console.error('Benford analysis failed:', error);
+        setBenfordError(error instanceof Error ? error.message : String(error));
+      });
+  }, [dataLoaded, activeTab, analysisView, contractFilter, benfordDigits, benfordDimension, contractListVersion]);
+
+  // Narrows the test to one entity through the regular filters
+  const scopeBenford = (name: string) => {
+    if (benfordDimension === 'category') {
+      updateFilters({ categories: [name] });
+    } else {
+      updateFilters({ [benfordDimension]: name });
+      setEntityDrafts((prev) => ({ ...prev, [benfordDimension]: name }));
+    }
+  };
+
+  const benfordMax = useMemo(
+    () => Math.max(0, ...(benford?.test.bins ?? []).flatMap((bin) => [bin.share, bin.expected])),
+    [benford]
+  );
+
+  const updateRedFlagRule = (id: RedFlagRuleId, changes: { enabled?: boolean; params?: Record<string, number> }) => {
+    setRedFlagSettings((prev) => {
+      const next = {
+        ...prev,
+        [id]: { enabled: changes.enabled ?? prev[id].enabled, params: { ...prev[id].params, ...changes.params } },
+      };
+      storage.set(STORAGE_KEYS.RED_FLAG_SETTINGS, next);
+      return next;
+    });
+  };
+
+  const resetRedFlagRules = () => {
+    if (ruleParamCommitRef.current) clearTimeout(ruleParamCommitRef.current);
+    ruleParamCommitRef.current = null;
+    storage.remove(STORAGE_KEYS.RED_FLAG_SETTINGS);
+    setRedFlagSettings(loadRedFlagSettings(null));
+    setRuleParamDrafts({});
+  };
+
+  // Rule parameters are typed as text and applied once typing pauses if they parse to a
+  // number, clamped to the parameter's range. Blur and Enter apply at once and show the
+  // value in effect, which is the saved one when the text does not parse.
+  const applyRuleParam = (id: RedFlagRuleId, key: string, text: string) => {
+    const param = RED_FLAG_RULES[id].params.find((p) => p.key === key);
+    const parsed = Number(text);
+    if (!param || text.trim() === '' || !Number.isFinite(parsed)) return;
+    const value = clampRuleParam(param, parsed);
+    if (value !== redFlagSettings[id].params[key]) updateRedFlagRule(id, { params: { [key]: value } });
+  };
+
+  const editRuleParam = (id: RedFlagRuleId, key: string, text: string) => {
+    setRuleParamDrafts((prev) => ({ ...prev, [`${id}.${key}`]: text }));
+    if (ruleParamCommitRef.current) clearTimeout(ruleParamCommitRef.current);
+    ruleParamCommitRef.current = setTimeout(
+      () => applyRuleParam(id, key, text),
+      QUERY_SCHEDULER_CONFIG.TYPING_DEBOUNCE_MS
+    );
+  };
+
+  const commitRuleParam = (id: RedFlagRuleId, key: string) => {
+    const draftKey = `${id}.${key}`;
+    if (!(draftKey in ruleParamDrafts)) return;
+    if (ruleParamCommitRef.current) clearTimeout(ruleParamCommitRef.current);
+    ruleParamCommitRef.current = null;
+    applyRuleParam(id, key, ruleParamDrafts[draftKey]);
+    setRuleParamDrafts(({ [draftKey]: _, ...rest }) => rest);
+  };
+
+  const showFlagContracts = (flag: RedFlag) => {
+    setFlagFilter(redFlagFilter(flag));
+    setActiveTab('contracts');
+  };
+
+  const showConcentrationContracts = (name: string) => {
+    if (concentrationDimension === 'organization') {
+      showEntityContracts('organization', name);
+    } else {
+      updateFilters({ categories: [name] });
+      setActiveTab('contracts');
+    }
+  };
+
+  // Effect: Load the open profile, again whenever name matches change what it covers
+  useEffect(() => {
+    if (!dataLoaded || !profileTarget) return;
+    const ticket = queryScheduler.start(QUERY_CHANNELS.PROFILE);
+    queryScheduler.run(ticket, () => duckDBService.getEntityProfile(profileTarget.kind, profileTarget.name))
+      .then(setEntityProfile)
+      .catch((error) => {
+        if (!(error instanceof QueryCancelledError)) console.error('Failed to load profile:', error);
+      });
+  }, [dataLoaded, profileTarget, contractListVersion]);
+
+  // Effect: Refresh watchlist activity for the data on screen
+  useEffect(() => {
+    if (!dataLoaded) return;
+    duckDBService.getWatchlistActivity(watchlist)
+      .then(setWatchActivity)
+      .catch((error) => console.error('Watchlist activity failed:', error));
+  }, [dataLoaded, watchlist, entityMatches]);
+
+  const copyViewLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy link:', error);
+    }
+  };
+
+  // Relevance only applies to a free-text query with the full-text index loaded
+  const relevanceAvailable = Boolean(parsedQuery.text.trim()) && duckDBService.hasFullTextSearch();
+  const effectiveSort: ContractSort = sortOrder.key === 'relevance' && !relevanceAvailable
+    ? { key: 'amount', direction: 'desc' }
+    : sortOrder;
+
+  const filterChips = useMemo(() => describeAdvancedFilters(advancedFilters), [advancedFilters]);
+
+  const visibleCategoryOptions = useMemo(() => {
+    const needle = categorySearch.trim().toLowerCase();
+    return needle
+      ? filterOptions.categories.filter((c) => c.value.toLowerCase().includes(needle))
+      : filterOptions.categories;
+  }, [filterOptions, categorySearch]);
+
+  const pendingEntityMatches = useMemo(
+    () => entityMatches.filter((m) => m.method === 'fuzzy' && m.decision === null).length,
+    [entityMatches]
+  );
+
+  // Matches of the reviewed kind, with similar names still awaiting a decision first
+  const entityReviewMatches = useMemo(() => {
+    const isPending = (m: EntityMatch) => m.method === 'fuzzy' && m.decision === null;
+    return entityMatches
+      .filter((m) => m.kind === entityReviewKind)
+      .sort((a, b) => Number(isPending(b)) - Number(isPending(a)));
+  }, [entityMatches, entityReviewKind]);
+
+  // Computed values for the area grid
+  const maxAmount = useMemo(() => {
+    return Math.max(...areaBreakdown.map(a => a.amount), 1);
+  }, [areaBreakdown]);
+
+  // Contracts that name the open area but nothing below it ("Cebu" rather than "Cebu City")
+  const areaParentOnlyCount = useMemo(() => {
+    if (areaDrillPath.length === 0) return 0;
+    const parent = areaDrillPath[areaDrillPath.length - 1];
+    return parent.count - areaBreakdown.reduce((sum, a) => sum + a.count, 0);
+  }, [areaDrillPath, areaBreakdown]);
+
+  const topCategories = useMemo(() => {
+    return categoryBreakdown.slice(0, 5).map(c => [c.category, c.amount] as [string, number]);
+  }, [categoryBreakdown]);
+
+  // Persist conversation memory
+  useEffect(() => {
+    storage.set(STORAGE_KEYS.CONVERSATION_MEMORY, conversationMemory);
+  }, [conversationMemory]);
+
+  // Auto-scroll chat
+  useEffect(() => {
+    chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [chatMessages, streamingContent]);
+
+  // API Key Validation
+  const validateApiKey = async (key: string): Promise<boolean> => {
+    try {
+      const response = await fetch('https://api.anthropic.com/v1/messages', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': key,
+          'anthropic-version': '2023-06-01',
+          'anthropic-dangerous-direct-browser-access': 'true',
+        },
+        body: JSON.stringify({
+          model: 'claude-sonnet-4-5-20250929',
+          max_tokens: 10,
+          messages: [{ role: 'user', content: 'Hi' }],
+        }),
+      });
+
+      return response.ok || response.status === 429;
+    } catch {
+      return false;
+    }
+  };
+
+  const handleSaveApiKey = async () => {
+    if (!apiKeyInput.trim()) return;
+
+    if (!apiKeyInput.startsWith('sk-ant-')) {
+      setKeyError('Invalid API key format. Keys start with "sk-ant-"');
+      return;
+    }
+
+    setIsValidatingKey(true);
+    setKeyError(null);
+
+    const isValid = await validateApiKey(apiKeyInput);
+
+    if (isValid) {
+      setApiKey(apiKeyInput);
+      storage.set(STORAGE_KEYS.API_KEY, apiKeyInput);
+      setShowApiKeyModal(false);
+      setApiKeyInput('');
+    } else {
+      setKeyError('Invalid API key. Please check and try again.');
+    }
+
+    setIsValidatingKey(false);
+  };
+
+  const handleClearApiKey = () => {
+    setApiKey('');
+    storage.remove(STORAGE_KEYS.API_KEY);
+  };
+
+  // Build context for AI with memory
+  const buildDataContext = useCallback((): string => {
+    if (!stats) return 'No data loaded yet. The PhilGEPS parquet file is being loaded.';
+
+    let context = `=== PHILIPPINE GOVERNMENT PROCUREMENT DATA (PhilGEPS) ===
+
+DATA SUMMARY:
+- Total Contracts: ${stats.totalContracts.toLocaleString()}
+- Total Value: ${formatCurrency(stats.totalValue)}
+- Average Contract: ${formatCurrency(stats.avgValue)}
+- Unique Agencies: ${stats.uniqueOrgs.toLocaleString()}
+- Unique Suppliers: ${stats.uniqueAwardees.toLocaleString()}
+- Date Range: ${toIsoDate(stats.dateRange.earliest)} to ${toIsoDate(stats.dateRange.latest)}${
+  stats.undatedContracts > 0 ? ` (${stats.undatedContracts.toLocaleString()} contracts have no award date)` : ''}
+
+CONTRACTS BY AWARD YEAR:
+${yearBreakdown.map(y => `• ${y.year}: ${formatCurrency(y.amount)} (${y.count.toLocaleString()} contracts)`).join('\n')}
+
+TOP CATEGORIES BY VALUE:
+${topCategories.map(([c, v]) => `• ${c}: ${formatCurrency(v)}`).join('\n')}
+
+${areaDrillPath.length > 0 ? `AREAS IN ${areaDrillPath[areaDrillPath.length - 1].name.toUpperCase()}` : 'TOP REGIONS BY VALUE'}:
+${areaBreakdown.slice(0, 10).map(a => `• ${a.name}: ${formatCurrency(a.amount)} (${a.count.toLocaleString()} contracts)`).join('\n')}`;
+
+    // Deterministic findings, so questions about suspicious patterns rest on actual checks
+    if (redFlags && redFlags.length > 0) {
+      context += `\n\nRULE-BASED RED FLAGS (${redFlags.length} raised by fixed checks${contractFilterActive ? ' on the contracts matching the current filters' : ''}; most severe first):
+${redFlags.slice(0, 15).map(f => `• [${f.severity.toUpperCase()}] ${RED_FLAG_RULES[f.rule].label}: ${f.explanation}`).join('\n')}`;
+    }
+
+    // Add memory context if available
+    if (conversationMemory.summary) {
+      context += `\n\n=== CONVERSATION HISTORY SUMMARY ===\n${conversationMemory.summary}`;
+    }
+
+    if (conversationMemory.keyFacts.length > 0) {
+      context += `\n\n=== KEY FACTS FROM THIS CONVERSATION ===\n${conversationMemory.keyFacts.map(f => `• ${f}`).join('\n')}`;
+    }
+
+    if (conversationMemory.userPreferences.length > 0) {
+      context += `\n\n=== USER PREFERENCES ===\n${conversationMemory.userPreferences.map(p => `• ${p}`).join('\n')}`;
+    }
+
+    return context;
+  }, [stats, yearBreakdown, topCategories, areaBreakdown, areaDrillPath, redFlags, contractFilterActive, conversationMemory]);
+
+  // Generate conversation summary using AI
+  const generateConversationSummary = useCallback(async (messages: ChatMessage[]): Promise<string> => {
+    if (!apiKey || messages.length < 4) return '';
+
+    try {
+      const messagesToSummarize = messages.slice(0, -MEMORY_CONFIG.BUFFER_WINDOW_SIZE);
+      if (messagesToSummarize.length < 2) return conversationMemory.summary;
+
+      const response = await fetch('https://api.anthropic.com/v1/messages', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01',
+          'anthropic-dangerous-direct-browser-access': 'true',
+        },
+        body: JSON.stringify({
+          model: 'claude-sonnet-4-5-20250929',
+          max_tokens: 300,
+          messages: [{
+            role: 'user',
+            content: `Summarize this conversation about Philippine government procurement in 2-3 sentences. Focus on: topics discussed, any specific provinces/agencies/suppliers mentioned, and key insights shared.
+
+Conversation:
+${messagesToSummarize.map(m => `${m.role}: ${m.content}`).join('\n\n')}
+
+Summary:`,
+          }],
+        }),
+      });
+
+      if (!response.ok) return conversationMemory.summary;
+
+      const data = await response.json();
+      return data.content?.[0]?.text || conversationMemory.summary;
+    } catch {
+      return conversationMemory.summary;
+    }
+  }, [apiKey, conversationMemory.summary]);
+
+  // Chat Handler with Streaming and Memory Management
+  const handleChat = async () => {
+    if (!chatInput.trim() || isLoading) return;
+
+    if (!apiKey) {
+      setShowApiKeyModal(true);
+      return;
+    }
+
+    const userMessage: ChatMessage = {
+      id: generateId(),
+      role: 'user',
+      content: chatInput.trim(),
+      timestamp: new Date(),
+    };
+
+    // Add user message to memory
+    const updatedMessages = [...conversationMemory.recentMessages, userMessage];
+    setConversationMemory(prev => ({
+      ...prev,
+      recentMessages: updatedMessages,
+    }));
+
+    setChatInput('');
+    setIsLoading(true);
+    setStreamingContent('');
+
+    try {
+      // Build message history for API (buffer window)
+      const historyMessages = updatedMessages.slice(-MEMORY_CONFIG.BUFFER_WINDOW_SIZE).map(m => ({
+        role: m.role as 'user' | 'assistant',
+        content: m.content,
+      }));
+
+      const response = await fetch('https://api.anthropic.com/v1/messages', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01',
+          'anthropic-dangerous-direct-browser-access': 'true',
+        },
+        body: JSON.stringify({
+          model: 'claude-sonnet-4-5-20250929',
+          max_tokens: 1500,
+          stream: true,
+          system: `You are SpendWatch AI, an expert analyst for Philippine government procurement data from PhilGEPS.
+
+PERSONALITY & STYLE:
+- Be warm, helpful, and professional
+- Use Filipino expressions naturally (e.g., "Magandang araw", "naman", "po")
+- Provide actionable insights, not just data
+- When appropriate, highlight potential red flags or notable patterns
+- Format responses with markdown for clarity (headers, bullet points, bold for emphasis)
+
+CAPABILITIES:
+- Analyze spending patterns by province, agency, supplier, or category
+- Identify largest contracts and top suppliers
+- Compare procurement trends across regions
+- Highlight anomalies or unusual patterns
+- Provide context about Philippine government procurement
+
+${buildDataContext()}
+
+Remember: Be prescriptive and insightful. Don't just report numbers—explain what they mean and what actions the user might take.`,
+          messages: historyMessages,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status}`);
+      }
+
+      const reader = response.body?.getReader();
+      if (!reader) throw new Error('No response body');
+
+      const decoder = new TextDecoder();
+      let fullContent = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        const chunk = decoder.decode(value, { stream: true });
+        const lines = chunk.split('\n');
+
+        for (const line of lines) {
+          if (line.startsWith('data: ')) {
+            const data = line.slice(6);
+            if (data === '[DONE]') continue;
+
+            try {
+              const parsed = JSON.parse(data);
+              if (parsed.type === 'content_block_delta') {
+                const text = parsed.delta?.text || '';
+                fullContent += text;
+                setStreamingContent(fullContent);
+              }
+            } catch {
+              // Skip unparseable lines
+            }
+          }
+        }
+      }
+
+      const assistantMessage: ChatMessage = {
+        id: generateId(),
+        role: 'assistant',
+        content: fullContent,
+        timestamp: new Date(),
+      };
+
+      // Update memory with new message
+      const allMessages = [...updatedMessages, assistantMessage];
+
+      // Check if we need to summarize older messages
+      let newSummary = conversationMemory.summary;
+      if (allMessages.length > MEMORY_CONFIG.SUMMARIZE_THRESHOLD) {
+        newSummary = await generateConversationSummary(allMessages);
+      }
+
+      // Trim messages if exceeding max stored
+      const trimmedMessages = allMessages.slice(-MEMORY_CONFIG.MAX_STORED_MESSAGES);
+
+      setConversationMemory(prev => ({
+        ...prev,
+        recentMessages: trimmedMessages,
+        summary: newSummary,
+        lastSummarizedAt: allMessages.length > MEMORY_CONFIG.SUMMARIZE_THRESHOLD ? Date.now() : prev.lastSummarizedAt,
+      }));
+
+      setStreamingContent('');
+    } catch (error) {
+      const errorMessage: ChatMessage = {
+        id: generateId(),
+        role: 'assistant',
+        content: `I apologize, but I encountered an error: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`,
+        timestamp: new Date(),
+      };
+      setConversationMemory(prev => ({
+        ...prev,
+        recentMessages: [...prev.recentMessages, errorMessage],
+      }));
+    } finally {
+      setIsLoading(false);
+      setStreamingContent('');
+    }
+  };
+
+  const clearChat = () => {
+    setConversationMemory({
+      ...DEFAULT_MEMORY,
+      recentMessages: [{
+        id: generateId(),
+        role: 'assistant',
+        content: 'Conversation cleared. I\'m ready to help you explore Philippine government procurement data again! Ask me anything.',
+        timestamp: new Date(),
+      }],
+    });
+  };
+
+  // News Search Handler
+  const openNewsSearch = (contract: Contract) => {
+    setNewsQuery(newsSearchQuery(contract));
+    setSelectedContract(contract);
+    setShowNewsPanel(true);
+  };
+
+  const searchDuckDuckGo = () => {
+    window.open(`https://duckduckgo.com/?q=${encodeURIComponent(newsQuery)}&ia=news`, '_blank');
+  };
+
+  const searchGoogleNews = () => {
+    window.open(`https://news.google.com/search?q=${encodeURIComponent(newsQuery)}`, '_blank');
+  };
+
+  // Quick Questions
+  const quickQuestions = [
+    'What are the largest contracts?',
+    'Show COVID-related spending',
+    'Who are the top suppliers?',
+    'Analyze construction trends',
+    'Any suspicious patterns?',
+    'Compare spending by region',
+  ];
+
+  // Open chat modal handler
+  const openChatModal = () => {
+    if (!apiKey) {
+      setShowApiKeyModal(true);
+    } else {
+      setShowChatModal(true);
+    }
+  };
+
+  // ============================================================================
+  // Render
+  // ============================================================================
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 to-slate-100 font-sans text-slate-800">
+      {/* Inline Styles */}
+      <style>{`
+        @import url('https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700;800&display=swap');
+
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+
+        body { font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; }
+
+        .scrollbar-thin::-webkit-scrollbar { width: 6px; }
+        .scrollbar-thin::-webkit-scrollbar-track { background: transparent; }
+        .scrollbar-thin::-webkit-scrollbar-thumb { background: #e2e8f0; border-radius: 3px; }
+        .scrollbar-thin::-webkit-scrollbar-thumb:hover { background: #cbd5e1; }
+
+        @keyframes shimmer {
+          0% { background-position: -200% 0; }
+          100% { background-position: 200% 0; }
+        }
+
+        .animate-shimmer {
+          background: linear-gradient(90deg, transparent, rgba(255,255,255,0.2), transparent);
+          background-size: 200% 100%;
+          animation: shimmer 1.5s infinite;
+        }
+      `}</style>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* ================================================================== */}
+        {/* Hero Section */}
+        {/* ================================================================== */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="relative bg-gradient-to-br from-blue-900 via-blue-700 to-blue-800 rounded-3xl p-8 lg:p-10 mb-8 overflow-hidden shadow-2xl shadow-blue-900/30"
+        >
+          {/* Background Decoration */}
+          <div className="absolute inset-0 overflow-hidden">
+            <div className="absolute -top-1/2 -right-1/4 w-3/4 h-full bg-gradient-to-br from-white/10 to-transparent rounded-full blur-3xl" />
+            <div className="absolute bottom-0 left-0 w-1/2 h-1/2 bg-gradient-to-tr from-blue-500/20 to-transparent rounded-full blur-2xl" />
+          </div>
+
+          <div className="relative z-10">
+            {/* Badge */}
+            <div className="inline-flex items-center gap-2 bg-white/15 backdrop-blur-md px-4 py-2 rounded-full text-sm font-semibold text-white/90 mb-6">
+              <span className="text-base">🇵🇭</span>
+              Open Government Data Initiative
+            </div>
+
+            {/* Title */}
+            <h1 className="text-3xl lg:text-4xl font-extrabold text-white mb-2 tracking-tight">
+              SpendWatch PH
+            </h1>
+            <p className="text-blue-100/80 text-lg mb-8 max-w-xl">
+              Explore Philippine government procurement data with transparency and AI-powered insights
+            </p>
+
+            {/* Stats Grid */}
+            {stats ? (
+              <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                {[
+                  { icon: Banknote, value: formatCurrency(stats.totalValue), label: 'Total Contract Value' },
+                  { icon: FileText, value: stats.totalContracts.toLocaleString(), label: 'Awarded Contracts' },
+                  { icon: Building2, value: stats.uniqueOrgs.toLocaleString(), label: 'Procuring Entities' },
+                  { icon: Users, value: stats.uniqueAwardees.toLocaleString(), label: 'Registered Suppliers' },
+                ].map((stat, i) => (
+                  <motion.div
+                    key={i}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: i * 0.1 }}
+                    className="bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl p-5 hover:bg-white/15 transition-all duration-300 group"
+                  >
+                    <stat.icon className="w-5 h-5 text-blue-200 mb-3 group-hover:scale-110 transition-transform" />
+                    <div className="text-2xl lg:text-3xl font-bold text-white mb-1">{stat.value}</div>
+                    <div className="text-sm text-blue-200/80">{stat.label}</div>
+                  </motion.div>
+                ))}
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                {[1, 2, 3, 4].map((i) => (
+                  <div key={i} className="bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl p-5">
+                    <div className="w-5 h-5 bg-white/20 rounded mb-3 animate-pulse" />
+                    <div className="h-8 bg-white/20 rounded mb-2 animate-pulse" />
+                    <div className="h-4 w-24 bg-white/20 rounded animate-pulse" />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* API Key & Data Status */}
+            <div className="mt-6 flex flex-wrap items-center gap-3">
+              {dataLoaded ? (
+                <button
+                  onClick={() => {
+                    setDatasetSelection(activeDatasetIds);
+                    setShowDatasetPanel(true);
+                  }}
+                  className="flex items-center gap-2 bg-emerald-500/20 hover:bg-emerald-500/30 border border-emerald-400/30 px-3 py-1.5 rounded-full transition-colors max-w-full"
+                  title="Manage loaded datasets"
+                >
+                  <Database size={14} className="text-emerald-300 flex-shrink-0" />
+                  <span className="text-sm text-emerald-200 truncate">
+                    {stats?.totalContracts.toLocaleString()} contracts from{' '}
+                    {datasets.filter((d) => activeDatasetIds.includes(d.id)).map((d) => d.fileName).join(' + ')}
+                  </span>
+                </button>
+              ) : isDataLoading ? (
+                <div className="flex items-center gap-2 bg-blue-500/20 border border-blue-400/30 px-3 py-1.5 rounded-full">
+                  <Loader2 size={14} className="text-blue-300 animate-spin" />
+                  <span className="text-sm text-blue-200">Loading data...</span>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2 bg-amber-500/20 border border-amber-400/30 px-3 py-1.5 rounded-full">
+                  <AlertCircle size={14} className="text-amber-300" />
+                  <span className="text-sm text-amber-200">Preparing data</span>
+                </div>
+              )}
+
+              {apiKey ? (
+                <div className="flex items-center gap-2 bg-emerald-500/20 border border-emerald-400/30 px-3 py-1.5 rounded-full">
+                  <CheckCircle size={14} className="text-emerald-300" />
+                  <span className="text-sm text-emerald-200">AI Connected</span>
+                  <button
+                    onClick={handleClearApiKey}
+                    className="ml-2 text-emerald-300 hover:text-white transition-colors"
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => setShowApiKeyModal(true)}
+                  className="flex items-center gap-2 bg-white/10 hover:bg-white/20 border border-white/20 px-4 py-2 rounded-full text-sm text-white font-medium transition-all"
+                >
+                  <Key size={14} />
+                  Connect Claude AI
+                </button>
+              )}
+
+              {/* Upload Custom Data Button */}
+              <input
+                type="file"
+                ref={fileInputRef}
+                onChange={handleFileUpload}
+                accept=".parquet,.csv"
+                className="hidden"
+              />
+              <button
+                onClick={() => openFilePicker(false)}
+                disabled={isDataLoading}
+                className="flex items-center gap-2 bg-white/10 hover:bg-white/20 border border-white/20 px-3 py-1.5 rounded-full text-sm text-white/80 hover:text-white transition-all disabled:opacity-50"
+                title="Upload your own PhilGEPS parquet or CSV file"
+              >
+                <Upload size={14} />
+                <span className="hidden sm:inline">Load Data</span>
+              </button>
+
+              {dataLoaded && entityMatches.length > 0 && (
+                <button
+                  onClick={() => {
+                    setEntityReviewLimit(ENTITY_CONFIG.REVIEW_PAGE_SIZE);
+                    setShowEntityReview(true);
+                  }}
+                  className="flex items-center gap-2 bg-white/10 hover:bg-white/20 border border-white/20 px-3 py-1.5 rounded-full text-sm text-white/80 hover:text-white transition-all"
+                  title="Review merged supplier and agency names"
+                >
+                  <Users size={14} />
+                  <span className="hidden sm:inline">Name Matches</span>
+                  {pendingEntityMatches > 0 && (
+                    <span className="px-1.5 py-0.5 bg-amber-400 text-slate-900 rounded-full text-xs font-bold">
+                      {pendingEntityMatches}
+                    </span>
+                  )}
+                </button>
+              )}
+              {dataLoaded && (
+                <button
+                  onClick={() => setShowSqlConsole(true)}
+                  className="flex items-center gap-2 bg-white/10 hover:bg-white/20 border border-white/20 px-3 py-1.5 rounded-full text-sm text-white/80 hover:text-white transition-all"
+                  title="Query the loaded data with SQL"
+                >
+                  <SquareTerminal size={14} />
+                  <span className="hidden sm:inline">SQL Console</span>
+                </button>
+              )}
+              {dataLoaded && (
+                <button
+                  onClick={copyViewLink}
+                  className="flex items-center gap-2 bg-white/10 hover:bg-white/20 border border-white/20 px-3 py-1.5 rounded-full text-sm text-white/80 hover:text-white transition-all"
+                  title="Copy a link to this search, filters and view"
+                >
+                  {linkCopied ? <Check size={14} /> : <Link size={14} />}
+                  <span className="hidden sm:inline">{linkCopied ? 'Copied' : 'Copy Link'}</span>
+                </button>
+              )}
+            </div>
+          </div>
+        </motion.div>
+
+        {/* ================================================================== */}
+        {/* Data Loading Indicator */}
+        {/* ================================================================== */}
+        {!dataLoaded && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-white rounded-3xl p-8 shadow-sm border border-slate-200 mb-8"
+          >
+            <div className="text-center max-w-xl mx-auto">
+              <div className="w-16 h-16 bg-gradient-to-br from-blue-500 to-blue-600 rounded-2xl flex items-center justify-center mx-auto mb-6 shadow-lg shadow-blue-500/30">
+                <Database className="w-8 h-8 text-white" />
+              </div>
 
               {isDataLoading ? (
                 <>
@@ -1199,479 +6042,2481 @@ Remember: Be prescriptive and insightful. Don't just report numbers—explain wh
                       <Loader2 className="w-6 h-6 animate-spin" />
                       <span className="font-medium">{loadingProgress || 'Initializing...'}</span>
                     </div>
-                    <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
-                      <div className="h-full bg-gradient-to-r from-blue-500 to-blue-600 rounded-full animate-shimmer" style={{ width: '70%' }} />
+                    <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-gradient-to-r from-blue-500 to-blue-600 rounded-full animate-shimmer transition-all duration-300"
+                        style={{ width: loadingFraction !== null ? `${Math.max(loadingFraction * 100, 2)}%` : '70%' }}
+                      />
+                    </div>
+                    <button
+                      onClick={cancelLoad}
+                      disabled={isCancellingLoad}
+                      className="px-5 py-2 bg-slate-100 hover:bg-slate-200 rounded-xl text-sm font-medium text-slate-600 disabled:opacity-50 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </>
+              ) : dataError ? (
+                <>
+                  <h2 className="text-2xl font-bold text-slate-800 mb-3">Unable to Load Data</h2>
+                  <div className="flex items-start gap-2 p-4 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700 mb-4">
+                    <AlertCircle size={18} className="flex-shrink-0 mt-0.5" />
+                    <span>{dataError}</span>
+                  </div>
+                  <div className="text-slate-500 text-sm mb-4 space-y-2">
+                    <p className="font-medium text-slate-600">Troubleshooting tips:</p>
+                    <ul className="list-disc list-inside space-y-1 text-left">
+                      <li>Use the <strong>"Load Data"</strong> button in the header to upload your parquet or CSV file</li>
+                      <li>Parquet files must use <strong>no compression</strong> (Snappy and GZIP are not supported in browsers)</li>
+                      <li>Re-export with: <code className="bg-slate-100 px-1.5 py-0.5 rounded text-xs">df.to_parquet("file.parquet", compression=None)</code></li>
+                    </ul>
+                  </div>
+                  <button
+                    onClick={() => {
+                      hasInitialized.current = false;
+                      setDataError(null);
+                      loadData();
+                    }}
+                    className="px-6 py-3 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl font-semibold hover:shadow-lg hover:shadow-blue-500/30 transition-all"
+                  >
+                    Retry Loading
+                  </button>
+                </>
+              ) : showRecentDatasets ? (
+                <>
+                  <h2 className="text-2xl font-bold text-slate-800 mb-3">Recent Datasets</h2>
+                  <p className="text-slate-600 mb-6">
+                    Reopen a dataset saved in this browser without uploading it again.
+                  </p>
+                  <div className="space-y-2 mb-6 text-left">
+                    {recentDatasets.map((dataset) => (
+                      <div
+                        key={dataset.hash}
+                        className="flex items-center gap-3 bg-slate-50 border border-slate-200 rounded-2xl p-4 hover:bg-slate-100 hover:border-slate-300 transition-all"
+                      >
+                        <button
+                          onClick={() => loadData({ kind: 'cached', dataset })}
+                          className="flex-1 min-w-0 text-left"
+                        >
+                          <div className="text-sm font-semibold text-slate-800 truncate">{dataset.fileName}</div>
+                          <div className="text-xs text-slate-500">
+                            {dataset.rowCount.toLocaleString()} contracts · {formatBytes(dataset.sizeBytes)} · last opened{' '}
+                            {new Date(dataset.loadedAt).toLocaleDateString('en-PH', { year: 'numeric', month: 'short', day: 'numeric' })}
+                          </div>
+                        </button>
+                        <button
+                          onClick={() => removeRecentDataset(dataset.hash)}
+                          className="p-2 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+                          title="Remove from browser cache"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap justify-center gap-3">
+                    <button
+                      onClick={() => loadData()}
+                      className="px-6 py-3 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl font-semibold hover:shadow-lg hover:shadow-blue-500/30 transition-all"
+                    >
+                      Load Demo Dataset
+                    </button>
+                    <button
+                      onClick={() => openFilePicker(false)}
+                      className="flex items-center gap-2 px-6 py-3 bg-slate-100 hover:bg-slate-200 rounded-xl text-slate-700 font-semibold transition-colors"
+                    >
+                      <Upload size={18} />
+                      Upload File
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <h2 className="text-2xl font-bold text-slate-800 mb-3">Preparing Data</h2>
+                  <p className="text-slate-600">Getting ready to load procurement data...</p>
+                </>
+              )}
+            </div>
+          </motion.div>
+        )}
+
+        {/* ================================================================== */}
+        {/* Shared Link Notice (the link was made with a different dataset) */}
+        {/* ================================================================== */}
+        {dataLoaded && linkDatasetMismatch && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-amber-50 border border-amber-200 rounded-2xl p-5 mb-6 text-sm text-amber-800"
+          >
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex items-start gap-3">
+                <Link size={18} className="flex-shrink-0 mt-0.5 text-amber-600" />
+                <div>
+                  <div className="font-semibold">This link was shared from a different dataset</div>
+                  <div>
+                    Its search and filters are applied, but the results may not match. Load the same file
+                    to see exactly what was shared.
+                  </div>
+                </div>
+              </div>
+              <button
+                onClick={() => setLinkedDatasets(null)}
+                className="p-1 rounded-lg text-amber-600 hover:bg-amber-100 transition-colors"
+                title="Dismiss"
+              >
+                <X size={16} />
+              </button>
+            </div>
+          </motion.div>
+        )}
+
+        {/* ================================================================== */}
+        {/* Schema Report (shown when columns were renamed, missing or coerced) */}
+        {/* ================================================================== */}
+        {dataLoaded && schemaReport && (
+          schemaReport.aliased.length > 0 ||
+          schemaReport.missing.length > 0 ||
+          schemaReport.extra.length > 0 ||
+          schemaReport.typeMismatches.length > 0 ||
+          schemaReport.unparsedDates > 0
+        ) && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-amber-50 border border-amber-200 rounded-2xl p-5 mb-6 text-sm text-amber-800"
+          >
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex items-start gap-3">
+                <AlertCircle size={18} className="flex-shrink-0 mt-0.5 text-amber-600" />
+                <div className="space-y-2">
+                  <div className="font-semibold">Schema check</div>
+                  {schemaReport.aliased.length > 0 && (
+                    <div>
+                      <strong>Renamed:</strong>{' '}
+                      {schemaReport.aliased.map((a) => `${a.source} → ${a.field}`).join(', ')}
+                    </div>
+                  )}
+                  {schemaReport.missing.length > 0 && (
+                    <div>
+                      <strong>Missing (left empty):</strong>{' '}
+                      {schemaReport.missing.map((m) => m.field).join(', ')}
+                    </div>
+                  )}
+                  {schemaReport.typeMismatches.length > 0 && (
+                    <div>
+                      <strong>Converted:</strong>{' '}
+                      {schemaReport.typeMismatches.map((t) =>
+                        `${t.source} (${t.actual} → ${t.expected}` +
+                        (t.unconverted > 0 ? `, ${t.unconverted.toLocaleString()} values unreadable` : '') +
+                        ')'
+                      ).join(', ')}
+                    </div>
+                  )}
+                  {schemaReport.unparsedDates > 0 && (
+                    <div>
+                      <strong>Unreadable dates:</strong>{' '}
+                      {schemaReport.unparsedDates.toLocaleString()} rows have an award date that is not
+                      YYYY-MM-DD or MM/DD/YYYY and were kept without a date
+                    </div>
+                  )}
+                  {schemaReport.extra.length > 0 && (
+                    <div>
+                      <strong>Other columns (kept as is):</strong>{' '}
+                      {schemaReport.extra.map((e) => (e.name === e.source ? e.name : `${e.source} → ${e.name}`)).join(', ')}
+                    </div>
+                  )}
+                </div>
+              </div>
+              <button
+                onClick={() => setSchemaReport(null)}
+                className="text-amber-600 hover:text-amber-900 transition-colors"
+                title="Dismiss"
+              >
+                <X size={16} />
+              </button>
+            </div>
+          </motion.div>
+        )}
+
+        {/* ================================================================== */}
+        {/* Main Content Grid (shown when data is loaded) */}
+        {/* ================================================================== */}
+        {dataLoaded && (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Left Column - Search & Province Grid */}
+            <div className="lg:col-span-2 space-y-6">
+              {/* Search Bar */}
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.2 }}
+                className="flex gap-3"
+              >
+                <div className="flex-1 relative">
+                  <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+                  <input
+                    ref={searchInputRef}
+                    type="text"
+                    placeholder='Search contracts, or try org:DPWH amount:>5M date:2024 "exact phrase"'
+                    value={searchQuery}
+                    onChange={(e) => {
+                      setSearchQuery(e.target.value);
+                      setSearchCursor(e.target.selectionStart ?? e.target.value.length);
+                    }}
+                    onSelect={(e) => setSearchCursor(e.currentTarget.selectionStart ?? 0)}
+                    onKeyDown={handleSearchKeyDown}
+                    onFocus={() => setSearchFocused(true)}
+                    onBlur={() => setSearchFocused(false)}
+                    className={`w-full pl-12 pr-32 py-4 bg-white border-2 rounded-2xl text-slate-800 placeholder-slate-400 focus:outline-none focus:ring-4 transition-all shadow-sm ${
+                      parsedQuery.errors.length > 0
+                        ? 'border-red-300 focus:border-red-400 focus:ring-red-500/10'
+                        : 'border-slate-200 focus:border-blue-500 focus:ring-blue-500/10'
+                    }`}
+                  />
+                  {isSearching && (
+                    <span className="absolute right-4 top-1/2 -translate-y-1/2 flex items-center gap-1.5 text-xs font-medium text-slate-400 pointer-events-none">
+                      <Loader2 size={14} className="animate-spin" />
+                      Searching…
+                    </span>
+                  )}
+
+                  {/* Autocomplete */}
+                  {querySuggestions.length > 0 && (
+                    <div className="absolute left-0 right-0 top-full mt-2 z-30 bg-white border border-slate-200 rounded-2xl shadow-xl overflow-hidden">
+                      {querySuggestions.map((suggestion, index) => (
+                        <button
+                          key={suggestion.insert}
+                          // Keep focus in the input so the cursor position survives
+                          onMouseDown={(e) => {
+                            e.preventDefault();
+                            applySuggestion(suggestion);
+                          }}
+                          onMouseEnter={() => setActiveSuggestion(index)}
+                          className={`w-full flex items-center justify-between gap-4 px-4 py-2.5 text-left text-sm ${
+                            index === activeSuggestion ? 'bg-blue-50 text-blue-700' : 'text-slate-700'
+                          }`}
+                        >
+                          <span className="font-medium truncate">{suggestion.label}</span>
+                          {suggestion.detail && (
+                            <span className="text-xs text-slate-400 truncate flex-shrink-0 max-w-[50%]">{suggestion.detail}</span>
+                          )}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <button
+                  onClick={() => setShowFilterPanel((v) => !v)}
+                  className={`relative flex items-center gap-2 px-5 py-4 border-2 rounded-2xl font-semibold transition-all shadow-sm ${
+                    showFilterPanel
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'bg-white border-slate-200 text-slate-600 hover:border-slate-300'
+                  }`}
+                  title="Filter by amount, date, category, agency, supplier or status"
+                >
+                  <SlidersHorizontal size={18} />
+                  <span className="hidden sm:inline">Filters</span>
+                  {filterChips.length > 0 && (
+                    <span className="absolute -top-2 -right-2 min-w-[20px] h-5 px-1 flex items-center justify-center bg-amber-400 text-slate-900 text-xs font-bold rounded-full">
+                      {filterChips.length}
+                    </span>
+                  )}
+                </button>
+                <button
+                  onClick={() => setShowSavedSearches((v) => !v)}
+                  className={`flex items-center gap-2 px-5 py-4 border-2 rounded-2xl font-semibold transition-all shadow-sm ${
+                    showSavedSearches
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'bg-white border-slate-200 text-slate-600 hover:border-slate-300'
+                  }`}
+                  title="Save this search or open a saved one"
+                >
+                  <Bookmark size={18} />
+                  <span className="hidden sm:inline">Saved</span>
+                </button>
+                {selectedArea && (
+                  <motion.button
+                    initial={{ opacity: 0, scale: 0.9 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    onClick={() => setSelectedArea(null)}
+                    className="flex items-center gap-2 px-5 py-4 bg-red-50 border-2 border-red-200 rounded-2xl text-red-600 font-semibold hover:bg-red-100 transition-all"
+                  >
+                    <X size={18} />
+                    {selectedArea.name}
+                  </motion.button>
+                )}
+              </motion.div>
+
+              {/* Query Errors */}
+              {parsedQuery.errors.length > 0 && (
+                <div className="px-4 py-3 bg-red-50 border border-red-200 rounded-2xl text-sm text-red-700 space-y-1">
+                  {parsedQuery.errors.map((error) => (
+                    <div key={`${error.start}-${error.message}`} className="flex items-start gap-2">
+                      <AlertCircle size={14} className="mt-0.5 flex-shrink-0" />
+                      <span>
+                        <code className="px-1 bg-red-100 rounded">{searchQuery.slice(error.start, error.end)}</code>{' '}
+                        {error.message}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Query Hints */}
+              {parsedQuery.hints.length > 0 && (
+                <div className="px-4 py-3 bg-slate-100 border border-slate-200 rounded-2xl text-sm text-slate-600 space-y-1">
+                  {parsedQuery.hints.map((hint) => (
+                    <div key={`${hint.start}-${hint.message}`} className="flex items-start gap-2">
+                      <Info size={14} className="mt-0.5 flex-shrink-0" />
+                      <span>
+                        <code className="px-1 bg-slate-200 rounded">{searchQuery.slice(hint.start, hint.end)}</code>{' '}
+                        {hint.message}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Filter Panel */}
+              <AnimatePresence>
+                {showFilterPanel && (
+                  <motion.div
+                    initial={{ opacity: 0, height: 0 }}
+                    animate={{ opacity: 1, height: 'auto' }}
+                    exit={{ opacity: 0, height: 0 }}
+                    className="overflow-hidden"
+                  >
+                    <div className="bg-white rounded-3xl p-6 shadow-sm border border-slate-200/80 grid sm:grid-cols-2 gap-5">
+                      <div>
+                        <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">Amount (₱)</label>
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="number"
+                            min={0}
+                            placeholder="Min"
+                            value={amountDrafts.amountMin}
+                            onChange={(e) => editAmountFilter('amountMin', e.target.value)}
+                            onBlur={(e) => commitAmountFilter('amountMin', e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && commitAmountFilter('amountMin', e.currentTarget.value)}
+                            className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:border-blue-500"
+                          />
+                          <span className="text-slate-400">–</span>
+                          <input
+                            type="number"
+                            min={0}
+                            placeholder="Max"
+                            value={amountDrafts.amountMax}
+                            onChange={(e) => editAmountFilter('amountMax', e.target.value)}
+                            onBlur={(e) => commitAmountFilter('amountMax', e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && commitAmountFilter('amountMax', e.currentTarget.value)}
+                            className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:border-blue-500"
+                          />
+                        </div>
+                      </div>
+
+                      <div>
+                        <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">Award Date</label>
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="date"
+                            value={advancedFilters.dateFrom ?? ''}
+                            onChange={(e) => updateFilters({ dateFrom: e.target.value || undefined })}
+                            className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:border-blue-500"
+                          />
+                          <span className="text-slate-400">–</span>
+                          <input
+                            type="date"
+                            value={advancedFilters.dateTo ?? ''}
+                            onChange={(e) => updateFilters({ dateTo: e.target.value || undefined })}
+                            className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:border-blue-500"
+                          />
+                        </div>
+                      </div>
+
+                      {([['organization', 'Agency'], ['awardee', 'Supplier']] as const).map(([kind, label]) => (
+                        <div key={kind}>
+                          <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">{label}</label>
+                          <input
+                            type="text"
+                            list={`${kind}-suggestions`}
+                            placeholder={`Any ${label.toLowerCase()}`}
+                            value={entityDrafts[kind]}
+                            onChange={(e) => editEntityFilter(kind, e.target.value)}
+                            onBlur={() => updateFilters({ [kind]: entityDrafts[kind].trim() || undefined })}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') updateFilters({ [kind]: entityDrafts[kind].trim() || undefined });
+                            }}
+                            className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:border-blue-500"
+                          />
+                          <datalist id={`${kind}-suggestions`}>
+                            {entitySuggestions[kind].map((name) => <option key={name} value={name} />)}
+                          </datalist>
+                        </div>
+                      ))}
+
+                      <div>
+                        <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">
+                          Categories {advancedFilters.categories?.length ? `(${advancedFilters.categories.length})` : ''}
+                        </label>
+                        <input
+                          type="text"
+                          placeholder="Find a category..."
+                          value={categorySearch}
+                          onChange={(e) => setCategorySearch(e.target.value)}
+                          className="w-full px-3 py-2 mb-2 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:border-blue-500"
+                        />
+                        <div className="max-h-40 overflow-y-auto scrollbar-thin space-y-1 pr-1">
+                          {visibleCategoryOptions.map(({ value, count }) => {
+                            const checked = advancedFilters.categories?.includes(value) ?? false;
+                            return (
+                              <label key={value} className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                                <input
+                                  type="checkbox"
+                                  checked={checked}
+                                  onChange={() => {
+                                    const current = advancedFilters.categories ?? [];
+                                    updateFilters({
+                                      categories: checked ? current.filter((c) => c !== value) : [...current, value],
+                                    });
+                                  }}
+                                  className="rounded border-slate-300 text-blue-600"
+                                />
+                                <span className="flex-1 truncate">{value}</span>
+                                <span className="text-xs text-slate-400">{count.toLocaleString()}</span>
+                              </label>
+                            );
+                          })}
+                        </div>
+                      </div>
+
+                      <div>
+                        <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">Status</label>
+                        <div className="flex flex-wrap gap-2">
+                          {filterOptions.statuses.map(({ value, count }) => {
+                            const active = advancedFilters.statuses?.includes(value) ?? false;
+                            return (
+                              <button
+                                key={value}
+                                onClick={() => {
+                                  const current = advancedFilters.statuses ?? [];
+                                  updateFilters({ statuses: active ? current.filter((s) => s !== value) : [...current, value] });
+                                }}
+                                className={`px-3 py-1.5 rounded-xl text-xs font-semibold capitalize transition-colors ${
+                                  active ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                                }`}
+                              >
+                                {value} <span className="opacity-70">{count.toLocaleString()}</span>
+                              </button>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    </div>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+
+              {/* Saved Searches */}
+              <AnimatePresence>
+                {showSavedSearches && (
+                  <motion.div
+                    initial={{ opacity: 0, height: 0 }}
+                    animate={{ opacity: 1, height: 'auto' }}
+                    exit={{ opacity: 0, height: 0 }}
+                    className="overflow-hidden"
+                  >
+                    <div className="bg-white rounded-3xl p-6 shadow-sm border border-slate-200/80 space-y-4">
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          placeholder={currentSearchParams ? 'Name this search, e.g. "DPWH flood control"' : 'Search or filter first, then save it here'}
+                          value={savedSearchName}
+                          onChange={(e) => setSavedSearchName(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && saveCurrentSearch()}
+                          disabled={!currentSearchParams}
+                          className="flex-1 px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:border-blue-500 disabled:opacity-60"
+                        />
+                        <button
+                          onClick={saveCurrentSearch}
+                          disabled={!currentSearchParams || !savedSearchName.trim()}
+                          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-xl text-sm font-semibold disabled:opacity-50 transition-colors"
+                        >
+                          Save
+                        </button>
+                      </div>
+
+                      {savedSearches.length === 0 ? (
+                        <p className="text-sm text-slate-500">No saved searches yet.</p>
+                      ) : (
+                        <div className="space-y-2">
+                          {savedSearches.map((saved) => (
+                            <div
+                              key={saved.id}
+                              className="flex items-center gap-3 bg-slate-50 border border-slate-200 rounded-2xl px-4 py-3 hover:bg-slate-100 hover:border-slate-300 transition-all"
+                            >
+                              <button onClick={() => openSavedSearch(saved)} className="flex-1 min-w-0 text-left">
+                                <div className="text-sm font-semibold text-slate-800 truncate">{saved.name}</div>
+                                <div className="text-xs text-slate-500 truncate">{saved.summary}</div>
+                              </button>
+                              <button
+                                onClick={() => deleteSavedSearch(saved.id)}
+                                className="p-2 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+                                title="Delete saved search"
+                              >
+                                <Trash2 size={16} />
+                              </button>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+
+              {/* Active Filters */}
+              {filterChips.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2">
+                  {filterChips.map((chip) => (
+                    <button
+                      key={chip.id}
+                      onClick={() => {
+                        setAdvancedFilters(chip.without);
+                        if (chip.id === 'organization' || chip.id === 'awardee') {
+                          setEntityDrafts((prev) => ({ ...prev, [chip.id]: '' }));
+                        }
+                      }}
+                      className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-blue-50 border border-blue-200 rounded-xl text-xs font-semibold text-blue-700 hover:bg-blue-100 transition-colors max-w-full"
+                      title="Remove filter"
+                    >
+                      <span className="truncate">{chip.label}</span>
+                      <X size={12} className="flex-shrink-0" />
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => {
+                      setAdvancedFilters({});
+                      setEntityDrafts({ awardee: '', organization: '' });
+                      setFlagFilter(null);
+                    }}
+                    className="px-2 py-1.5 text-xs font-medium text-slate-500 hover:text-slate-700"
+                  >
+                    Clear all
+                  </button>
+                </div>
+              )}
+
+              {/* Watchlist Activity */}
+              {watchActivity.length > 0 && (
+                <motion.div
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="bg-white rounded-3xl p-6 shadow-sm border border-slate-200/80"
+                >
+                  <div className="flex items-center justify-between mb-4">
+                    <div className="flex items-center gap-3">
+                      <div className="p-2 bg-amber-100 rounded-xl">
+                        <Star className="w-5 h-5 text-amber-600" />
+                      </div>
+                      <h2 className="text-lg font-bold text-slate-800">Watchlist Activity</h2>
                     </div>
+                    {watchActivity.some((a) => a.newContracts > 0) && (
+                      <button
+                        onClick={() => markWatchSeen()}
+                        className="text-sm font-medium text-blue-600 hover:text-blue-700"
+                      >
+                        Mark all seen
+                      </button>
+                    )}
                   </div>
-                </>
-              ) : dataError ? (
-                <>
-                  <h2 className="text-2xl font-bold text-slate-800 mb-3">Unable to Load Data</h2>
-                  <div className="flex items-start gap-2 p-4 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700 mb-4">
-                    <AlertCircle size={18} className="flex-shrink-0 mt-0.5" />
-                    <span>{dataError}</span>
+
+                  <div className="space-y-2">
+                    {watchActivity.map((activity) => (
+                      <div
+                        key={`${activity.kind}:${activity.name}`}
+                        className="flex items-center gap-3 bg-slate-50 border border-slate-200 rounded-2xl px-4 py-3 hover:bg-slate-100 hover:border-slate-300 transition-all"
+                      >
+                        {activity.kind === 'awardee'
+                          ? <Users size={16} className="text-violet-600 flex-shrink-0" />
+                          : <Building2 size={16} className="text-emerald-600 flex-shrink-0" />}
+                        <button
+                          onClick={() => showEntityContracts(activity.kind, activity.name)}
+                          className="flex-1 min-w-0 text-left"
+                          title={`Show contracts for ${activity.name}`}
+                        >
+                          <div className="text-sm font-semibold text-slate-800 truncate">{activity.name}</div>
+                          <div className="text-xs text-slate-500">
+                            {activity.contracts.toLocaleString()} contracts · {formatCurrency(activity.amount)}
+                            {activity.latest && ` · latest award ${formatDate(activity.latest)}`}
+                          </div>
+                        </button>
+                        <button
+                          onClick={() => openProfile(activity.kind, activity.name)}
+                          className="px-2.5 py-1 bg-white border border-slate-200 rounded-full text-xs font-medium text-slate-600 hover:text-blue-600 hover:border-blue-300 transition-colors flex-shrink-0"
+                        >
+                          Profile
+                        </button>
+                        {activity.newContracts > 0 && (
+                          <button
+                            onClick={() => markWatchSeen(activity)}
+                            className="px-2.5 py-1 bg-amber-400 text-slate-900 rounded-full text-xs font-bold hover:bg-amber-300 transition-colors flex-shrink-0"
+                            title="Mark these awards as seen"
+                          >
+                            {activity.newContracts.toLocaleString()} new · {formatCurrency(activity.newAmount)}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => toggleWatch(activity.kind, activity.name)}
+                          className="p-2 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+                          title="Stop watching"
+                        >
+                          <X size={16} />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </motion.div>
+              )}
+
+              {/* Area Grid */}
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.3 }}
+                className="bg-white rounded-3xl p-6 shadow-sm border border-slate-200/80"
+              >
+                <div className="flex items-center justify-between mb-4">
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 bg-blue-100 rounded-xl">
+                      <MapPin className="w-5 h-5 text-blue-600" />
+                    </div>
+                    <h2 className="text-lg font-bold text-slate-800">Procurement by Area</h2>
+                  </div>
+                  <span className="text-sm text-slate-500">
+                    {areaBreakdown.length} {areaLevelLabel(areaBreakdown)}
+                  </span>
+                </div>
+
+                {/* Breadcrumb */}
+                <div className="flex flex-wrap items-center gap-1 mb-4 text-sm">
+                  <button
+                    onClick={() => showAreaLevel([])}
+                    className={`px-2 py-1 rounded-lg font-medium transition-colors ${
+                      areaDrillPath.length === 0 ? 'text-slate-800' : 'text-blue-600 hover:bg-blue-50'
+                    }`}
+                  >
+                    All regions
+                  </button>
+                  {areaDrillPath.map((node, index) => (
+                    <Fragment key={node.code ?? node.name}>
+                      <ChevronRight size={14} className="text-slate-400" />
+                      <button
+                        onClick={() => showAreaLevel(areaDrillPath.slice(0, index + 1))}
+                        className={`px-2 py-1 rounded-lg font-medium transition-colors ${
+                          index === areaDrillPath.length - 1 ? 'text-slate-800' : 'text-blue-600 hover:bg-blue-50'
+                        }`}
+                      >
+                        {node.name}
+                      </button>
+                    </Fragment>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 max-h-[400px] overflow-y-auto scrollbar-thin pr-2">
+                  {areaBreakdown.slice(0, 30).map((node, index) => {
+                    const selected = isSameArea(selectedArea, node);
+                    return (
+                      <motion.button
+                        key={node.code ?? node.name}
+                        initial={{ opacity: 0, scale: 0.95 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        transition={{ delay: index * 0.02 }}
+                        onClick={() => selectArea(node)}
+                        title={node.drillable ? `Open ${node.name}` : node.code ? undefined : 'Not matched to a PSGC area'}
+                        className={`relative overflow-hidden rounded-2xl p-4 text-left transition-all duration-300 ${
+                          selected
+                            ? 'bg-gradient-to-br from-blue-600 to-blue-700 shadow-lg shadow-blue-500/30'
+                            : 'bg-slate-50 hover:bg-slate-100 hover:shadow-md'
+                        }`}
+                      >
+                        {/* Background Bar */}
+                        <div
+                          className={`absolute bottom-0 left-0 right-0 transition-all duration-500 ${
+                            selected ? 'bg-white/10' : 'bg-blue-500/10'
+                          }`}
+                          style={{ height: `${(node.amount / maxAmount) * 100}%` }}
+                        />
+
+                        <div className="relative z-10">
+                          <div className="flex items-center justify-between gap-2 mb-2">
+                            <span className={`flex items-center gap-1 text-sm font-semibold truncate ${
+                              selected ? 'text-white' : node.code ? 'text-slate-700' : 'text-slate-400 italic'
+                            }`}>
+                              <span className="truncate">{node.name}</span>
+                              {node.drillable && <ChevronRight size={14} className="flex-shrink-0" />}
+                            </span>
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${
+                              selected
+                                ? 'bg-amber-400 text-slate-900'
+                                : 'bg-blue-600 text-white'
+                            }`}>
+                              {node.count.toLocaleString()}
+                            </span>
+                          </div>
+                          <div className={`text-xl font-bold ${
+                            selected ? 'text-white' : 'text-blue-600'
+                          }`}>
+                            {formatCurrency(node.amount)}
+                          </div>
+                        </div>
+                      </motion.button>
+                    );
+                  })}
+                </div>
+
+                {areaParentOnlyCount > 0 && (
+                  <p className="mt-4 text-xs text-slate-500">
+                    {areaParentOnlyCount.toLocaleString()} contracts name only{' '}
+                    {areaDrillPath[areaDrillPath.length - 1].name} and are not shown in a tile above.
+                  </p>
+                )}
+              </motion.div>
+
+              </div>
+
+            {/* Right Column - Panel */}
+            <motion.div
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.4 }}
+              className="bg-white rounded-3xl shadow-sm border border-slate-200/80 overflow-hidden flex flex-col"
+              style={{ maxHeight: 'calc(100vh - 200px)', minHeight: '600px' }}
+            >
+              {/* Tab Navigation */}
+              <div className="flex p-2 gap-1 border-b border-slate-100">
+                {[
+                  { id: 'insights', icon: BarChart3, label: 'Insights' },
+                  { id: 'contracts', icon: FileText, label: 'Contracts' },
+                  { id: 'quality', icon: ClipboardCheck, label: 'Quality' },
+                  { id: 'analysis', icon: Scale, label: 'Analysis' },
+                ].map((tab) => (
+                  <button
+                    key={tab.id}
+                    onClick={() => setActiveTab(tab.id as typeof activeTab)}
+                    className={`flex-1 flex items-center justify-center gap-2 px-4 py-3 rounded-xl text-sm font-semibold transition-all ${
+                      activeTab === tab.id
+                        ? 'bg-blue-600 text-white shadow-lg shadow-blue-500/30'
+                        : 'text-slate-500 hover:bg-slate-100'
+                    }`}
+                  >
+                    <tab.icon size={16} />
+                    {tab.label}
+                  </button>
+                ))}
+                {/* Ask AI Button */}
+                <button
+                  onClick={openChatModal}
+                  className="flex-1 flex items-center justify-center gap-2 px-4 py-3 rounded-xl text-sm font-semibold transition-colors bg-slate-900 text-white hover:bg-slate-800"
+                >
+                  <Sparkles size={16} />
+                  Ask AI
+                </button>
+              </div>
+
+              {/* Tab Content */}
+              <div ref={tabScrollRef} onScroll={handleTabScroll} className="relative flex-1 overflow-y-auto p-6 scrollbar-thin">
+                <AnimatePresence mode="wait">
+                  {/* Insights Tab */}
+                  {activeTab === 'insights' && stats && (
+                    <motion.div
+                      key="insights"
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: -10 }}
+                      className="space-y-6"
+                    >
+                      {/* Average Contract Card */}
+                      <div className="bg-gradient-to-br from-blue-600 to-blue-700 rounded-2xl p-6 text-white">
+                        <div className="text-sm text-blue-200 mb-1">Average Contract Value</div>
+                        <div className="text-3xl font-bold">{formatCurrency(stats.avgValue)}</div>
+                      </div>
+
+                      {/* Spending Trends */}
+                      <div>
+                        <div className="flex items-center justify-between gap-2 mb-3">
+                          <h3 className="text-sm font-semibold text-slate-600">Spending Trends</h3>
+                          <div className="flex gap-1 p-1 bg-slate-100 rounded-xl">
+                            {(Object.keys(TREND_GRANULARITIES) as TrendGranularity[]).map((granularity) => (
+                              <button
+                                key={granularity}
+                                onClick={() => {
+                                  setTrendGranularity(granularity);
+                                  setSelectedTrendPeriod(null);
+                                }}
+                                className={`px-2.5 py-1 rounded-lg text-xs font-medium transition-colors ${
+                                  trendGranularity === granularity ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                                }`}
+                              >
+                                {TREND_GRANULARITIES[granularity]}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+
+                        <div className="flex items-center justify-between gap-2 mb-3">
+                          <div className="flex gap-3 text-xs">
+                            {([['amount', 'Value'], ['count', 'Contracts']] as const).map(([metric, label]) => (
+                              <button
+                                key={metric}
+                                onClick={() => setTrendMetric(metric)}
+                                className={`font-medium transition-colors ${
+                                  trendMetric === metric ? 'text-blue-600 underline underline-offset-4' : 'text-slate-400 hover:text-slate-600'
+                                }`}
+                              >
+                                {label}
+                              </button>
+                            ))}
+                          </div>
+                          {contractFilterActive && (
+                            <span className="text-xs text-slate-400">Following the current search and filters</span>
+                          )}
+                        </div>
+
+                        {spendingTrend.length === 0 ? (
+                          <div className="py-8 text-center text-sm text-slate-400">No dated contracts match.</div>
+                        ) : (
+                          <>
+                            <div key={trendGranularity} ref={attachTrendChart} className="overflow-x-auto scrollbar-thin pb-1">
+                              <div className="flex items-end gap-px h-36">
+                                {spendingTrend.map((point) => {
+                                  const change = yearOverYearChange(point[trendMetric], point.prior?.[trendMetric]);
+                                  const focused = point === trendFocus;
+                                  return (
+                                    <button
+                                      key={point.period.getTime()}
+                                      onClick={() => setSelectedTrendPeriod(point.period.getTime())}
+                                      title={`${formatTrendPeriod(point.period, trendGranularity)}: ${
+                                        trendMetric === 'amount' ? formatCurrency(point.amount) : `${point.count.toLocaleString()} contracts`
+                                      }${change !== null ? ` (${formatChange(change)} on a year earlier)` : ''}`}
+                                      className="flex-1 min-w-[6px] h-full flex flex-col justify-end gap-0.5 group"
+                                    >
+                                      <div
+                                        className={`w-full rounded-t-sm transition-colors ${
+                                          focused ? 'bg-amber-400' : 'bg-blue-500 group-hover:bg-blue-600'
+                                        }`}
+                                        style={{ height: `${trendMax > 0 ? (point[trendMetric] / trendMax) * 100 : 0}%` }}
+                                      />
+                                      {/* Year-over-year marker */}
+                                      <div
+                                        className={`w-full h-1 rounded-full ${
+                                          change === null ? 'bg-slate-100' : change >= 0 ? 'bg-emerald-400' : 'bg-rose-400'
+                                        }`}
+                                      />
+                                    </button>
+                                  );
+                                })}
+                              </div>
+                            </div>
+                            <div className="flex justify-between mt-1 text-[10px] text-slate-400">
+                              <span>{formatTrendPeriod(spendingTrend[0].period, trendGranularity)}</span>
+                              <span>{formatTrendPeriod(spendingTrend[spendingTrend.length - 1].period, trendGranularity)}</span>
+                            </div>
+
+                            {trendFocus && (
+                              <div className="mt-3 p-3 bg-slate-50 rounded-xl">
+                                <div className="text-xs font-semibold text-slate-500 mb-2">
+                                  {formatTrendPeriod(trendFocus.period, trendGranularity)}
+                                </div>
+                                <div className="grid grid-cols-2 gap-3">
+                                  {([['amount', 'Value'], ['count', 'Contracts']] as const).map(([metric, label]) => {
+                                    const change = yearOverYearChange(trendFocus[metric], trendFocus.prior?.[metric]);
+                                    return (
+                                      <div key={metric}>
+                                        <div className="text-[10px] uppercase tracking-wide text-slate-400">{label}</div>
+                                        <div className="text-lg font-bold text-slate-800">
+                                          {metric === 'amount' ? formatCurrency(trendFocus.amount) : trendFocus.count.toLocaleString()}
+                                        </div>
+                                        <div className={`text-xs font-medium ${
+                                          change === null ? 'text-slate-400' : change >= 0 ? 'text-emerald-600' : 'text-rose-600'
+                                        }`}>
+                                          {change !== null
+                                            ? `${formatChange(change)} year over year`
+                                            : trendFocus.prior ? 'None a year earlier' : 'No earlier year to compare'}
+                                        </div>
+                                      </div>
+                                    );
+                                  })}
+                                </div>
+                              </div>
+                            )}
+                            <p className="mt-2 text-[10px] text-slate-400">
+                              The strip under each bar is green when it is up on the same period a year earlier and red when down.
+                              {' '}Award dates before {QUALITY_CONFIG.MIN_AWARD_DATE.slice(0, 4)} or in the future are left out;
+                              the Quality tab lists them as implausible.
+                            </p>
+                          </>
+                        )}
+                      </div>
+
+                      {/* Top Categories */}
+                      <div>
+                        <h3 className="text-sm font-semibold text-slate-600 mb-4">Top Categories by Value</h3>
+                        <div className="space-y-4">
+                          {topCategories.map(([category, value], index) => (
+                            <div key={category} className="space-y-2">
+                              <div className="flex justify-between items-center">
+                                <span className="text-sm text-slate-600 truncate pr-2">{category}</span>
+                                <span className="text-sm font-bold text-blue-600">{formatCurrency(value)}</span>
+                              </div>
+                              <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                                <motion.div
+                                  initial={{ width: 0 }}
+                                  animate={{ width: `${(value / topCategories[0][1]) * 100}%` }}
+                                  transition={{ duration: 0.5, delay: index * 0.1 }}
+                                  className={`h-full rounded-full ${
+                                    index === 0
+                                      ? 'bg-gradient-to-r from-amber-400 to-amber-500'
+                                      : 'bg-gradient-to-r from-blue-500 to-blue-600'
+                                  }`}
+                                />
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+
+                      {/* Quick Stats Grid */}
+                      <div className="grid grid-cols-2 gap-3">
+                        <div className="bg-gradient-to-br from-emerald-50 to-emerald-100 border border-emerald-200/50 rounded-xl p-4">
+                          <div className="flex items-center gap-2 mb-1">
+                            <Building2 size={14} className="text-emerald-600" />
+                            <span className="text-xs font-medium text-emerald-700">Agencies</span>
+                          </div>
+                          <div className="text-xl font-bold text-emerald-800">{stats.uniqueOrgs.toLocaleString()}</div>
+                        </div>
+                        <div className="bg-gradient-to-br from-violet-50 to-violet-100 border border-violet-200/50 rounded-xl p-4">
+                          <div className="flex items-center gap-2 mb-1">
+                            <Users size={14} className="text-violet-600" />
+                            <span className="text-xs font-medium text-violet-700">Suppliers</span>
+                          </div>
+                          <div className="text-xl font-bold text-violet-800">{stats.uniqueAwardees.toLocaleString()}</div>
+                        </div>
+                        <div className="bg-gradient-to-br from-amber-50 to-amber-100 border border-amber-200/50 rounded-xl p-4">
+                          <div className="flex items-center gap-2 mb-1">
+                            <MapPin size={14} className="text-amber-600" />
+                            <span className="text-xs font-medium text-amber-700">Delivery Areas</span>
+                          </div>
+                          <div className="text-xl font-bold text-amber-800">{stats.uniqueAreas.toLocaleString()}</div>
+                        </div>
+                        <div className="bg-gradient-to-br from-sky-50 to-sky-100 border border-sky-200/50 rounded-xl p-4">
+                          <div className="flex items-center gap-2 mb-1">
+                            <Tag size={14} className="text-sky-600" />
+                            <span className="text-xs font-medium text-sky-700">Categories</span>
+                          </div>
+                          <div className="text-xl font-bold text-sky-800">{stats.uniqueCategories.toLocaleString()}</div>
+                        </div>
+                      </div>
+                    </motion.div>
+                  )}
+
+                  {/* Contracts Tab */}
+                  {activeTab === 'contracts' && (
+                    <motion.div
+                      key="contracts"
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: -10 }}
+                      className="space-y-4"
+                    >
+                      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                        <div className="text-sm text-slate-500">
+                          {totalFilteredCount > 0 ? (
+                            <>
+                              <strong className="text-blue-600">
+                                {Math.min(listWindow.first + 1, totalFilteredCount).toLocaleString()}–
+                                {Math.min(listWindow.first + listWindow.visible, totalFilteredCount).toLocaleString()}
+                              </strong>{' '}
+                              of{' '}
+                            </>
+                          ) : 'Showing '}
+                          <strong className="text-blue-600">{totalFilteredCount.toLocaleString()}</strong> contracts
+                          {selectedArea && <> in <strong className="text-blue-600">{selectedArea.name}</strong></>}
+                          {isSearching && (
+                            <span className="inline-flex items-center gap-1 ml-2 text-xs text-slate-400">
+                              <Loader2 size={12} className="animate-spin" />
+                              Updating…
+                            </span>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="number"
+                            min={1}
+                            max={totalFilteredCount}
+                            placeholder="Go to #"
+                            value={jumpToRow}
+                            onChange={(e) => setJumpToRow(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && jumpToPosition()}
+                            className="w-24 px-3 py-1.5 bg-slate-100 rounded-xl text-xs font-medium text-slate-600 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                            aria-label="Jump to contract number"
+                            title="Jump to a position in the list"
+                          />
+                          <div className="flex items-center gap-1 p-1 bg-slate-100 rounded-xl text-xs font-medium">
+                            <select
+                              value={effectiveSort.key}
+                              onChange={(e) => {
+                                const key = e.target.value as ContractSortKey;
+                                setSortOrder({ key, direction: CONTRACT_SORTS[key].direction });
+                              }}
+                              className="bg-transparent pl-2 pr-1 py-1 text-slate-600 focus:outline-none cursor-pointer"
+                              aria-label="Sort contracts by"
+                            >
+                              {(Object.keys(CONTRACT_SORTS) as ContractSortKey[])
+                                .filter((key) => key !== 'relevance' || relevanceAvailable)
+                                .map((key) => (
+                                  <option key={key} value={key}>{CONTRACT_SORTS[key].label}</option>
+                                ))}
+                            </select>
+                            {effectiveSort.key !== 'relevance' && (
+                              <button
+                                onClick={() => setSortOrder({
+                                  key: effectiveSort.key,
+                                  direction: effectiveSort.direction === 'asc' ? 'desc' : 'asc',
+                                })}
+                                className="p-1.5 bg-white rounded-lg text-blue-600 shadow-sm hover:bg-blue-50 transition-colors"
+                                title={effectiveSort.direction === 'asc' ? 'Ascending' : 'Descending'}
+                              >
+                                {effectiveSort.direction === 'asc' ? <ArrowUp size={14} /> : <ArrowDown size={14} />}
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+
+                      {flagFilter && (
+                        <button
+                          onClick={() => setFlagFilter(null)}
+                          className="inline-flex items-center gap-2 max-w-full px-3 py-1.5 bg-red-50 border border-red-200 rounded-xl text-xs font-semibold text-red-700 hover:bg-red-100 transition-colors"
+                          title="Clear red-flag filter"
+                        >
+                          <ShieldAlert size={12} className="flex-shrink-0" />
+                          <span className="truncate">{flagFilter.label}</span>
+                          <X size={12} className="flex-shrink-0" />
+                        </button>
+                      )}
+
+                      {qualityFilter && (
+                        <button
+                          onClick={() => setQualityFilter(null)}
+                          className="inline-flex items-center gap-2 px-3 py-1.5 bg-amber-50 border border-amber-200 rounded-xl text-xs font-semibold text-amber-700 hover:bg-amber-100 transition-colors"
+                          title="Clear data quality filter"
+                        >
+                          <AlertCircle size={12} />
+                          {qualityFilter.label}
+                          <X size={12} />
+                        </button>
+                      )}
+
+                      {/* Only the rows near the viewport are in the DOM; each is placed by its index */}
+                      <div
+                        ref={attachContractList}
+                        className="relative"
+                        style={{ height: contractListGeometry(totalFilteredCount, 0).height }}
+                      >
+                        {Array.from({ length: renderedRows.last - renderedRows.first }, (_, i) => renderedRows.first + i).map((index) => {
+                          const { ROW_HEIGHT, ROW_GAP, BLOCK_SIZE } = CONTRACT_LIST_CONFIG;
+                          const contract = contractBlocks.get(Math.floor(index / BLOCK_SIZE))?.[index % BLOCK_SIZE];
+                          const position = { top: index * ROW_HEIGHT - listWindow.shift, height: ROW_HEIGHT - ROW_GAP };
+                          if (!contract) {
+                            return (
+                              <div
+                                key={index}
+                                className="absolute inset-x-0 bg-slate-50 border border-slate-200 rounded-2xl animate-pulse"
+                                style={position}
+                              />
+                            );
+                          }
+                          return (
+                            <div
+                              key={index}
+                              className="absolute inset-x-0 overflow-hidden bg-slate-50 border border-slate-200 rounded-2xl p-4 hover:bg-slate-100 hover:border-slate-300 transition-colors cursor-pointer group"
+                              style={position}
+                              onClick={() => openNewsSearch(contract)}
+                            >
+                              <div className="flex items-start justify-between mb-3">
+                                <h3 className="text-sm font-semibold text-slate-800 leading-tight pr-4 line-clamp-2">
+                                  {highlightMatches(contract.title || contract.noticeTitle || 'Untitled Contract', searchHighlight)}
+                                </h3>
+                                <button
+                                  className="opacity-0 group-hover:opacity-100 p-1.5 bg-blue-100 rounded-lg text-blue-600 hover:bg-blue-200 transition-all flex-shrink-0"
+                                  title="Search related news"
+                                >
+                                  <Newspaper size={14} />
+                                </button>
+                              </div>
+
+                              <div className="flex gap-2 mb-3 overflow-hidden whitespace-nowrap">
+                                {contract.category && (
+                                  <span className="inline-flex items-center gap-1 px-2 py-1 bg-amber-100 text-amber-700 rounded-lg text-xs font-medium">
+                                    <Tag size={10} />
+                                    {contract.category.length > 25 ? contract.category.slice(0, 25) + '...' : contract.category}
+                                  </span>
+                                )}
+                                {contract.area && (
+                                  <span className="inline-flex items-center gap-1 px-2 py-1 bg-blue-100 text-blue-700 rounded-lg text-xs font-medium">
+                                    <MapPin size={10} />
+                                    {contract.area}
+                                  </span>
+                                )}
+                                {contract.date && (
+                                  <span className="px-2 py-1 bg-slate-200 text-slate-600 rounded-lg text-xs font-medium">
+                                    {formatDate(contract.date)}
+                                  </span>
+                                )}
+                              </div>
+
+                              <div className="text-xl font-bold text-emerald-600 mb-3">
+                                {formatCurrency(contract.amount, false)}
+                              </div>
+
+                              <div className="text-xs text-slate-500 space-y-1">
+                                {([['awardee', 'Awardee', contract.awardee], ['organization', 'Agency', contract.organization]] as const).map(([kind, label, name]) => {
+                                  const watched = watchedKeys.has(`${kind}:${name}`);
+                                  return (
+                                    <div key={kind} className="flex items-center gap-1">
+                                      <div className="truncate">
+                                        <strong className="text-slate-600">{label}:</strong>{' '}
+                                        {name ? (
+                                          <button
+                                            onClick={(e) => {
+                                              e.stopPropagation();
+                                              openProfile(kind, name);
+                                            }}
+                                            className="hover:text-blue-600 hover:underline"
+                                            title={`Open ${kind === 'awardee' ? 'supplier' : 'agency'} profile`}
+                                          >
+                                            {highlightMatches(name, searchHighlight)}
+                                          </button>
+                                        ) : 'N/A'}
+                                      </div>
+                                      {name && (
+                                        <button
+                                          onClick={(e) => {
+                                            e.stopPropagation();
+                                            toggleWatch(kind, name);
+                                          }}
+                                          className={`p-0.5 rounded flex-shrink-0 transition-all ${
+                                            watched ? 'text-amber-500' : 'opacity-0 group-hover:opacity-100 text-slate-400 hover:text-amber-500'
+                                          }`}
+                                          title={watched ? 'Stop watching' : `Watch this ${kind === 'awardee' ? 'supplier' : 'agency'}`}
+                                        >
+                                          <Star size={12} className={watched ? 'fill-amber-400' : ''} />
+                                        </button>
+                                      )}
+                                    </div>
+                                  );
+                                })}
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </motion.div>
+                  )}
+
+                  {/* Quality Tab */}
+                  {activeTab === 'quality' && qualityReport && (
+                    <motion.div
+                      key="quality"
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: -10 }}
+                      className="space-y-6"
+                    >
+                      <div className="text-sm text-slate-500">
+                        Checked <strong className="text-blue-600">{qualityReport.totalRows.toLocaleString()}</strong> rows.
+                        Select a check to see the affected contracts.
+                      </div>
+
+                      {/* Checks */}
+                      <div className="space-y-2">
+                        {qualityReport.checks.map((check) => (
+                          <button
+                            key={check.label}
+                            onClick={() => showQualityIssue(check)}
+                            disabled={check.count === 0}
+                            className="w-full flex items-center justify-between gap-3 p-3 bg-slate-50 border border-slate-200 rounded-xl text-left hover:bg-slate-100 disabled:hover:bg-slate-50 disabled:cursor-default transition-colors"
+                          >
+                            <div className="min-w-0">
+                              <div className="text-sm font-semibold text-slate-700">{check.label}</div>
+                              <div className="text-xs text-slate-500 truncate">{check.description}</div>
+                            </div>
+                            {check.count === 0 ? (
+                              <CheckCircle size={16} className="flex-shrink-0 text-emerald-500" />
+                            ) : (
+                              <span className="flex-shrink-0 px-2 py-0.5 bg-amber-100 text-amber-700 rounded-full text-xs font-bold">
+                                {check.count.toLocaleString()}
+                              </span>
+                            )}
+                          </button>
+                        ))}
+                      </div>
+
+                      {qualityReport.unusualStatuses.length > 0 && (
+                        <div className="text-xs text-slate-500">
+                          <strong className="text-slate-600">Unusual statuses:</strong>{' '}
+                          {qualityReport.unusualStatuses.map((s) => `${s.status} (${s.count.toLocaleString()})`).join(', ')}
+                        </div>
+                      )}
+
+                      {/* Empty values per column */}
+                      <div>
+                        <h3 className="text-sm font-semibold text-slate-600 mb-4">Empty Values by Column</h3>
+                        <div className="space-y-3">
+                          {qualityReport.columns.map(({ field, missing }) => {
+                            const rate = qualityReport.totalRows > 0 ? missing / qualityReport.totalRows : 0;
+                            return (
+                              <button
+                                key={field}
+                                onClick={() => showQualityIssue({
+                                  issue: { kind: 'missing', field },
+                                  ...describeQualityIssue({ kind: 'missing', field }),
+                                  count: missing,
+                                })}
+                                disabled={missing === 0}
+                                className="w-full space-y-1 text-left disabled:cursor-default group"
+                              >
+                                <div className="flex justify-between items-center text-xs">
+                                  <span className="font-mono text-slate-600 group-enabled:group-hover:text-blue-600">{field}</span>
+                                  <span className="text-slate-500">{(rate * 100).toFixed(1)}%</span>
+                                </div>
+                                <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                                  <div
+                                    className={`h-full rounded-full ${rate > 0.5 ? 'bg-red-400' : 'bg-amber-400'}`}
+                                    style={{ width: `${rate * 100}%` }}
+                                  />
+                                </div>
+                              </button>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    </motion.div>
+                  )}
+                  {/* Analysis Tab */}
+                  {activeTab === 'analysis' && (
+                    <motion.div
+                      key="analysis"
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: -10 }}
+                      className="space-y-6"
+                    >
+                      <div className="flex gap-1 p-1 bg-slate-100 rounded-xl">
+                        {([
+                          ['concentration', Scale, 'Concentration'],
+                          ['flags', ShieldAlert, 'Red Flags'],
+                          ['benford', Sigma, 'Benford'],
+                        ] as const).map(([view, Icon, label]) => (
+                          <button
+                            key={view}
+                            onClick={() => setAnalysisView(view)}
+                            className={`flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors ${
+                              analysisView === view ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                            }`}
+                          >
+                            <Icon size={14} />
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+
+                      {/* Supplier Concentration */}
+                      {analysisView === 'concentration' && (
+                        <div>
+                          <div className="flex items-center justify-between gap-2 mb-2">
+                            <h3 className="text-sm font-semibold text-slate-600">Supplier Concentration</h3>
+                            <div className="flex gap-1 p-1 bg-slate-100 rounded-xl">
+                              {(Object.keys(CONCENTRATION_DIMENSIONS) as ConcentrationDimension[]).map((dimension) => (
+                                <button
+                                  key={dimension}
+                                  onClick={() => {
+                                    setConcentrationDimension(dimension);
+                                    setConcentration(null);
+                                    setExpandedConcentration(null);
+                                  }}
+                                  className={`px-2.5 py-1 rounded-lg text-xs font-medium transition-colors ${
+                                    concentrationDimension === dimension ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                                  }`}
+                                >
+                                  {CONCENTRATION_DIMENSIONS[dimension].label}
+                                </button>
+                              ))}
+                            </div>
+                          </div>
+                          <p className="text-xs text-slate-500 mb-4">
+                            The Herfindahl-Hirschman Index sums the squared percentage shares of each supplier in the
+                            value awarded, from near 0 (many small suppliers) to 10,000 (a single supplier). Above{' '}
+                            {CONCENTRATION_CONFIG.HIGH_HHI.toLocaleString()} is highly concentrated. Only{' '}
+                            {CONCENTRATION_DIMENSIONS[concentrationDimension].label.toLowerCase()} with at least{' '}
+                            {CONCENTRATION_CONFIG.MIN_CONTRACTS} contracts are scored
+                            {contractFilterActive && ', using the contracts matching the current search and filters'}.
+                          </p>
+
+                          {!concentration ? (
+                            <div className="flex items-center justify-center gap-2 py-10 text-sm text-slate-400">
+                              <Loader2 size={16} className="animate-spin" />
+                              Scoring…
+                            </div>
+                          ) : concentration.scores.length === 0 ? (
+                            <div className="py-10 text-center text-sm text-slate-400">Nothing to score.</div>
+                          ) : (
+                            <div className="space-y-2">
+                              <div className="text-xs text-slate-500">
+                                Most concentrated {concentration.scores.length.toLocaleString()} of{' '}
+                                {concentration.groups.toLocaleString()} {CONCENTRATION_DIMENSIONS[concentrationDimension].label.toLowerCase()}
+                              </div>
+                              {concentration.scores.map((score, index) => {
+                                const level = concentrationLevel(score.hhi);
+                                const expanded = expandedConcentration === score.name;
+                                return (
+                                  <div key={score.name} className="bg-slate-50 border border-slate-200 rounded-xl">
+                                    <button
+                                      onClick={() => setExpandedConcentration(expanded ? null : score.name)}
+                                      className="w-full flex items-start gap-3 p-3 text-left hover:bg-slate-100 rounded-xl transition-colors"
+                                    >
+                                      <span className="w-6 flex-shrink-0 text-xs font-bold text-slate-400 pt-0.5">{index + 1}</span>
+                                      <div className="flex-1 min-w-0">
+                                        <div className="text-sm font-semibold text-slate-700 truncate" title={score.name}>{score.name}</div>
+                                        <div className="text-xs text-slate-500">
+                                          {score.suppliers.toLocaleString()} suppliers · top {(score.top1Share * 100).toFixed(0)}% · top 3{' '}
+                                          {(score.top3Share * 100).toFixed(0)}% · {formatCurrency(score.amount)}
+                                        </div>
+                                      </div>
+                                      <span className={`flex-shrink-0 px-2 py-0.5 rounded-full text-xs font-bold ${level.className}`} title={`${level.label} concentration`}>
+                                        {Math.round(score.hhi).toLocaleString()}
+                                      </span>
+                                      <ChevronDown
+                                        size={16}
+                                        className={`flex-shrink-0 text-slate-400 transition-transform ${expanded ? 'rotate-180' : ''}`}
+                                      />
+                                    </button>
+
+                                    {expanded && (
+                                      <div className="px-3 pb-3 pl-12 space-y-2.5">
+                                        {!concentrationSuppliers ? (
+                                          <Loader2 size={14} className="animate-spin text-slate-400" />
+                                        ) : (
+                                          concentrationSuppliers.map((supplier) => (
+                                            <div key={supplier.name}>
+                                              <div className="flex justify-between gap-2 text-xs">
+                                                <button
+                                                  onClick={() => openProfile('awardee', supplier.name)}
+                                                  className="text-slate-600 truncate hover:text-blue-600 hover:underline"
+                                                  title="Open supplier profile"
+                                                >
+                                                  {supplier.name}
+                                                </button>
+                                                <span className="font-semibold text-slate-700 flex-shrink-0">
+                                                  {formatCurrency(supplier.amount)} · {(supplier.share * 100).toFixed(1)}%
+                                                </span>
+                                              </div>
+                                              <div className="h-1.5 mt-1 bg-slate-100 rounded-full overflow-hidden">
+                                                <div className="h-full rounded-full bg-violet-500" style={{ width: `${supplier.share * 100}%` }} />
+                                              </div>
+                                            </div>
+                                          ))
+                                        )}
+                                        {concentrationSuppliers && score.suppliers > concentrationSuppliers.length && (
+                                          <p className="text-xs text-slate-400">
+                                            and {(score.suppliers - concentrationSuppliers.length).toLocaleString()} more
+                                          </p>
+                                        )}
+                                        <div className="flex gap-3 pt-1 text-xs font-medium">
+                                          {concentrationDimension === 'organization' && (
+                                            <button
+                                              onClick={() => openProfile('organization', score.name)}
+                                              className="text-blue-600 hover:text-blue-700"
+                                            >
+                                              Agency profile
+                                            </button>
+                                          )}
+                                          <button
+                                            onClick={() => showConcentrationContracts(score.name)}
+                                            className="text-blue-600 hover:text-blue-700"
+                                          >
+                                            Show contracts
+                                          </button>
+                                        </div>
+                                      </div>
+                                    )}
+                                  </div>
+                                );
+                              })}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                      {/* Red Flags */}
+                      {analysisView === 'flags' && (
+                        <div>
+                          <div className="flex items-center justify-between gap-2 mb-2">
+                            <h3 className="text-sm font-semibold text-slate-600">Red Flags</h3>
+                            <button
+                              onClick={() => setShowRedFlagRules((v) => !v)}
+                              className={`flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs font-medium transition-colors ${
+                                showRedFlagRules ? 'bg-blue-100 text-blue-700' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                              }`}
+                            >
+                              <SlidersHorizontal size={12} />
+                              Rules
+                            </button>
+                          </div>
+                          <p className="text-xs text-slate-500 mb-4">
+                            Fixed rules run in DuckDB over the loaded contracts
+                            {contractFilterActive && ' that match the current search and filters'}. A flag is a pattern
+                            worth a closer look, not proof of wrongdoing.
+                          </p>
+
+                          {showRedFlagRules && (
+                            <div className="mb-4 p-4 bg-slate-50 border border-slate-200 rounded-xl space-y-4">
+                              {RED_FLAG_RULE_IDS.map((id) => {
+                                const rule = RED_FLAG_RULES[id];
+                                const settings = redFlagSettings[id];
+                                return (
+                                  <div key={id}>
+                                    <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+                                      <input
+                                        type="checkbox"
+                                        checked={settings.enabled}
+                                        onChange={(e) => updateRedFlagRule(id, { enabled: e.target.checked })}
+                                        className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                                      />
+                                      {rule.label}
+                                    </label>
+                                    <p className="mt-1 text-xs text-slate-500">{rule.description}</p>
+                                    {settings.enabled && (
+                                      <div className="mt-2 grid grid-cols-2 gap-2">
+                                        {rule.params.map((param) => (
+                                          <label key={param.key} className="text-[11px] text-slate-500">
+                                            {param.label}
+                                            <input
+                                              type="number"
+                                              min={param.min ?? 0}
+                                              max={param.max}
+                                              value={ruleParamDrafts[`${id}.${param.key}`] ?? settings.params[param.key]}
+                                              onChange={(e) => editRuleParam(id, param.key, e.target.value)}
+                                              onBlur={() => commitRuleParam(id, param.key)}
+                                              onKeyDown={(e) => e.key === 'Enter' && commitRuleParam(id, param.key)}
+                                              className="mt-0.5 w-full px-2 py-1 bg-white border border-slate-200 rounded-lg text-xs text-slate-700 focus:outline-none focus:border-blue-500"
+                                            />
+                                          </label>
+                                        ))}
+                                      </div>
+                                    )}
+                                  </div>
+                                );
+                              })}
+                              <button
+                                onClick={resetRedFlagRules}
+                                className="flex items-center gap-1.5 text-xs font-medium text-slate-500 hover:text-slate-700"
+                              >
+                                <RotateCcw size={12} />
+                                Reset to defaults
+                              </button>
+                            </div>
+                          )}
+
+                          {!redFlags ? (
+                            <div className="flex items-center justify-center gap-2 py-10 text-sm text-slate-400">
+                              <Loader2 size={16} className="animate-spin" />
+                              Running rules…
+                            </div>
+                          ) : redFlags.length === 0 ? (
+                            <div className="py-10 text-center text-sm text-slate-400">No red flags raised.</div>
+                          ) : (
+                            <div className="space-y-2">
+                              <div className="flex gap-2 text-xs">
+                                {(['high', 'medium', 'low'] as const).map((severity) => {
+                                  const count = redFlags.filter((flag) => flag.severity === severity).length;
+                                  return count > 0 && (
+                                    <span key={severity} className={`px-2 py-0.5 rounded-full font-semibold ${RED_FLAG_SEVERITY_STYLES[severity]}`}>
+                                      {count.toLocaleString()} {severity}
+                                    </span>
+                                  );
+                                })}
+                              </div>
+                              {redFlags.map((flag) => (
+                                <div key={flag.id} className="p-3 bg-slate-50 border border-slate-200 rounded-xl">
+                                  <div className="flex items-start justify-between gap-2">
+                                    <div className="min-w-0">
+                                      <div className="text-[11px] font-medium text-slate-400">{RED_FLAG_RULES[flag.rule].label}</div>
+                                      <div className="text-sm font-semibold text-slate-700 line-clamp-2">{flag.title}</div>
+                                    </div>
+                                    <span className={`flex-shrink-0 px-2 py-0.5 rounded-full text-[11px] font-bold uppercase ${RED_FLAG_SEVERITY_STYLES[flag.severity]}`}>
+                                      {flag.severity}
+                                    </span>
+                                  </div>
+                                  <p className="mt-1.5 text-xs text-slate-600">{flag.explanation}</p>
+                                  <div className="mt-2 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs font-medium">
+                                    <button
+                                      onClick={() => showFlagContracts(flag)}
+                                      className="text-blue-600 hover:text-blue-700"
+                                    >
+                                      Show {pluralize(flag.contracts, 'contract')}
+                                    </button>
+                                    <button
+                                      onClick={() => openProfile('organization', flag.organization)}
+                                      className="text-slate-500 hover:text-blue-600"
+                                    >
+                                      Agency profile
+                                    </button>
+                                    {flag.awardee && (
+                                      <button
+                                        onClick={() => flag.awardee && openProfile('awardee', flag.awardee)}
+                                        className="text-slate-500 hover:text-blue-600"
+                                      >
+                                        Supplier profile
+                                      </button>
+                                    )}
+                                  </div>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                      {/* Benford Analysis */}
+                      {analysisView === 'benford' && (
+                        <div className="space-y-6">
+                          <div>
+                            <div className="flex items-center justify-between gap-2 mb-2">
+                              <h3 className="text-sm font-semibold text-slate-600">Benford's Law</h3>
+                              <div className="flex gap-1 p-1 bg-slate-100 rounded-xl">
+                                {([[1, 'First digit'], [2, 'First two']] as const).map(([digits, label]) => (
+                                  <button
+                                    key={digits}
+                                    onClick={() => setBenfordDigits(digits)}
+                                    className={`px-2.5 py-1 rounded-lg text-xs font-medium transition-colors ${
+                                      benfordDigits === digits ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                                    }`}
+                                  >
+                                    {label}
+                                  </button>
+                                ))}
+                              </div>
+                            </div>
+                            <p className="text-xs text-slate-500 mb-4">
+                              In naturally occurring amounts about 30% start with a 1 and under 5% with a 9. Invented or
+                              threshold-driven amounts tend to break that pattern. Amounts under{' '}
+                              {formatCurrency(BENFORD_CONFIG.MIN_AMOUNT, false)} are left out.
+                              {' '}Scope the test with the search, filters or an area
+                              {contractFilterActive ? '; it currently covers only the matching contracts.' : '.'}
+                            </p>
+
+                            {benfordError ? (
+                              <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">
+                                <AlertCircle size={18} className="flex-shrink-0 mt-0.5" />
+                                <span>The Benford test could not run: {benfordError}</span>
+                              </div>
+                            ) : !benford ? (
+                              <div className="flex items-center justify-center gap-2 py-10 text-sm text-slate-400">
+                                <Loader2 size={16} className="animate-spin" />
+                                Testing…
+                              </div>
+                            ) : benford.test.sample === 0 ? (
+                              <div className="py-10 text-center text-sm text-slate-400">No amounts to test.</div>
+                            ) : (
+                              <>
+                                {/* Fit */}
+                                <div className="grid grid-cols-3 gap-2 mb-4">
+                                  <div className="bg-slate-50 border border-slate-200 rounded-xl p-3">
+                                    <div className="text-[11px] font-medium text-slate-500">Contracts</div>
+                                    <div className="text-base font-bold text-slate-800">{benford.test.sample.toLocaleString()}</div>
+                                  </div>
+                                  <div className="bg-slate-50 border border-slate-200 rounded-xl p-3">
+                                    <div className="text-[11px] font-medium text-slate-500">MAD</div>
+                                    <div className="text-base font-bold text-slate-800">{benford.test.mad.toFixed(4)}</div>
+                                    <span className={`inline-block mt-1 px-1.5 py-0.5 rounded-full text-[10px] font-semibold ${
+                                      benfordConformity(benford.test.mad, benford.test.digits).className
+                                    }`}>
+                                      {benfordConformity(benford.test.mad, benford.test.digits).label}
+                                    </span>
+                                  </div>
+                                  <div className="bg-slate-50 border border-slate-200 rounded-xl p-3">
+                                    <div className="text-[11px] font-medium text-slate-500">Chi-square</div>
+                                    <div className="text-base font-bold text-slate-800">{benford.test.chiSquare.toFixed(1)}</div>
+                                    <div className="mt-1 text-[10px] text-slate-500">
+                                      {benford.test.chiSquare > BENFORD_CONFIG.CHI_SQUARE_CRITICAL[benford.test.digits]
+                                        ? 'Deviates at the 5% level'
+                                        : 'Consistent at the 5% level'}
+                                    </div>
+                                  </div>
+                                </div>
+
+                                {/* Observed bars with expected markers */}
+                                <div className="flex items-end gap-px h-36">
+                                  {benford.test.bins.map((bin) => (
+                                    <div
+                                      key={bin.digit}
+                                      className="relative flex-1 h-full flex flex-col justify-end"
+                                      title={`${bin.digit}: ${(bin.share * 100).toFixed(1)}% observed (${bin.count.toLocaleString()}), ${(bin.expected * 100).toFixed(1)}% expected`}
+                                    >
+                                      <div
+                                        className={`w-full rounded-t-sm ${
+                                          Math.abs(bin.share - bin.expected) > BENFORD_CONFIG.MAD_BANDS[benford.test.digits][2] * 2
+                                            ? 'bg-red-400'
+                                            : 'bg-blue-500'
+                                        }`}
+                                        style={{ height: `${benfordMax > 0 ? (bin.share / benfordMax) * 100 : 0}%` }}
+                                      />
+                                      <div
+                                        className="absolute inset-x-0 h-0.5 bg-amber-500"
+                                        style={{ bottom: `${benfordMax > 0 ? (bin.expected / benfordMax) * 100 : 0}%` }}
+                                      />
+                                    </div>
+                                  ))}
+                                </div>
+                                <div className="flex gap-px mt-1 text-[10px] text-slate-400">
+                                  {benford.test.bins.map((bin) => (
+                                    <span key={bin.digit} className="flex-1 text-center">
+                                      {benford.test.digits === 1 || bin.digit % 10 === 0 ? bin.digit : ''}
+                                    </span>
+                                  ))}
+                                </div>
+                                <p className="mt-2 text-[10px] text-slate-400">
+                                  Bars are observed shares, amber lines the shares Benford's Law expects. Red bars are off
+                                  their expected share by more than twice the nonconformity limit.
+                                </p>
+                              </>
+                            )}
+                          </div>
+
+                          {/* Largest deviations */}
+                          {benford && !benfordError && (
+                            <div>
+                              <div className="flex items-center justify-between gap-2 mb-2">
+                                <h3 className="text-sm font-semibold text-slate-600">Largest Deviations</h3>
+                                <div className="flex gap-1 p-1 bg-slate-100 rounded-xl">
+                                  {(Object.keys(BENFORD_DIMENSIONS) as BenfordDimension[]).map((dimension) => (
+                                    <button
+                                      key={dimension}
+                                      onClick={() => setBenfordDimension(dimension)}
+                                      className={`px-2.5 py-1 rounded-lg text-xs font-medium transition-colors ${
+                                        benfordDimension === dimension ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                                      }`}
+                                    >
+                                      {BENFORD_DIMENSIONS[dimension].label}
+                                    </button>
+                                  ))}
+                                </div>
+                              </div>
+                              <p className="text-xs text-slate-500 mb-3">
+                                Ranked by MAD among those with at least{' '}
+                                {BENFORD_CONFIG.MIN_ENTITY_SAMPLE[benfordDigits].toLocaleString()} contracts. Select one to
+                                run the test on it alone.
+                              </p>
+                              {benford.deviations.length === 0 ? (
+                                <div className="py-6 text-center text-sm text-slate-400">None with enough contracts.</div>
+                              ) : (
+                                <div className="space-y-2">
+                                  {benford.deviations.map((deviation) => {
+                                    const conformity = benfordConformity(deviation.mad, benfordDigits);
+                                    return (
+                                      <div key={deviation.name} className="flex items-center gap-3 p-3 bg-slate-50 border border-slate-200 rounded-xl">
+                                        <button
+                                          onClick={() => scopeBenford(deviation.name)}
+                                          className="flex-1 min-w-0 text-left"
+                                          title="Run the test on these contracts only"
+                                        >
+                                          <div className="text-sm font-semibold text-slate-700 truncate hover:text-blue-600">{deviation.name}</div>
+                                          <div className="text-xs text-slate-500">
+                                            {pluralize(deviation.contracts, 'contract')} · χ² {deviation.chiSquare.toFixed(1)} · most over on {deviation.mostOver}
+                                          </div>
+                                        </button>
+                                        {benfordDimension !== 'category' && (
+                                          <button
+                                            onClick={() => openProfile(benfordDimension, deviation.name)}
+                                            className="px-2.5 py-1 bg-white border border-slate-200 rounded-full text-xs font-medium text-slate-600 hover:text-blue-600 hover:border-blue-300 transition-colors flex-shrink-0"
+                                          >
+                                            Profile
+                                          </button>
+                                        )}
+                                        <span
+                                          className={`flex-shrink-0 px-2 py-0.5 rounded-full text-xs font-bold ${conformity.className}`}
+                                          title={conformity.label}
+                                        >
+                                          {deviation.mad.toFixed(4)}
+                                        </span>
+                                      </div>
+                                    );
+                                  })}
+                                </div>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </motion.div>
+                  )}
+                </AnimatePresence>
+              </div>
+            </motion.div>
+          </div>
+        )}
+      </div>
+
+      {/* ================================================================== */}
+      {/* API Key Modal */}
+      {/* ================================================================== */}
+      <AnimatePresence>
+        {showApiKeyModal && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="absolute inset-0 bg-slate-900/70 backdrop-blur-sm"
+              onClick={() => setShowApiKeyModal(false)}
+            />
+
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              className="relative w-full max-w-md bg-white rounded-3xl shadow-2xl overflow-hidden"
+            >
+              {/* Header */}
+              <div className="bg-gradient-to-r from-blue-600 to-blue-700 px-6 py-8 text-white">
+                <div className="flex items-center gap-3 mb-3">
+                  <div className="p-2.5 bg-white/20 rounded-xl">
+                    <Key size={24} />
                   </div>
-                  <div className="text-slate-500 text-sm mb-4 space-y-2">
-                    <p className="font-medium text-slate-600">Troubleshooting tips:</p>
-                    <ul className="list-disc list-inside space-y-1 text-left">
-                      <li>Use the <strong>"Load Data"</strong> button in the header to upload your parquet file</li>
-                      <li>Parquet files must use <strong>no compression</strong> (Snappy and GZIP are not supported in browsers)</li>
-                      <li>Re-export with: <code className="bg-slate-100 px-1.5 py-0.5 rounded text-xs">df.to_parquet("file.parquet", compression=None)</code></li>
-                    </ul>
+                  <h2 className="text-xl font-bold">Connect to Claude AI</h2>
+                </div>
+                <p className="text-blue-100 text-sm">
+                  Enter your Claude API key to enable AI-powered procurement analysis.
+                </p>
+              </div>
+
+              {/* Form */}
+              <div className="p-6 space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">
+                    Claude API Key
+                  </label>
+                  <div className="relative">
+                    <input
+                      type={showApiKey ? 'text' : 'password'}
+                      value={apiKeyInput}
+                      onChange={(e) => setApiKeyInput(e.target.value)}
+                      placeholder="sk-ant-api..."
+                      className="w-full px-4 py-3 pr-10 bg-white border-2 border-slate-200 rounded-xl font-mono text-sm text-slate-800 placeholder-slate-400 focus:outline-none focus:border-blue-500 transition-all"
+                      disabled={isValidatingKey}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowApiKey(!showApiKey)}
+                      className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600"
+                    >
+                      {showApiKey ? <EyeOff size={18} /> : <Eye size={18} />}
+                    </button>
                   </div>
-                  <button
-                    onClick={() => {
-                      hasInitialized.current = false;
-                      setDataError(null);
-                      loadData();
-                    }}
-                    className="px-6 py-3 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl font-semibold hover:shadow-lg hover:shadow-blue-500/30 transition-all"
+                </div>
+
+                {/* Error */}
+                {keyError && (
+                  <motion.div
+                    initial={{ opacity: 0, y: -10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700"
                   >
-                    Retry Loading
-                  </button>
-                </>
-              ) : (
-                <>
-                  <h2 className="text-2xl font-bold text-slate-800 mb-3">Preparing Data</h2>
-                  <p className="text-slate-600">Getting ready to load procurement data...</p>
-                </>
-              )}
-            </div>
-          </motion.div>
-        )}
+                    <AlertCircle size={18} className="flex-shrink-0 mt-0.5" />
+                    <span>{keyError}</span>
+                  </motion.div>
+                )}
 
-        {/* ================================================================== */}
-        {/* Main Content Grid (shown when data is loaded) */}
-        {/* ================================================================== */}
-        {dataLoaded && (
-          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-            {/* Left Column - Search & Province Grid */}
-            <div className="lg:col-span-2 space-y-6">
-              {/* Search Bar */}
-              <motion.div
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: 0.2 }}
-                className="flex gap-3"
-              >
-                <div className="flex-1 relative">
-                  <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
-                  <input
-                    type="text"
-                    placeholder="Search contracts, agencies, or suppliers..."
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    className="w-full pl-12 pr-4 py-4 bg-white border-2 border-slate-200 rounded-2xl text-slate-800 placeholder-slate-400 focus:outline-none focus:border-blue-500 focus:ring-4 focus:ring-blue-500/10 transition-all shadow-sm"
-                  />
+                {/* Info */}
+                <div className="p-4 bg-slate-50 rounded-xl">
+                  <h4 className="text-sm font-medium text-slate-700 mb-2">How to get your API key:</h4>
+                  <ol className="text-sm text-slate-600 space-y-1.5 list-decimal list-inside">
+                    <li>Go to the Anthropic Console</li>
+                    <li>Sign in or create an account</li>
+                    <li>Navigate to API Keys section</li>
+                    <li>Create a new API key</li>
+                  </ol>
+                  <a
+                    href="https://console.anthropic.com/settings/keys"
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 mt-3 text-sm font-medium text-blue-600 hover:text-blue-700"
+                  >
+                    Get API Key <ExternalLink size={14} />
+                  </a>
                 </div>
-                {selectedProvince && (
-                  <motion.button
-                    initial={{ opacity: 0, scale: 0.9 }}
-                    animate={{ opacity: 1, scale: 1 }}
-                    onClick={() => setSelectedProvince(null)}
-                    className="flex items-center gap-2 px-5 py-4 bg-red-50 border-2 border-red-200 rounded-2xl text-red-600 font-semibold hover:bg-red-100 transition-all"
+
+                <p className="text-xs text-slate-500">
+                  Your API key is stored locally and never sent to our servers.
+                </p>
+
+                {/* Actions */}
+                <div className="flex gap-3 pt-2">
+                  <button
+                    onClick={() => setShowApiKeyModal(false)}
+                    className="flex-1 px-4 py-3 bg-slate-100 hover:bg-slate-200 rounded-xl text-slate-700 font-semibold transition-colors"
                   >
-                    <X size={18} />
-                    {selectedProvince}
-                  </motion.button>
-                )}
-              </motion.div>
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSaveApiKey}
+                    disabled={!apiKeyInput.trim() || isValidatingKey}
+                    className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl font-semibold hover:shadow-lg hover:shadow-blue-500/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                  >
+                    {isValidatingKey ? (
+                      <>
+                        <Loader2 size={18} className="animate-spin" />
+                        Validating...
+                      </>
+                    ) : (
+                      'Connect'
+                    )}
+                  </button>
+                </div>
+              </div>
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
 
-              {/* Province Grid */}
-              <motion.div
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: 0.3 }}
-                className="bg-white rounded-3xl p-6 shadow-sm border border-slate-200/80"
-              >
-                <div className="flex items-center justify-between mb-6">
+      {/* ================================================================== */}
+      {/* Dataset Catalog Modal */}
+      {/* ================================================================== */}
+      <AnimatePresence>
+        {showDatasetPanel && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="absolute inset-0 bg-slate-900/70 backdrop-blur-sm"
+              onClick={() => setShowDatasetPanel(false)}
+            />
+
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              className="relative w-full max-w-lg bg-white rounded-3xl shadow-2xl overflow-hidden"
+            >
+              {/* Header */}
+              <div className="bg-gradient-to-r from-blue-600 to-blue-700 px-6 py-6 text-white">
+                <div className="flex items-center justify-between mb-2">
                   <div className="flex items-center gap-3">
-                    <div className="p-2 bg-blue-100 rounded-xl">
-                      <MapPin className="w-5 h-5 text-blue-600" />
+                    <div className="p-2 bg-white/20 rounded-xl">
+                      <Database size={20} />
                     </div>
-                    <h2 className="text-lg font-bold text-slate-800">Procurement by Area</h2>
+                    <h2 className="text-lg font-bold">Datasets</h2>
                   </div>
-                  <span className="text-sm text-slate-500">{areaBreakdown.length} areas</span>
+                  <button
+                    onClick={() => setShowDatasetPanel(false)}
+                    className="p-2 rounded-lg hover:bg-white/10 transition-colors"
+                  >
+                    <X size={20} />
+                  </button>
                 </div>
+                <p className="text-blue-100 text-sm">
+                  Select one dataset to switch to it, or several to combine them. Contracts that
+                  appear in more than one file are counted once.
+                </p>
+              </div>
 
-                <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 max-h-[400px] overflow-y-auto scrollbar-thin pr-2">
-                  {areaBreakdown.slice(0, 30).map(({ area, count, amount }, index) => (
-                    <motion.button
-                      key={area}
-                      initial={{ opacity: 0, scale: 0.95 }}
-                      animate={{ opacity: 1, scale: 1 }}
-                      transition={{ delay: index * 0.02 }}
-                      onClick={() => setSelectedProvince(selectedProvince === area ? null : area)}
-                      className={`relative overflow-hidden rounded-2xl p-4 text-left transition-all duration-300 ${
-                        selectedProvince === area
-                          ? 'bg-gradient-to-br from-blue-600 to-blue-700 shadow-lg shadow-blue-500/30'
-                          : 'bg-slate-50 hover:bg-slate-100 hover:shadow-md'
+              <div className="p-6 space-y-4">
+                <div className="space-y-2 max-h-[320px] overflow-y-auto scrollbar-thin">
+                  {datasets.map((dataset) => (
+                    <label
+                      key={dataset.id}
+                      className={`flex items-center gap-3 rounded-2xl p-4 border cursor-pointer transition-all ${
+                        datasetSelection.includes(dataset.id)
+                          ? 'bg-blue-50 border-blue-300'
+                          : 'bg-slate-50 border-slate-200 hover:bg-slate-100'
                       }`}
                     >
-                      {/* Background Bar */}
-                      <div
-                        className={`absolute bottom-0 left-0 right-0 transition-all duration-500 ${
-                          selectedProvince === area ? 'bg-white/10' : 'bg-blue-500/10'
-                        }`}
-                        style={{ height: `${(amount / maxAmount) * 100}%` }}
+                      <input
+                        type="checkbox"
+                        checked={datasetSelection.includes(dataset.id)}
+                        onChange={(e) => setDatasetSelection((prev) =>
+                          e.target.checked ? [...prev, dataset.id] : prev.filter((id) => id !== dataset.id)
+                        )}
+                        className="w-4 h-4 accent-blue-600"
                       />
-
-                      <div className="relative z-10">
-                        <div className="flex items-center justify-between mb-2">
-                          <span className={`text-sm font-semibold truncate ${
-                            selectedProvince === area ? 'text-white' : 'text-slate-700'
-                          }`}>
-                            {area}
-                          </span>
-                          <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${
-                            selectedProvince === area
-                              ? 'bg-amber-400 text-slate-900'
-                              : 'bg-blue-600 text-white'
-                          }`}>
-                            {count.toLocaleString()}
-                          </span>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-semibold text-slate-800 truncate">{dataset.fileName}</span>
+                          {activeDatasetIds.includes(dataset.id) && (
+                            <span className="px-2 py-0.5 bg-emerald-100 text-emerald-700 rounded-full text-xs font-medium">
+                              In view
+                            </span>
+                          )}
                         </div>
-                        <div className={`text-xl font-bold ${
-                          selectedProvince === area ? 'text-white' : 'text-blue-600'
-                        }`}>
-                          {formatCurrency(amount)}
+                        <div className="text-xs text-slate-500">
+                          {dataset.rowCount.toLocaleString()} contracts
                         </div>
                       </div>
-                    </motion.button>
+                      <button
+                        onClick={(e) => {
+                          e.preventDefault();
+                          removeDataset(dataset.id);
+                        }}
+                        className="p-2 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+                        title="Unload dataset"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </label>
                   ))}
                 </div>
-              </motion.div>
 
+                <div className="grid grid-cols-2 gap-3">
+                  <button
+                    onClick={() => {
+                      setShowDatasetPanel(false);
+                      openFilePicker(true);
+                    }}
+                    className="flex items-center justify-center gap-2 px-4 py-3 bg-slate-100 hover:bg-slate-200 rounded-xl text-slate-700 font-semibold transition-colors"
+                  >
+                    <Upload size={16} />
+                    Add File to View
+                  </button>
+                  <button
+                    onClick={() => switchDatasets(datasetSelection)}
+                    disabled={datasetSelection.length === 0}
+                    className="flex items-center justify-center gap-2 px-4 py-3 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl font-semibold hover:shadow-lg hover:shadow-blue-500/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                  >
+                    {datasetSelection.length > 1 ? `Combine ${datasetSelection.length}` : 'Show Selected'}
+                  </button>
+                </div>
               </div>
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
 
-            {/* Right Column - Panel */}
+      {/* ================================================================== */}
+      {/* Entity Review Modal */}
+      {/* ================================================================== */}
+      <AnimatePresence>
+        {showEntityReview && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
             <motion.div
-              initial={{ opacity: 0, x: 20 }}
-              animate={{ opacity: 1, x: 0 }}
-              transition={{ delay: 0.4 }}
-              className="bg-white rounded-3xl shadow-sm border border-slate-200/80 overflow-hidden flex flex-col"
-              style={{ maxHeight: 'calc(100vh - 200px)', minHeight: '600px' }}
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="absolute inset-0 bg-slate-900/70 backdrop-blur-sm"
+              onClick={() => setShowEntityReview(false)}
+            />
+
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              className="relative w-full max-w-2xl bg-white rounded-3xl shadow-2xl overflow-hidden"
             >
-              {/* Tab Navigation */}
-              <div className="flex p-2 gap-1 border-b border-slate-100">
-                {[
-                  { id: 'insights', icon: BarChart3, label: 'Insights' },
-                  { id: 'contracts', icon: FileText, label: 'Contracts' },
-                ].map((tab) => (
+              {/* Header */}
+              <div className="bg-gradient-to-r from-blue-600 to-blue-700 px-6 py-6 text-white">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 bg-white/20 rounded-xl">
+                      <Users size={20} />
+                    </div>
+                    <h2 className="text-lg font-bold">Name Matches</h2>
+                  </div>
                   <button
-                    key={tab.id}
-                    onClick={() => setActiveTab(tab.id as typeof activeTab)}
-                    className={`flex-1 flex items-center justify-center gap-2 px-4 py-3 rounded-xl text-sm font-semibold transition-all ${
-                      activeTab === tab.id
-                        ? 'bg-blue-600 text-white shadow-lg shadow-blue-500/30'
-                        : 'text-slate-500 hover:bg-slate-100'
-                    }`}
+                    onClick={() => setShowEntityReview(false)}
+                    className="p-2 rounded-lg hover:bg-white/10 transition-colors"
                   >
-                    <tab.icon size={16} />
-                    {tab.label}
+                    <X size={20} />
                   </button>
-                ))}
-                {/* Ask AI Button */}
-                <button
-                  onClick={openChatModal}
-                  className="flex-1 flex items-center justify-center gap-2 px-4 py-3 rounded-xl text-sm font-semibold transition-colors bg-slate-900 text-white hover:bg-slate-800"
-                >
-                  <Sparkles size={16} />
-                  Ask AI
-                </button>
+                </div>
+                <p className="text-blue-100 text-sm">
+                  Names that differ only in case, punctuation or a legal suffix (Inc., Corp.) are
+                  merged automatically. Similar names are only merged once you accept them.
+                  Merged names are counted and searched as one.
+                </p>
               </div>
 
-              {/* Tab Content */}
-              <div className="flex-1 overflow-y-auto p-6 scrollbar-thin">
-                <AnimatePresence mode="wait">
-                  {/* Insights Tab */}
-                  {activeTab === 'insights' && stats && (
-                    <motion.div
-                      key="insights"
-                      initial={{ opacity: 0, y: 10 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      exit={{ opacity: 0, y: -10 }}
-                      className="space-y-6"
+              <div className="p-6 space-y-4">
+                <div className="flex gap-2">
+                  {(Object.keys(ENTITY_KIND_LABELS) as EntityKind[]).map((kind) => (
+                    <button
+                      key={kind}
+                      onClick={() => {
+                        setEntityReviewKind(kind);
+                        setEntityReviewLimit(ENTITY_CONFIG.REVIEW_PAGE_SIZE);
+                      }}
+                      className={`px-4 py-2 rounded-xl text-sm font-semibold transition-colors ${
+                        entityReviewKind === kind
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                      }`}
                     >
-                      {/* Average Contract Card */}
-                      <div className="bg-gradient-to-br from-blue-600 to-blue-700 rounded-2xl p-6 text-white">
-                        <div className="text-sm text-blue-200 mb-1">Average Contract Value</div>
-                        <div className="text-3xl font-bold">{formatCurrency(stats.avgValue)}</div>
-                      </div>
+                      {ENTITY_KIND_LABELS[kind]} ({entityMatches.filter((m) => m.kind === kind).length})
+                    </button>
+                  ))}
+                </div>
 
-                      {/* Top Categories */}
-                      <div>
-                        <h3 className="text-sm font-semibold text-slate-600 mb-4">Top Categories by Value</h3>
-                        <div className="space-y-4">
-                          {topCategories.map(([category, value], index) => (
-                            <div key={category} className="space-y-2">
-                              <div className="flex justify-between items-center">
-                                <span className="text-sm text-slate-600 truncate pr-2">{category}</span>
-                                <span className="text-sm font-bold text-blue-600">{formatCurrency(value)}</span>
-                              </div>
-                              <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
-                                <motion.div
-                                  initial={{ width: 0 }}
-                                  animate={{ width: `${(value / topCategories[0][1]) * 100}%` }}
-                                  transition={{ duration: 0.5, delay: index * 0.1 }}
-                                  className={`h-full rounded-full ${
-                                    index === 0
-                                      ? 'bg-gradient-to-r from-amber-400 to-amber-500'
-                                      : 'bg-gradient-to-r from-blue-500 to-blue-600'
-                                  }`}
-                                />
+                <div className="space-y-2 max-h-[420px] overflow-y-auto scrollbar-thin">
+                  {entityReviewMatches.length === 0 && (
+                    <div className="text-sm text-slate-500 text-center py-8">No name variants found.</div>
+                  )}
+                  {entityReviewMatches
+                    .slice(0, entityReviewLimit)
+                    .map((match) => {
+                      const merged = match.method === 'fuzzy'
+                        ? match.decision === 'accepted'
+                        : match.decision !== 'rejected';
+                      return (
+                        <div
+                          key={match.id}
+                          className={`rounded-2xl p-4 border ${
+                            match.method === 'fuzzy' && match.decision === null
+                              ? 'bg-amber-50 border-amber-200'
+                              : 'bg-slate-50 border-slate-200'
+                          }`}
+                        >
+                          <div className="flex items-start justify-between gap-3">
+                            <div className="min-w-0 space-y-1">
+                              {match.names.map(({ name, rows }) => (
+                                <div key={name} className="text-sm text-slate-800 truncate">
+                                  {name} <span className="text-xs text-slate-500">({rows.toLocaleString()})</span>
+                                </div>
+                              ))}
+                              <div className="text-xs text-slate-500">
+                                {match.method === 'fuzzy'
+                                  ? `Similar name · ${(match.similarity * 100).toFixed(0)}% match`
+                                  : 'Same name after cleanup'}
+                                {' · '}
+                                <span className={merged ? 'text-emerald-600 font-medium' : 'text-slate-600 font-medium'}>
+                                  {match.decision === null && match.method === 'fuzzy'
+                                    ? 'Needs review'
+                                    : merged ? 'Merged' : 'Kept apart'}
+                                </span>
                               </div>
                             </div>
-                          ))}
-                        </div>
-                      </div>
-
-                      {/* Quick Stats Grid */}
-                      <div className="grid grid-cols-2 gap-3">
-                        <div className="bg-gradient-to-br from-emerald-50 to-emerald-100 border border-emerald-200/50 rounded-xl p-4">
-                          <div className="flex items-center gap-2 mb-1">
-                            <Building2 size={14} className="text-emerald-600" />
-                            <span className="text-xs font-medium text-emerald-700">Agencies</span>
-                          </div>
-                          <div className="text-xl font-bold text-emerald-800">{stats.uniqueOrgs.toLocaleString()}</div>
-                        </div>
-                        <div className="bg-gradient-to-br from-violet-50 to-violet-100 border border-violet-200/50 rounded-xl p-4">
-                          <div className="flex items-center gap-2 mb-1">
-                            <Users size={14} className="text-violet-600" />
-                            <span className="text-xs font-medium text-violet-700">Suppliers</span>
-                          </div>
-                          <div className="text-xl font-bold text-violet-800">{stats.uniqueAwardees.toLocaleString()}</div>
-                        </div>
-                        <div className="bg-gradient-to-br from-amber-50 to-amber-100 border border-amber-200/50 rounded-xl p-4">
-                          <div className="flex items-center gap-2 mb-1">
-                            <MapPin size={14} className="text-amber-600" />
-                            <span className="text-xs font-medium text-amber-700">Delivery Areas</span>
-                          </div>
-                          <div className="text-xl font-bold text-amber-800">{stats.uniqueAreas.toLocaleString()}</div>
-                        </div>
-                        <div className="bg-gradient-to-br from-sky-50 to-sky-100 border border-sky-200/50 rounded-xl p-4">
-                          <div className="flex items-center gap-2 mb-1">
-                            <Tag size={14} className="text-sky-600" />
-                            <span className="text-xs font-medium text-sky-700">Categories</span>
+                            <div className="flex gap-2 flex-shrink-0">
+                              {match.decision !== null ? (
+                                <button
+                                  onClick={() => decideEntityMatch(match.id, null)}
+                                  className="px-3 py-1.5 bg-slate-100 hover:bg-slate-200 rounded-lg text-xs font-semibold text-slate-600 transition-colors"
+                                >
+                                  Undo
+                                </button>
+                              ) : (
+                                <>
+                                  {match.method === 'fuzzy' && (
+                                    <button
+                                      onClick={() => decideEntityMatch(match.id, 'accepted')}
+                                      className="px-3 py-1.5 bg-emerald-600 hover:bg-emerald-700 rounded-lg text-xs font-semibold text-white transition-colors"
+                                    >
+                                      Merge
+                                    </button>
+                                  )}
+                                  <button
+                                    onClick={() => decideEntityMatch(match.id, 'rejected')}
+                                    className="px-3 py-1.5 bg-slate-200 hover:bg-slate-300 rounded-lg text-xs font-semibold text-slate-700 transition-colors"
+                                  >
+                                    Keep Apart
+                                  </button>
+                                </>
+                              )}
+                            </div>
                           </div>
-                          <div className="text-xl font-bold text-sky-800">{stats.uniqueCategories.toLocaleString()}</div>
                         </div>
-                      </div>
-                    </motion.div>
+                      );
+                    })}
+                  {entityReviewMatches.length > entityReviewLimit && (
+                    <button
+                      onClick={() => setEntityReviewLimit((limit) => limit + ENTITY_CONFIG.REVIEW_PAGE_SIZE)}
+                      className="w-full py-2 bg-slate-100 hover:bg-slate-200 rounded-xl text-sm font-semibold text-slate-600 transition-colors"
+                    >
+                      Show {Math.min(ENTITY_CONFIG.REVIEW_PAGE_SIZE, entityReviewMatches.length - entityReviewLimit).toLocaleString()} more
+                      {' '}of {(entityReviewMatches.length - entityReviewLimit).toLocaleString()} remaining
+                    </button>
                   )}
+                </div>
+              </div>
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
 
-                  {/* Contracts Tab */}
-                  {activeTab === 'contracts' && (
-                    <motion.div
-                      key="contracts"
-                      initial={{ opacity: 0, y: 10 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      exit={{ opacity: 0, y: -10 }}
-                      className="space-y-4"
+      {/* ================================================================== */}
+      {/* CSV Column Mapping Modal */}
+      {/* ================================================================== */}
+      <AnimatePresence>
+        {csvImport && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="absolute inset-0 bg-slate-900/70 backdrop-blur-sm"
+              onClick={() => setCsvImport(null)}
+            />
+
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              className="relative w-full max-w-3xl max-h-[90vh] bg-white rounded-3xl shadow-2xl overflow-hidden flex flex-col"
+            >
+              {/* Header */}
+              <div className="flex-shrink-0 bg-gradient-to-r from-blue-600 to-blue-700 px-6 py-6 text-white">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 bg-white/20 rounded-xl">
+                      <Upload size={20} />
+                    </div>
+                    <h2 className="text-lg font-bold">Map CSV Columns</h2>
+                  </div>
+                  <button
+                    onClick={() => setCsvImport(null)}
+                    className="p-2 rounded-lg hover:bg-white/10 transition-colors"
+                  >
+                    <X size={20} />
+                  </button>
+                </div>
+                <p className="text-blue-100 text-sm truncate">
+                  {csvImport.file.name} — match each field to a column in your file
+                </p>
+              </div>
+
+              <div className="flex-1 overflow-y-auto p-6 space-y-6 scrollbar-thin">
+                {/* Detected Format */}
+                <div className="grid grid-cols-3 gap-3">
+                  <div>
+                    <label className="block text-xs font-medium text-slate-500 mb-1">Delimiter</label>
+                    <select
+                      value={csvImport.inspection.delimiter}
+                      onChange={(e) => updateCsvFormat({ delimiter: e.target.value })}
+                      className="w-full px-3 py-2 bg-white border-2 border-slate-200 rounded-xl text-sm text-slate-800 focus:outline-none focus:border-blue-500"
                     >
-                      <div className="text-sm text-slate-500 mb-4">
-                        Showing <strong className="text-blue-600">{contracts.length}</strong> of{' '}
-                        <strong className="text-blue-600">{totalFilteredCount.toLocaleString()}</strong> contracts
-                        {selectedProvince && <> in <strong className="text-blue-600">{selectedProvince}</strong></>}
-                      </div>
+                      {CSV_CONFIG.DELIMITERS.map((d) => (
+                        <option key={d} value={d}>{CSV_DELIMITER_LABELS[d]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-slate-500 mb-1">Encoding</label>
+                    <select
+                      value={csvImport.inspection.encoding}
+                      onChange={(e) => updateCsvFormat({ encoding: e.target.value as CsvEncoding })}
+                      className="w-full px-3 py-2 bg-white border-2 border-slate-200 rounded-xl text-sm text-slate-800 focus:outline-none focus:border-blue-500"
+                    >
+                      <option value="utf-8">UTF-8</option>
+                      <option value="windows-1252">Windows-1252</option>
+                      <option value="utf-16le">UTF-16 LE</option>
+                      <option value="utf-16be">UTF-16 BE</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-slate-500 mb-1">Header Row</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={csvImport.inspection.headerRow + 1}
+                      onChange={(e) => updateCsvFormat({ headerRow: Math.max(0, Number(e.target.value) - 1) })}
+                      className="w-full px-3 py-2 bg-white border-2 border-slate-200 rounded-xl text-sm text-slate-800 focus:outline-none focus:border-blue-500"
+                    />
+                  </div>
+                </div>
 
-                      {contracts.map((contract) => (
-                        <motion.div
-                          key={contract.id}
-                          initial={{ opacity: 0, y: 10 }}
-                          animate={{ opacity: 1, y: 0 }}
-                          className="bg-slate-50 border border-slate-200 rounded-2xl p-4 hover:bg-slate-100 hover:border-slate-300 transition-all cursor-pointer group"
-                          onClick={() => openNewsSearch(contract)}
+                {/* Field Mapping */}
+                <div>
+                  <h3 className="text-sm font-semibold text-slate-600 mb-3">Column Mapping</h3>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {CONTRACT_FIELDS.map((field) => (
+                      <div key={field.name}>
+                        <label className="block text-xs font-medium text-slate-500 mb-1">
+                          {field.label}
+                          {field.required && <span className="text-red-500"> *</span>}
+                          <span className="ml-1 font-mono text-slate-400">{field.name}</span>
+                        </label>
+                        <select
+                          value={csvImport.mapping[field.name] ?? ''}
+                          onChange={(e) => setCsvImport({
+                            ...csvImport,
+                            mapping: { ...csvImport.mapping, [field.name]: e.target.value || undefined },
+                          })}
+                          className={`w-full px-3 py-2 bg-white border-2 rounded-xl text-sm text-slate-800 focus:outline-none focus:border-blue-500 ${
+                            field.required && !csvImport.mapping[field.name] ? 'border-red-200' : 'border-slate-200'
+                          }`}
                         >
-                          <div className="flex items-start justify-between mb-3">
-                            <h3 className="text-sm font-semibold text-slate-800 leading-tight pr-4 line-clamp-2">
-                              {contract.title || contract.noticeTitle || 'Untitled Contract'}
-                            </h3>
-                            <button
-                              className="opacity-0 group-hover:opacity-100 p-1.5 bg-blue-100 rounded-lg text-blue-600 hover:bg-blue-200 transition-all flex-shrink-0"
-                              title="Search related news"
-                            >
-                              <Newspaper size={14} />
-                            </button>
-                          </div>
+                          <option value="">— Not in file —</option>
+                          {csvImport.inspection.columns.map((column) => (
+                            <option key={column} value={column}>{column}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
 
-                          <div className="flex flex-wrap gap-2 mb-3">
-                            {contract.category && (
-                              <span className="inline-flex items-center gap-1 px-2 py-1 bg-amber-100 text-amber-700 rounded-lg text-xs font-medium">
-                                <Tag size={10} />
-                                {contract.category.length > 25 ? contract.category.slice(0, 25) + '...' : contract.category}
-                              </span>
-                            )}
-                            {contract.area && (
-                              <span className="inline-flex items-center gap-1 px-2 py-1 bg-blue-100 text-blue-700 rounded-lg text-xs font-medium">
-                                <MapPin size={10} />
-                                {contract.area}
-                              </span>
-                            )}
-                            {contract.date && (
-                              <span className="px-2 py-1 bg-slate-200 text-slate-600 rounded-lg text-xs font-medium">
-                                {formatDate(contract.date)}
-                              </span>
-                            )}
-                          </div>
+                {/* Preview */}
+                <div>
+                  <h3 className="text-sm font-semibold text-slate-600 mb-3">Preview</h3>
+                  <div className="overflow-x-auto rounded-lg border border-slate-200">
+                    <table className="min-w-full divide-y divide-slate-200 text-xs">
+                      <thead className="bg-slate-100">
+                        <tr>
+                          {csvImport.inspection.columns.map((column) => (
+                            <th key={column} className="px-3 py-2 text-left font-semibold text-slate-700 whitespace-nowrap">
+                              {column}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {csvImport.inspection.sampleRows.map((row, i) => (
+                          <tr key={i} className="border-b border-slate-100">
+                            {csvImport.inspection.columns.map((_, j) => (
+                              <td key={j} className="px-3 py-2 text-slate-600 whitespace-nowrap max-w-[200px] truncate">
+                                {row[j] ?? ''}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
 
-                          <div className="text-xl font-bold text-emerald-600 mb-3">
-                            {formatCurrency(contract.amount, false)}
-                          </div>
+                {csvImport.error && (
+                  <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">
+                    <AlertCircle size={18} className="flex-shrink-0 mt-0.5" />
+                    <span>{csvImport.error}</span>
+                  </div>
+                )}
 
-                          <div className="text-xs text-slate-500 space-y-1">
-                            <div className="truncate"><strong className="text-slate-600">Awardee:</strong> {contract.awardee || 'N/A'}</div>
-                            <div className="truncate"><strong className="text-slate-600">Agency:</strong> {contract.organization || 'N/A'}</div>
-                          </div>
-                        </motion.div>
-                      ))}
+                {missingCsvFields.length > 0 && (
+                  <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">
+                    <AlertCircle size={18} className="flex-shrink-0 mt-0.5" />
+                    <span>Map the required fields: {missingCsvFields.map((f) => f.label).join(', ')}</span>
+                  </div>
+                )}
+              </div>
 
-                      {/* Pagination */}
-                      {totalFilteredCount > PAGE_SIZE && (
-                        <div className="flex items-center justify-center gap-2 pt-4">
-                          <button
-                            onClick={() => setCurrentPage(p => Math.max(0, p - 1))}
-                            disabled={currentPage === 0}
-                            className="px-4 py-2 bg-slate-100 hover:bg-slate-200 rounded-xl text-sm font-medium text-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                          >
-                            Previous
-                          </button>
-                          <span className="text-sm text-slate-500">
-                            Page {currentPage + 1} of {Math.ceil(totalFilteredCount / PAGE_SIZE)}
-                          </span>
-                          <button
-                            onClick={() => setCurrentPage(p => p + 1)}
-                            disabled={(currentPage + 1) * PAGE_SIZE >= totalFilteredCount}
-                            className="px-4 py-2 bg-slate-100 hover:bg-slate-200 rounded-xl text-sm font-medium text-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                          >
-                            Next
-                          </button>
-                        </div>
-                      )}
-                    </motion.div>
-                  )}
-                </AnimatePresence>
+              {/* Actions */}
+              <div className="flex-shrink-0 flex gap-3 p-6 border-t border-slate-100">
+                <button
+                  onClick={() => setCsvImport(null)}
+                  className="flex-1 px-4 py-3 bg-slate-100 hover:bg-slate-200 rounded-xl text-slate-700 font-semibold transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={confirmCsvImport}
+                  disabled={missingCsvFields.length > 0}
+                  className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl font-semibold hover:shadow-lg hover:shadow-blue-500/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                >
+                  <Database size={18} />
+                  Import Contracts
+                </button>
               </div>
             </motion.div>
           </div>
         )}
-      </div>
+      </AnimatePresence>
 
       {/* ================================================================== */}
-      {/* API Key Modal */}
+      {/* SQL Console Modal */}
       {/* ================================================================== */}
       <AnimatePresence>
-        {showApiKeyModal && (
-          <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+        {showSqlConsole && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 md:p-6 lg:p-8">
+            {/* Backdrop */}
             <motion.div
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
               exit={{ opacity: 0 }}
-              className="absolute inset-0 bg-slate-900/70 backdrop-blur-sm"
-              onClick={() => setShowApiKeyModal(false)}
+              className="absolute inset-0 bg-slate-900/80 backdrop-blur-md"
+              onClick={() => setShowSqlConsole(false)}
             />
 
+            {/* Modal Container */}
             <motion.div
               initial={{ opacity: 0, scale: 0.95, y: 20 }}
               animate={{ opacity: 1, scale: 1, y: 0 }}
               exit={{ opacity: 0, scale: 0.95, y: 20 }}
-              className="relative w-full max-w-md bg-white rounded-3xl shadow-2xl overflow-hidden"
+              transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+              className="relative w-full max-w-6xl h-[90vh] max-h-[900px] bg-white rounded-3xl shadow-2xl overflow-hidden flex flex-col"
             >
               {/* Header */}
-              <div className="bg-gradient-to-r from-blue-600 to-blue-700 px-6 py-8 text-white">
-                <div className="flex items-center gap-3 mb-3">
-                  <div className="p-2.5 bg-white/20 rounded-xl">
-                    <Key size={24} />
+              <div className="flex-shrink-0 bg-slate-900 px-6 py-5 flex items-center justify-between">
+                <div className="flex items-center gap-4">
+                  <div className="w-11 h-11 bg-slate-800 rounded-2xl flex items-center justify-center">
+                    <SquareTerminal size={22} className="text-white" />
+                  </div>
+                  <div>
+                    <h2 className="text-lg font-semibold text-white">SQL Console</h2>
+                    <p className="text-slate-400 text-sm">
+                      Read-only SELECT queries over <code className="text-slate-300">contracts</code>
+                    </p>
                   </div>
-                  <h2 className="text-xl font-bold">Connect to Claude AI</h2>
                 </div>
-                <p className="text-blue-100 text-sm">
-                  Enter your Claude API key to enable AI-powered procurement analysis.
-                </p>
+                <button
+                  onClick={() => setShowSqlConsole(false)}
+                  className="w-10 h-10 rounded-xl flex items-center justify-center text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+                  title="Close console"
+                >
+                  <X size={20} />
+                </button>
               </div>
 
-              {/* Form */}
-              <div className="p-6 space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-slate-700 mb-2">
-                    Claude API Key
-                  </label>
-                  <div className="relative">
-                    <input
-                      type={showApiKey ? 'text' : 'password'}
-                      value={apiKeyInput}
-                      onChange={(e) => setApiKeyInput(e.target.value)}
-                      placeholder="sk-ant-api..."
-                      className="w-full px-4 py-3 pr-10 bg-white border-2 border-slate-200 rounded-xl font-mono text-sm text-slate-800 placeholder-slate-400 focus:outline-none focus:border-blue-500 transition-all"
-                      disabled={isValidatingKey}
+              <div className="flex-1 flex min-h-0">
+                <div className="flex-1 flex flex-col min-w-0">
+                  {/* Editor: highlighted copy behind a transparent textarea */}
+                  <div className="relative h-48 flex-shrink-0 border-b border-slate-200 bg-slate-50 font-mono text-sm">
+                    <pre
+                      ref={sqlHighlightRef}
+                      aria-hidden
+                      className="absolute inset-0 m-0 p-4 overflow-hidden whitespace-pre-wrap break-words text-slate-800 pointer-events-none"
+                    >
+                      {highlightSql(sqlText)}
+                      {'\n'}
+                    </pre>
+                    <textarea
+                      value={sqlText}
+                      onChange={(e) => setSqlText(e.target.value)}
+                      onScroll={(e) => {
+                        if (sqlHighlightRef.current) sqlHighlightRef.current.scrollTop = e.currentTarget.scrollTop;
+                      }}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                          e.preventDefault();
+                          runSql();
+                        }
+                      }}
+                      spellCheck={false}
+                      className="absolute inset-0 w-full h-full p-4 bg-transparent text-transparent caret-slate-800 resize-none whitespace-pre-wrap break-words focus:outline-none"
                     />
+                  </div>
+
+                  {/* Toolbar */}
+                  <div className="flex-shrink-0 flex flex-wrap items-center gap-3 px-4 py-3 border-b border-slate-200">
                     <button
-                      type="button"
-                      onClick={() => setShowApiKey(!showApiKey)}
-                      className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600"
+                      onClick={runSql}
+                      disabled={sqlRunning || !sqlText.trim()}
+                      className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-xl text-sm font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     >
-                      {showApiKey ? <EyeOff size={18} /> : <Eye size={18} />}
+                      {sqlRunning ? <Loader2 size={14} className="animate-spin" /> : <Play size={14} />}
+                      Run
+                      <span className="hidden sm:inline text-xs text-blue-200">Ctrl+Enter</span>
+                    </button>
+                    {sqlRunning && (
+                      <button
+                        onClick={cancelSql}
+                        className="flex items-center gap-2 px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-xl text-sm font-semibold transition-colors"
+                      >
+                        <X size={14} />
+                        Cancel
+                      </button>
+                    )}
+                    <button
+                      onClick={exportSqlCsv}
+                      disabled={!sqlResult || sqlRunning}
+                      className="flex items-center gap-2 px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-xl text-sm font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      title={`Download up to ${SQL_CONSOLE_CONFIG.MAX_EXPORT_ROWS.toLocaleString()} rows of the result as CSV`}
+                    >
+                      <Download size={14} />
+                      Export CSV
                     </button>
+                    {sqlResult && (
+                      <span className="text-sm text-slate-500">
+                        {sqlResult.truncated
+                          ? `First ${SQL_CONSOLE_CONFIG.MAX_ROWS.toLocaleString()} rows`
+                          : `${sqlResult.rows.length.toLocaleString()} rows`}{' '}
+                        in {Math.round(sqlResult.elapsedMs).toLocaleString()} ms
+                      </span>
+                    )}
+                    {sqlNotice && <span className="text-sm text-amber-700">{sqlNotice}</span>}
                   </div>
-                </div>
-
-                {/* Error */}
-                {keyError && (
-                  <motion.div
-                    initial={{ opacity: 0, y: -10 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700"
-                  >
-                    <AlertCircle size={18} className="flex-shrink-0 mt-0.5" />
-                    <span>{keyError}</span>
-                  </motion.div>
-                )}
 
-                {/* Info */}
-                <div className="p-4 bg-slate-50 rounded-xl">
-                  <h4 className="text-sm font-medium text-slate-700 mb-2">How to get your API key:</h4>
-                  <ol className="text-sm text-slate-600 space-y-1.5 list-decimal list-inside">
-                    <li>Go to the Anthropic Console</li>
-                    <li>Sign in or create an account</li>
-                    <li>Navigate to API Keys section</li>
-                    <li>Create a new API key</li>
-                  </ol>
-                  <a
-                    href="https://console.anthropic.com/settings/keys"
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="inline-flex items-center gap-1 mt-3 text-sm font-medium text-blue-600 hover:text-blue-700"
-                  >
-                    Get API Key <ExternalLink size={14} />
-                  </a>
+                  {/* Results */}
+                  <div className="flex-1 overflow-auto scrollbar-thin min-h-0">
+                    {sqlError ? (
+                      <div className="m-4 flex items-start gap-2 p-4 bg-red-50 border border-red-200 rounded-2xl text-sm text-red-700">
+                        <AlertCircle size={16} className="mt-0.5 flex-shrink-0" />
+                        <pre className="whitespace-pre-wrap font-mono text-xs">{sqlError}</pre>
+                      </div>
+                    ) : sqlResult ? (
+                      <table className="min-w-full text-xs">
+                        <thead className="sticky top-0 bg-slate-100">
+                          <tr>
+                            {sqlResult.columns.map((column, index) => (
+                              <th
+                                key={index}
+                                className="px-3 py-2 text-left font-semibold text-slate-700 whitespace-nowrap border-b border-slate-200"
+                                title={column.type}
+                              >
+                                {column.name}
+                              </th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {sqlResult.rows.map((row, r) => (
+                            <tr key={r} className="even:bg-slate-50 hover:bg-blue-50/50">
+                              {row.map((value, c) => (
+                                <td
+                                  key={c}
+                                  className="px-3 py-1.5 text-slate-700 whitespace-nowrap max-w-xs truncate border-b border-slate-100 font-mono"
+                                >
+                                  {value === null || value === undefined
+                                    ? <span className="text-slate-300 italic">NULL</span>
+                                    : formatConsoleValue(value, sqlResult.columns[c].type)}
+                                </td>
+                              ))}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    ) : (
+                      <div className="h-full flex items-center justify-center text-sm text-slate-400">
+                        Run a query to see results
+                      </div>
+                    )}
+                  </div>
                 </div>
 
-                <p className="text-xs text-slate-500">
-                  Your API key is stored locally and never sent to our servers.
-                </p>
-
-                {/* Actions */}
-                <div className="flex gap-3 pt-2">
-                  <button
-                    onClick={() => setShowApiKeyModal(false)}
-                    className="flex-1 px-4 py-3 bg-slate-100 hover:bg-slate-200 rounded-xl text-slate-700 font-semibold transition-colors"
-                  >
-                    Cancel
-                  </button>
-                  <button
-                    onClick={handleSaveApiKey}
-                    disabled={!apiKeyInput.trim() || isValidatingKey}
-                    className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl font-semibold hover:shadow-lg hover:shadow-blue-500/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
-                  >
-                    {isValidatingKey ? (
-                      <>
-                        <Loader2 size={18} className="animate-spin" />
-                        Validating...
-                      </>
+                {/* History */}
+                <div className="hidden md:flex w-64 flex-shrink-0 flex-col border-l border-slate-200 bg-slate-50">
+                  <div className="flex items-center gap-2 px-4 py-3 text-xs font-semibold text-slate-500 uppercase tracking-wide border-b border-slate-200">
+                    <History size={14} />
+                    History
+                  </div>
+                  <div className="flex-1 overflow-y-auto scrollbar-thin">
+                    {sqlHistory.length === 0 ? (
+                      <p className="p-4 text-xs text-slate-400">Queries you run are kept here.</p>
                     ) : (
-                      'Connect'
+                      sqlHistory.map((entry) => (
+                        <button
+                          key={entry.sql}
+                          onClick={() => setSqlText(entry.sql)}
+                          className="w-full text-left px-4 py-3 border-b border-slate-200/70 hover:bg-white transition-colors"
+                          title={entry.sql}
+                        >
+                          <div className="font-mono text-xs text-slate-700 line-clamp-3 break-all">{entry.sql}</div>
+                          <div className={`mt-1 text-[11px] ${entry.rows === null ? 'text-red-500' : 'text-slate-400'}`}>
+                            {new Date(entry.ranAt).toLocaleString('en-PH', { dateStyle: 'short', timeStyle: 'short' })}
+                            {' · '}
+                            {entry.rows === null ? 'failed' : `${entry.rows.toLocaleString()} rows`}
+                          </div>
+                        </button>
+                      ))
                     )}
-                  </button>
+                  </div>
                 </div>
               </div>
             </motion.div>
@@ -1935,6 +8780,260 @@ Remember: Be prescriptive and insightful. Don't just report numbers—explain wh
         )}
       </AnimatePresence>
 
+      {/* ================================================================== */}
+      {/* Entity Profile Panel */}
+      {/* ================================================================== */}
+      <AnimatePresence>
+        {profileTarget && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="absolute inset-0 bg-slate-900/70 backdrop-blur-sm"
+              onClick={closeProfile}
+            />
+
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              className="relative w-full max-w-3xl max-h-[90vh] bg-white rounded-3xl shadow-2xl overflow-hidden flex flex-col"
+            >
+              {/* Header */}
+              <div className={`bg-gradient-to-r px-6 py-6 text-white ${
+                profileTarget.kind === 'awardee' ? 'from-violet-600 to-violet-700' : 'from-emerald-600 to-emerald-700'
+              }`}>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <div className="p-2 bg-white/20 rounded-xl flex-shrink-0">
+                      {profileTarget.kind === 'awardee' ? <Users size={20} /> : <Building2 size={20} />}
+                    </div>
+                    <div className="min-w-0">
+                      <div className="text-xs font-medium text-white/70">{ENTITY_PROFILE_LABELS[profileTarget.kind].title}</div>
+                      <h2 className="text-lg font-bold leading-tight">{profileTarget.name}</h2>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => toggleWatch(profileTarget.kind, profileTarget.name)}
+                      className="p-2 rounded-lg hover:bg-white/10 transition-colors"
+                      title={watchedKeys.has(`${profileTarget.kind}:${profileTarget.name}`)
+                        ? 'Stop watching'
+                        : `Watch this ${profileTarget.kind === 'awardee' ? 'supplier' : 'agency'}`}
+                    >
+                      <Star
+                        size={20}
+                        className={watchedKeys.has(`${profileTarget.kind}:${profileTarget.name}`) ? 'fill-amber-300 text-amber-300' : ''}
+                      />
+                    </button>
+                    <button
+                      onClick={closeProfile}
+                      className="p-2 rounded-lg hover:bg-white/10 transition-colors"
+                    >
+                      <X size={20} />
+                    </button>
+                  </div>
+                </div>
+              </div>
+
+              {/* Content */}
+              {!entityProfile ? (
+                <div className="flex items-center justify-center gap-2 py-20 text-sm text-slate-500">
+                  <Loader2 size={18} className="animate-spin" />
+                  Loading profile…
+                </div>
+              ) : (
+                <div className="flex-1 overflow-y-auto p-6 space-y-6 scrollbar-thin">
+                  {/* Totals */}
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                    {[
+                      { label: ENTITY_PROFILE_LABELS[entityProfile.kind].amount, value: formatCurrency(entityProfile.amount) },
+                      { label: 'Contracts', value: entityProfile.contracts.toLocaleString() },
+                      {
+                        label: ENTITY_KIND_LABELS[entityProfile.kind === 'awardee' ? 'organization' : 'awardee'],
+                        value: entityProfile.counterpartyCount.toLocaleString(),
+                      },
+                      {
+                        label: 'Rank by Value',
+                        value: entityProfile.rank > 0 ? `#${entityProfile.rank.toLocaleString()} of ${entityProfile.rankOf.toLocaleString()}` : 'N/A',
+                      },
+                    ].map((stat) => (
+                      <div key={stat.label} className="bg-slate-50 border border-slate-200 rounded-xl p-3">
+                        <div className="text-xs font-medium text-slate-500">{stat.label}</div>
+                        <div className="text-lg font-bold text-slate-800">{stat.value}</div>
+                      </div>
+                    ))}
+                  </div>
+                  {entityProfile.firstAward && (
+                    <p className="-mt-3 text-xs text-slate-500">
+                      First award {formatDate(entityProfile.firstAward)}, last award {formatDate(entityProfile.lastAward)}
+                    </p>
+                  )}
+
+                  {/* Spend over time */}
+                  {entityProfile.trend.length > 0 && (
+                    <div>
+                      <h3 className="text-sm font-semibold text-slate-600 mb-3">
+                        {entityProfile.kind === 'awardee' ? 'Awards by Year' : 'Spend by Year'}
+                      </h3>
+                      <div className="flex items-end gap-1 h-28">
+                        {entityProfile.trend.map((point) => (
+                          <div
+                            key={point.period.getTime()}
+                            className="flex-1 h-full flex flex-col justify-end"
+                            title={`${point.period.getUTCFullYear()}: ${formatCurrency(point.amount)} (${point.count.toLocaleString()} contracts)`}
+                          >
+                            <div
+                              className={`w-full rounded-t-sm transition-colors ${
+                                entityProfile.kind === 'awardee' ? 'bg-violet-500 hover:bg-violet-600' : 'bg-emerald-500 hover:bg-emerald-600'
+                              }`}
+                              style={{ height: `${profileTrendMax > 0 ? (point.amount / profileTrendMax) * 100 : 0}%` }}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                      <div className="flex justify-between mt-1 text-[10px] text-slate-400">
+                        <span>{entityProfile.trend[0].period.getUTCFullYear()}</span>
+                        <span>{entityProfile.trend[entityProfile.trend.length - 1].period.getUTCFullYear()}</span>
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="grid sm:grid-cols-2 gap-6">
+                    {/* Counterparties and category mix */}
+                    {([
+                      [
+                        ENTITY_PROFILE_LABELS[entityProfile.kind].counterparties,
+                        entityProfile.counterparties,
+                        entityProfile.kind === 'awardee' ? 'bg-emerald-500' : 'bg-violet-500',
+                        entityProfile.kind === 'awardee' ? 'organization' : 'awardee',
+                      ],
+                      ['Category Mix', entityProfile.categories, 'bg-amber-500', null],
+                    ] as const).map(([title, shares, barColor, linkKind]) => (
+                      <div key={title}>
+                        <h3 className="text-sm font-semibold text-slate-600 mb-3">{title}</h3>
+                        {shares.length === 0 ? (
+                          <p className="text-xs text-slate-400">None recorded.</p>
+                        ) : (
+                          <div className="space-y-2.5">
+                            {shares.map((share) => (
+                              <div key={share.name}>
+                                <div className="flex justify-between gap-2 text-xs">
+                                  {linkKind ? (
+                                    <button
+                                      onClick={() => openProfile(linkKind, share.name)}
+                                      className="text-slate-600 truncate hover:text-blue-600 hover:underline"
+                                      title={`Open ${linkKind === 'awardee' ? 'supplier' : 'agency'} profile`}
+                                    >
+                                      {share.name}
+                                    </button>
+                                  ) : (
+                                    <span className="text-slate-600 truncate" title={share.name}>{share.name}</span>
+                                  )}
+                                  <span className="font-semibold text-slate-700 flex-shrink-0">
+                                    {formatCurrency(share.amount)} · {(share.share * 100).toFixed(1)}%
+                                  </span>
+                                </div>
+                                <div className="h-1.5 mt-1 bg-slate-100 rounded-full overflow-hidden">
+                                  <div className={`h-full rounded-full ${barColor}`} style={{ width: `${share.share * 100}%` }} />
+                                </div>
+                              </div>
+                            ))}
+                            {shares === entityProfile.counterparties && entityProfile.counterpartyCount > shares.length && (
+                              <p className="text-xs text-slate-400">
+                                and {(entityProfile.counterpartyCount - shares.length).toLocaleString()} more
+                              </p>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+
+                  {/* Delivery areas */}
+                  {entityProfile.areas.length > 0 && (
+                    <div>
+                      <h3 className="text-sm font-semibold text-slate-600 mb-3">Delivery Areas</h3>
+                      <div className="flex flex-wrap gap-2">
+                        {entityProfile.areas.map((area) => (
+                          <span
+                            key={area.name}
+                            className="inline-flex items-center gap-1 px-2 py-1 bg-blue-100 text-blue-700 rounded-lg text-xs font-medium"
+                            title={`${area.count.toLocaleString()} contracts`}
+                          >
+                            <MapPin size={10} />
+                            {area.name} · {formatCurrency(area.amount)}
+                          </span>
+                        ))}
+                        {entityProfile.areaCount > entityProfile.areas.length && (
+                          <span className="px-2 py-1 text-xs text-slate-400">
+                            and {(entityProfile.areaCount - entityProfile.areas.length).toLocaleString()} more
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Largest contracts */}
+                  <div>
+                    <h3 className="text-sm font-semibold text-slate-600 mb-3">Largest Contracts</h3>
+                    <div className="space-y-2">
+                      {entityProfile.largest.map((contract) => {
+                        const counterpartyKind = entityProfile.kind === 'awardee' ? 'organization' : 'awardee';
+                        const counterparty = contract[counterpartyKind];
+                        return (
+                          <div
+                            key={contract.id}
+                            className="flex items-center justify-between gap-3 p-3 bg-slate-50 border border-slate-200 rounded-xl"
+                          >
+                            <div className="min-w-0">
+                              <button
+                                onClick={() => openNewsSearch(contract)}
+                                className="block max-w-full text-sm font-medium text-slate-700 truncate text-left hover:text-blue-600"
+                                title="Search related news"
+                              >
+                                {contract.title || contract.noticeTitle || 'Untitled Contract'}
+                              </button>
+                              <div className="text-xs text-slate-500 truncate">
+                                {counterparty ? (
+                                  <button
+                                    onClick={() => openProfile(counterpartyKind, counterparty)}
+                                    className="hover:text-blue-600 hover:underline"
+                                  >
+                                    {counterparty}
+                                  </button>
+                                ) : 'N/A'}
+                                {contract.date && ` · ${formatDate(contract.date)}`}
+                              </div>
+                            </div>
+                            <span className="text-sm font-bold text-emerald-600 flex-shrink-0">{formatCurrency(contract.amount)}</span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Footer */}
+              <div className="px-6 py-4 border-t border-slate-100 flex justify-end">
+                <button
+                  onClick={() => {
+                    showEntityContracts(profileTarget.kind, profileTarget.name);
+                    closeProfile();
+                  }}
+                  className="flex items-center gap-2 px-4 py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-xl text-sm font-semibold transition-colors"
+                >
+                  <FileText size={16} />
+                  Show all contracts
+                </button>
+              </div>
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
+
       {/* ================================================================== */}
       {/* News Search Panel */}
       {/* ================================================================== */}